@@ -107,8 +107,29 @@ export class EvidenceModule {
       });
     });
 
+    // A biconditional is two claims, so each direction needs its own evidence
+    const uniqueImplications = new Set<string>();
+    allFormulas.forEach((formula: LogicFormula) => {
+      this.collectBiconditionals(formula).forEach(([left, right]) => {
+        [[left, right], [right, left]].forEach(([antecedent, consequent]) => {
+          const requirement = this.requireImplicationEvidence(antecedent, consequent);
+          if (uniqueImplications.has(requirement.target)) return;
+          uniqueImplications.add(requirement.target);
+          requirements.push(requirement);
+          missingEvidence.push(`Implication: ${requirement.target}`);
+        });
+      });
+    });
+
     // Require evidence for all implications (premise → conclusion pairs)
     structuredArgument.premises.forEach((premise: any) => {
+      // ⊤ holds without evidence; ⊥ can never be supported by any
+      if (premise.formula.operator === 'top') return;
+      if (premise.formula.operator === 'zero') {
+        invalidEvidence.push(`Premise ${FormulaUtils.toString(premise.formula)} asserts absurdity, which no evidence can support`);
+        return;
+      }
+
       const requirement = this.requireImplicationEvidence(
         premise.formula,
         structuredArgument.conclusion.formula
@@ -125,6 +146,15 @@ export class EvidenceModule {
     };
   }
 
+  private collectBiconditionals(formula: LogicFormula): Array<[LogicFormula, LogicFormula]> {
+    const found: Array<[LogicFormula, LogicFormula]> = [];
+    if (formula.operator === 'biconditional' && formula.subformulas) {
+      found.push([formula.subformulas[0], formula.subformulas[1]]);
+    }
+    formula.subformulas?.forEach(sub => found.push(...this.collectBiconditionals(sub)));
+    return found;
+  }
+
   /**
    * Record and validate AI-provided evidence for a specific requirement
    */
@@ -0,0 +1,157 @@
+/**
+ * AIF Export
+ * Writes a stored argument in the Argument Interchange Format, as the AIFdb JSON of nodes and edges
+ *
+ * Every symbol is an I-node with its concept_description as text, as is every compound premise
+ * and every formula the derivation passes through. Each inference of a valid argument's
+ * derivation is an RA-node from the I-nodes it uses to the one it concludes; an argument
+ * without a derivation gets one "Default Inference" from its premises to its conclusion.
+ * Evidence is an I-node too, supporting its target through an RA-node or, with negative
+ * strength, attacking it through a CA-node. Neutral evidence is left out.
+ *
+ * Nodes carry the symbol, formula, rule, strength and citation as extra fields, which other
+ * AIF tools ignore and AifParser reads back.
+ */
+
+import { Derivation } from "../logic/derivation.js";
+import { ArgumentFormulas } from "./argument-formulas.js";
+import { AifDocument, AifEdge, AifNode, ArgumentRecord, DerivationStep, InferenceRule, LogicFormula } from "../types.js";
+
+const RULE_NAMES: Record<InferenceRule, string> = {
+  'premise': 'Premise',
+  'hypothesis': 'Hypothesis',
+  '→E': 'Modus Ponens',
+  '∧I': 'Conjunction Introduction',
+  '∧E': 'Conjunction Elimination',
+  '∨I': 'Disjunction Introduction',
+  '∨E': 'Proof by Cases',
+  '↔I': 'Biconditional Introduction',
+  '↔E': 'Biconditional Elimination',
+  '⊤I': 'Truth Introduction',
+  '⊥E': 'Ex Falso Quodlibet',
+  '→I': 'Conditional Proof',
+  '¬E': 'Contradiction',
+  '¬I': 'Reductio ad Absurdum'
+};
+
+export class AifExport {
+
+  static toAif(record: ArgumentRecord): AifDocument {
+    const argument = ArgumentFormulas.fromRecord(record);
+    const nodes: AifNode[] = [];
+    const edges: AifEdge[] = [];
+    const timestamp = record.updatedAt;
+
+    const add = (node: Omit<AifNode, 'nodeID' | 'timestamp'>): string => {
+      const nodeID = `${nodes.length + 1}`;
+      nodes.push({ nodeID, ...node, timestamp });
+      return nodeID;
+    };
+    const link = (fromID: string, toID: string) => {
+      edges.push({ edgeID: `${edges.length + 1}`, fromID, toID });
+    };
+
+    // I-nodes by the symbolic text atomic_reason and evidence targets use
+    const informationNodes = new Map<string, string>();
+    argument.symbols.forEach(group => {
+      informationNodes.set(group.symbol, add({ text: group.concept_description, type: 'I', symbol: group.symbol }));
+    });
+    const information = (formula: LogicFormula): string => {
+      const text = ArgumentFormulas.symbolic(formula);
+      if (!informationNodes.has(text)) {
+        informationNodes.set(text, add({ text: ArgumentFormulas.naturalLanguage(formula, argument.symbols), type: 'I', formula: text }));
+      }
+      return informationNodes.get(text)!;
+    };
+
+    const premises = argument.premises.map(premise => information(premise.formula));
+    if (argument.conclusion) {
+      const conclusion = information(argument.conclusion.formula);
+      const derivation = record.result?.validation_result === 'VALID'
+        ? Derivation.derive(argument.premises.map(p => p.formula), argument.conclusion.formula)
+        : undefined;
+
+      if (derivation?.conclusion) {
+        this.inferences(derivation.conclusion, information, add, link);
+      } else if (premises.length > 0) {
+        const inference = add({ text: 'Default Inference', type: 'RA' });
+        premises.forEach(premise => link(premise, inference));
+        link(inference, conclusion);
+      }
+    }
+
+    record.evidence.filter(item => item.strength !== 0).forEach(item => {
+      if (!informationNodes.has(item.target)) {
+        informationNodes.set(item.target, add({ text: item.target, type: 'I' }));
+      }
+      const evidence = add({ text: item.summary, type: 'I', strength: item.strength, citation: item.citation });
+      const application = add(item.strength < 0
+        ? { text: 'Default Conflict', type: 'CA' }
+        : { text: 'Default Inference', type: 'RA' });
+      link(evidence, application);
+      link(application, informationNodes.get(item.target)!);
+    });
+
+    return { nodes, edges, locutions: [] };
+  }
+
+  /**
+   * One RA-node per derivation step; a step that closes subproofs uses what its subproofs
+   * take from outside them, since the hypotheses themselves are never asserted
+   */
+  private static inferences(
+    proof: DerivationStep,
+    information: (formula: LogicFormula) => string,
+    add: (node: Omit<AifNode, 'nodeID' | 'timestamp'>) => string,
+    link: (fromID: string, toID: string) => void
+  ): void {
+    const emitted = new Map<DerivationStep, string>();
+
+    const emit = (step: DerivationStep): string => {
+      const existing = emitted.get(step);
+      if (existing) return existing;
+
+      const conclusion = information(step.formula);
+      emitted.set(step, conclusion);
+      if (step.rule === 'premise') return conclusion;
+
+      const inputs = new Set(step.from);
+      step.cases?.forEach(({ result }) => this.outsideInputs(result).forEach(input => inputs.add(input)));
+
+      const inference = add({ text: RULE_NAMES[step.rule], type: 'RA', rule: step.rule });
+      inputs.forEach(input => link(emit(input), inference));
+      link(inference, conclusion);
+      return conclusion;
+    };
+
+    emit(proof);
+  }
+
+  /**
+   * Steps a subproof result rests on that depend on no open hypothesis
+   */
+  private static outsideInputs(result: DerivationStep): DerivationStep[] {
+    const open = new Map<DerivationStep, boolean>();
+    const dependsOnOpen = (step: DerivationStep, discharged: Set<DerivationStep>): boolean => {
+      if (step.rule === 'hypothesis') return !discharged.has(step);
+      if (discharged.size === 0 && open.has(step)) return open.get(step)!;
+      const depends = step.from.some(source => dependsOnOpen(source, discharged))
+        || (step.cases ?? []).some(c => dependsOnOpen(c.result, new Set([...discharged, c.hypothesis])));
+      if (discharged.size === 0) open.set(step, depends);
+      return depends;
+    };
+
+    const inputs = new Set<DerivationStep>();
+    const visit = (step: DerivationStep) => {
+      if (step.rule === 'hypothesis') return;
+      if (!dependsOnOpen(step, new Set())) {
+        inputs.add(step);
+        return;
+      }
+      step.from.forEach(visit);
+      step.cases?.forEach(c => visit(c.result));
+    };
+    visit(result);
+    return Array.from(inputs);
+  }
+}
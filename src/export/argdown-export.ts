@@ -0,0 +1,95 @@
+/**
+ * Argdown Export
+ * Writes a stored argument as Argdown: every symbol as a top-level statement with its
+ * concept_description, each lemma and then the argument itself as a premise-conclusion
+ * structure, and the evidence as comments under the statement or premise it supports
+ *
+ * Atomic premises refer to their statement as [SYMBOL]; compound ones mention the statements
+ * they are built from, e.g. "@[AUTH] → @[ACCESS]", which ArgdownParser reads back unchanged.
+ * Each symbol's statement carries the symbol and its text_variants as JSON data, so they read
+ * back exactly rather than as ArgdownParser would name a titled statement.
+ */
+
+import { ArgumentFormulas } from "./argument-formulas.js";
+import { ArgumentRecord, EvidenceItem, LogicFormula, ParsedArgument } from "../types.js";
+
+export class ArgdownExport {
+
+  static toArgdown(record: ArgumentRecord): string {
+    const argument = ArgumentFormulas.fromRecord(record);
+    const attached = new Set<string>();
+    const evidenceFor = (target: string, indent: string) => {
+      if (attached.has(target)) return [];
+      attached.add(target);
+      return this.comments(record.evidence.filter(item => item.target === target), indent);
+    };
+
+    const lines = [
+      `// ${record.id}: ${record.result?.validation_result ?? 'NOT VALIDATED'} in ${record.logic} logic`,
+      ''
+    ];
+
+    argument.symbols.forEach(group => {
+      const data = JSON.stringify({ symbol: group.symbol, text_variants: group.text_variants });
+      lines.push(`[${group.symbol}]: ${this.oneLine(group.concept_description)} ${data}`);
+      lines.push(...evidenceFor(group.symbol, '  '));
+    });
+    lines.push('');
+
+    (record.lemmas ?? []).forEach((lemma, index) => {
+      const parsed = ArgumentFormulas.fromRecord({ ...record, premises: lemma.premises, conclusion: lemma.conclusion });
+      lines.push(...this.structure(lemma.name || `L${index + 1}`, parsed, evidenceFor), '');
+    });
+    lines.push(...this.structure(record.id, argument, evidenceFor));
+
+    // Evidence for targets that are no longer a symbol or premise of the argument
+    const unattached = record.evidence.filter(item => !attached.has(item.target));
+    if (unattached.length > 0) {
+      lines.push('');
+      Array.from(new Set(unattached.map(item => item.target))).forEach(target => {
+        lines.push(`// Evidence for ${target}:`, ...this.comments(unattached.filter(item => item.target === target), ''));
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  private static structure(
+    title: string,
+    argument: ParsedArgument,
+    evidenceFor: (target: string, indent: string) => string[]
+  ): string[] {
+    const symbols = argument.symbols.map(group => group.symbol);
+    const lines = [`<${title}>`, ''];
+
+    argument.premises.forEach((premise, index) => {
+      lines.push(`(${index + 1}) ${this.statement(premise.formula, symbols)}`);
+      lines.push(...evidenceFor(premise.text, '    '));
+    });
+    lines.push('----');
+    if (argument.conclusion) {
+      lines.push(`(${argument.premises.length + 1}) ${this.statement(argument.conclusion.formula, symbols)}`);
+    }
+    return lines;
+  }
+
+  private static statement(formula: LogicFormula, symbols: string[]): string {
+    const text = ArgumentFormulas.symbolic(formula);
+    if (formula.type === 'atomic') return `[${text}]`;
+    if (symbols.length === 0) return text;
+
+    const escaped = [...symbols]
+      .sort((a, b) => b.length - a.length)
+      .map(symbol => symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return text.replace(new RegExp(`(?<![\\w])(${escaped.join('|')})(?![\\w])`, 'g'), '@[$1]');
+  }
+
+  private static comments(items: EvidenceItem[], indent: string): string[] {
+    return items.map(item =>
+      `${indent}// evidence: ${this.oneLine(item.summary)} (strength ${item.strength}, ${this.oneLine(item.citation)})`);
+  }
+
+  private static oneLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
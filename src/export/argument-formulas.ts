@@ -0,0 +1,46 @@
+/**
+ * Argument Formulas
+ * Rebuilds the formulas of a stored argument for the exporters, each with the symbolic text
+ * atomic_reason shows for it - which is also the text evidence targets use
+ */
+
+import { FormulaBuilder } from "../logic/formula.js";
+import { AtomicReasonModule } from "../logic/atomic-reason.js";
+import { ArgumentFormula, ArgumentRecord, AtomGrouping, LogicFormula, ParsedArgument } from "../types.js";
+
+export class ArgumentFormulas {
+  private static module = new AtomicReasonModule();
+
+  static fromRecord(record: ArgumentRecord): ParsedArgument {
+    const symbolFormulas = new Map<string, LogicFormula>();
+    record.atomGroupings.forEach(group => {
+      symbolFormulas.set(group.symbol, FormulaBuilder.atomic(group.symbol, [], group.concept_description));
+    });
+
+    const parse = (text: string): ArgumentFormula | undefined => {
+      const { formula } = this.module.parsePremise(text, symbolFormulas);
+      return formula ? { formula, text: this.module.formulaToSymbolicString(formula) } : undefined;
+    };
+
+    // A premise may name a lemma instead of restating its conclusion
+    const lemmaConclusions = new Map((record.lemmas ?? []).map((lemma, index) => [lemma.name || `L${index + 1}`, lemma.conclusion]));
+    const resolve = (premise: string) => {
+      const name = premise.trim();
+      return symbolFormulas.has(name) ? premise : lemmaConclusions.get(name) ?? premise;
+    };
+
+    return {
+      symbols: record.atomGroupings,
+      premises: record.premises.map(premise => parse(resolve(premise))).filter((p): p is ArgumentFormula => p !== undefined),
+      conclusion: parse(record.conclusion)
+    };
+  }
+
+  static symbolic(formula: LogicFormula): string {
+    return this.module.formulaToSymbolicString(formula);
+  }
+
+  static naturalLanguage(formula: LogicFormula, symbols: AtomGrouping[]): string {
+    return this.module.formulaToNaturalLanguage(formula, new Map(symbols.map(group => [group.symbol, group.concept_description])));
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Graph Export
+ * Draws a stored argument as a graph, in Graphviz DOT and in Mermaid
+ *
+ * Atoms are nodes labeled with their concept_description, implications are directed edges
+ * from antecedent to consequent, and conjunctions and disjunctions are small join nodes
+ * (parts flow into a join used as an antecedent, and out of one that is asserted or derived).
+ * The conclusion is highlighted, premises not connected to the conclusion are colored, and
+ * evidence strength is written on implication edges and under atoms.
+ */
+
+import { FormulaUtils } from "../logic/formula.js";
+import { ArgumentFormulas } from "./argument-formulas.js";
+import { EvidenceItem, LogicFormula, ParsedArgument } from "../types.js";
+
+interface GraphNode {
+  id: string;
+  label: string[];              // Lines of the label
+  kind: 'atom' | 'join' | 'formula';
+  conclusion?: boolean;
+  asserted?: boolean;
+  disconnected?: boolean;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  label?: string;
+  both?: boolean;               // Biconditional
+  disconnected?: boolean;
+}
+
+interface ArgumentGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+// Parts flow into a join the argument needs, and out of a join it asserts or derives
+type Role = 'needed' | 'provided';
+
+const CONCLUSION_FILL = '#c6efce';
+const DISCONNECTED_FILL = '#ffd8a8';
+const DISCONNECTED_STROKE = '#e8590c';
+
+export class GraphExport {
+
+  static toDot(argument: ParsedArgument, evidence: EvidenceItem[] = []): string {
+    const graph = this.build(argument, evidence);
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    const lines = ['digraph argument {', '  rankdir=LR;', '  node [shape=box, style=rounded];'];
+
+    graph.nodes.forEach(node => {
+      const attributes = [`label="${node.label.map(escape).join('\\n')}"`];
+      if (node.kind === 'join') attributes.push('shape=circle');
+      if (node.asserted) attributes.push('penwidth=2');
+      if (node.conclusion) {
+        attributes.push('style="rounded,filled"', `fillcolor="${CONCLUSION_FILL}"`, 'penwidth=3');
+      } else if (node.disconnected) {
+        attributes.push('style="rounded,filled"', `fillcolor="${DISCONNECTED_FILL}"`, `color="${DISCONNECTED_STROKE}"`);
+      }
+      lines.push(`  ${node.id} [${attributes.join(', ')}];`);
+    });
+
+    graph.edges.forEach(edge => {
+      const attributes: string[] = [];
+      if (edge.label) attributes.push(`label="${escape(edge.label)}"`);
+      if (edge.both) attributes.push('dir=both');
+      if (edge.disconnected) attributes.push(`color="${DISCONNECTED_STROKE}"`);
+      lines.push(`  ${edge.from} -> ${edge.to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  static toMermaid(argument: ParsedArgument, evidence: EvidenceItem[] = []): string {
+    const graph = this.build(argument, evidence);
+    const text = (line: string) => line.replace(/"/g, '#quot;');
+    const lines = ['flowchart LR'];
+
+    graph.nodes.forEach(node => {
+      const label = `"${node.label.map(text).join('<br/>')}"`;
+      lines.push(`  ${node.id}${node.kind === 'join' ? `((${label}))` : `[${label}]`}`);
+    });
+
+    graph.edges.forEach(edge => {
+      const arrow = edge.both ? '<-->' : '-->';
+      lines.push(`  ${edge.from} ${arrow}${edge.label ? `|${text(edge.label)}|` : ''} ${edge.to}`);
+    });
+
+    lines.push(
+      `  classDef conclusion fill:${CONCLUSION_FILL},stroke:#2e7d32,stroke-width:3px`,
+      `  classDef disconnected fill:${DISCONNECTED_FILL},stroke:${DISCONNECTED_STROKE}`,
+      '  classDef asserted stroke-width:2px'
+    );
+    const inClass = (test: (node: GraphNode) => boolean | undefined) => graph.nodes.filter(test).map(node => node.id);
+    const classes: Array<[string, string[]]> = [
+      ['conclusion', inClass(node => node.conclusion)],
+      ['disconnected', inClass(node => node.disconnected && !node.conclusion)],
+      ['asserted', inClass(node => node.asserted && !node.conclusion && !node.disconnected)]
+    ];
+    classes
+      .filter(([, ids]) => ids.length > 0)
+      .forEach(([name, ids]) => lines.push(`  class ${ids.join(',')} ${name}`));
+
+    const disconnectedEdges = graph.edges.flatMap((edge, index) => edge.disconnected ? [index] : []);
+    if (disconnectedEdges.length > 0) {
+      lines.push(`  linkStyle ${disconnectedEdges.join(',')} stroke:${DISCONNECTED_STROKE}`);
+    }
+    return lines.join('\n');
+  }
+
+  private static build(argument: ParsedArgument, evidence: EvidenceItem[]): ArgumentGraph {
+    const nodes = new Map<string, GraphNode>();
+    const edges: GraphEdge[] = [];
+    const descriptions = new Map(argument.symbols.map(group => [group.symbol, group.concept_description]));
+    const disconnected = this.disconnectedPremises(argument);
+
+    // Average strength of the evidence for a target, when there is any
+    const strengthOf = (target: string): string | undefined => {
+      const items = evidence.filter(item => item.target === target);
+      if (items.length === 0) return undefined;
+      const mean = items.reduce((sum, item) => sum + item.strength, 0) / items.length;
+      return `${Math.round(mean * 100) / 100}`;
+    };
+
+    const node = (key: string, create: () => GraphNode): GraphNode => {
+      if (!nodes.has(key)) nodes.set(key, create());
+      return nodes.get(key)!;
+    };
+
+    const nodeFor = (formula: LogicFormula, role: Role): GraphNode => {
+      if (formula.type === 'atomic') {
+        const symbol = formula.predicate || FormulaUtils.toString(formula);
+        const strength = strengthOf(symbol);
+        return node(`atom:${symbol}`, () => ({
+          id: `n_${symbol.replace(/\W/g, '_')}`,
+          label: [symbol, descriptions.get(symbol) ?? '', ...(strength ? [`evidence ${strength}`] : [])].filter(Boolean),
+          kind: 'atom'
+        }));
+      }
+
+      if ((formula.operator === 'and' || formula.operator === 'or') && formula.subformulas) {
+        const key = `${role}:${FormulaUtils.toString(formula)}`;
+        if (nodes.has(key)) return nodes.get(key)!;
+        const join = node(key, () => ({
+          id: `j${nodes.size + 1}`,
+          label: [formula.operator === 'and' ? '∧' : '∨'],
+          kind: 'join'
+        }));
+        formula.subformulas.forEach(part => {
+          const partNode = nodeFor(part, role);
+          edges.push(role === 'needed' ? { from: partNode.id, to: join.id } : { from: join.id, to: partNode.id });
+        });
+        return join;
+      }
+
+      // Negations and nested implications stay whole
+      return node(`formula:${FormulaUtils.toString(formula)}`, () => ({
+        id: `f${nodes.size + 1}`,
+        label: [ArgumentFormulas.symbolic(formula)],
+        kind: 'formula'
+      }));
+    };
+
+    argument.premises.forEach(({ formula, text }, index) => {
+      const touched: GraphNode[] = [];
+      const edgeCount = edges.length;
+
+      if ((formula.operator === 'implies' || formula.operator === 'biconditional') && formula.subformulas) {
+        const both = formula.operator === 'biconditional';
+        const from = nodeFor(formula.subformulas[0], both ? 'provided' : 'needed');
+        const to = nodeFor(formula.subformulas[1], 'provided');
+        const strength = strengthOf(text);
+        edges.push({ from: from.id, to: to.id, ...(strength && { label: strength }), ...(both && { both }) });
+        touched.push(from, to);
+      } else {
+        const asserted = nodeFor(formula, 'provided');
+        asserted.asserted = true;
+        touched.push(asserted);
+      }
+
+      if (disconnected.has(index)) {
+        edges.slice(edgeCount).forEach(edge => { edge.disconnected = true; });
+        touched.forEach(n => { n.disconnected = true; });
+      }
+    });
+
+    if (argument.conclusion) {
+      nodeFor(argument.conclusion.formula, 'needed').conclusion = true;
+    }
+
+    return { nodes: Array.from(nodes.values()), edges };
+  }
+
+  /**
+   * Premises that share no atom, directly or through other premises, with the conclusion
+   */
+  private static disconnectedPremises(argument: ParsedArgument): Set<number> {
+    const atoms = (formula: LogicFormula) =>
+      FormulaUtils.extractAtomicFormulas(formula).map(atom => FormulaUtils.toString(atom));
+    const reached = new Set(argument.conclusion ? atoms(argument.conclusion.formula) : []);
+    const connected = new Set<number>();
+
+    let grew = true;
+    while (grew) {
+      grew = false;
+      argument.premises.forEach(({ formula }, index) => {
+        const premiseAtoms = atoms(formula);
+        if (connected.has(index) || !premiseAtoms.some(atom => reached.has(atom))) return;
+        connected.add(index);
+        premiseAtoms.forEach(atom => reached.add(atom));
+        grew = true;
+      });
+    }
+
+    return new Set(argument.premises.map((_, index) => index).filter(index => !connected.has(index)));
+  }
+}
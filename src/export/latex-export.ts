@@ -0,0 +1,213 @@
+/**
+ * LaTeX Export
+ * Typesets the derivation of a stored argument, Fitch-style (fitch.sty) or as a proof tree
+ * (bussproofs.sty), together with a glossary of its symbols
+ *
+ * The derivation is the one atomic_reason shows, rebuilt from the argument's formulas, so the
+ * line numbers and rule names match its symbolic_argument block.
+ */
+
+import { Derivation } from "../logic/derivation.js";
+import { DerivationStep, LatexProofStyle, LogicFormula, ParsedArgument, ProofLine, Term } from "../types.js";
+
+const PACKAGES: Record<LatexProofStyle, string> = {
+  fitch: 'fitch',
+  bussproofs: 'bussproofs'
+};
+
+// bussproofs names its inference commands by the number of premises
+const INFERENCES = ['UnaryInfC', 'BinaryInfC', 'TrinaryInfC', 'QuaternaryInfC', 'QuinaryInfC'];
+
+export class LatexExport {
+
+  /**
+   * Glossary and derivation of the argument, or undefined when its conclusion cannot be derived
+   */
+  static toLatex(argument: ParsedArgument, style: LatexProofStyle = 'fitch', standalone: boolean = false): string | undefined {
+    if (!argument.conclusion) return undefined;
+    const result = Derivation.derive(argument.premises.map(p => p.formula), argument.conclusion.formula);
+    if (!result.derivable || !result.conclusion) return undefined;
+
+    const body = [
+      this.glossary(argument),
+      '',
+      '\\medskip',
+      '',
+      style === 'fitch' ? this.fitch(result.conclusion) : this.bussproofs(result.conclusion)
+    ].join('\n');
+
+    if (!standalone) return body;
+    return [
+      '\\documentclass{article}',
+      `\\usepackage{${PACKAGES[style]}}`,
+      '\\begin{document}',
+      '',
+      body,
+      '',
+      '\\end{document}'
+    ].join('\n');
+  }
+
+  static packageFor(style: LatexProofStyle): string {
+    return PACKAGES[style];
+  }
+
+  /**
+   * Symbol and concept_description of every atom the argument groups
+   */
+  static glossary(argument: ParsedArgument): string {
+    return [
+      '\\begin{tabular}{ll}',
+      '\\hline',
+      'Symbol & Meaning \\\\',
+      '\\hline',
+      ...argument.symbols.map(group => `$${this.name(group.symbol)}$ & ${this.text(group.concept_description)} \\\\`),
+      '\\hline',
+      '\\end{tabular}'
+    ].join('\n');
+  }
+
+  /**
+   * Math-mode LaTeX for a formula, parenthesized the way atomic_reason prints it
+   */
+  static formula(formula: LogicFormula): string {
+    if (formula.type === 'atomic') {
+      const terms = formula.terms ?? [];
+      const predicate = this.name(formula.predicate || 'P');
+      return terms.length > 0 ? `${predicate}(${terms.map(term => this.term(term)).join(', ')})` : predicate;
+    }
+
+    const [first, second] = formula.subformulas ?? [];
+    const operand = (sub: LogicFormula) => {
+      const text = this.formula(sub);
+      return this.isBinary(sub) ? `(${text})` : text;
+    };
+
+    switch (formula.operator) {
+      case 'top': return '\\top';
+      case 'zero': return '\\bot';
+      case 'not': return `\\neg ${operand(first)}`;
+      case 'and': return `${operand(first)} \\land ${operand(second)}`;
+      case 'or': return `${operand(first)} \\lor ${operand(second)}`;
+      case 'implies': return `${operand(first)} \\to ${operand(second)}`;
+      case 'biconditional': return `${operand(first)} \\leftrightarrow ${operand(second)}`;
+      case 'forall':
+      case 'exists': {
+        const variable = Array.from(first.variables)[0] || 'x';
+        return `\\${formula.operator} ${variable}\\,(${this.formula(first)})`;
+      }
+      default: return '\\mathrm{?}';
+    }
+  }
+
+  private static fitch(proof: DerivationStep): string {
+    const lines = ['\\begin{nd}'];
+    let depth = 0;
+
+    Derivation.toProofLines(proof).forEach(line => {
+      // A hypothesis opens a subproof one deeper than the line it serves; anything else closes down to its own depth
+      const target = line.rule === 'hypothesis' ? line.depth - 1 : line.depth;
+      for (; depth > target; depth--) lines.push(`${'  '.repeat(depth)}\\close`);
+      if (line.rule === 'hypothesis') {
+        depth++;
+        lines.push(`${'  '.repeat(depth)}\\open`);
+      }
+
+      const indent = '  '.repeat(depth + 1);
+      const formula = this.formula(line.formula);
+      if (line.rule === 'premise' || line.rule === 'hypothesis') {
+        lines.push(`${indent}\\hypo{${line.line}}{${formula}}${line.rule === 'premise' ? ` \\by{P${(line.premiseIndex ?? 0) + 1}}{}` : ''}`);
+      } else {
+        lines.push(`${indent}\\have{${line.line}}{${formula}} \\by{${this.rule(line.rule)}}{${this.cites(line)}}`);
+      }
+    });
+
+    for (; depth > 0; depth--) lines.push(`${'  '.repeat(depth)}\\close`);
+    lines.push('\\end{nd}');
+    return lines.join('\n');
+  }
+
+  private static bussproofs(proof: DerivationStep): string {
+    const lines = ['\\begin{prooftree}'];
+    const discharges = new Map<DerivationStep, number>();
+
+    const emit = (step: DerivationStep) => {
+      const formula = this.formula(step.formula);
+      if (step.rule === 'premise') {
+        lines.push(`\\AxiomC{$${formula}$}`);
+        return;
+      }
+      if (step.rule === 'hypothesis') {
+        const label = discharges.get(step);
+        lines.push(`\\AxiomC{$[${formula}]${label !== undefined ? `^{${label}}` : ''}$}`);
+        return;
+      }
+
+      // Each discharged hypothesis is numbered where its rule closes it
+      const labels = (step.cases ?? []).map(({ hypothesis }) => {
+        const label = discharges.size + 1;
+        discharges.set(hypothesis, label);
+        return label;
+      });
+      const children = [...step.from, ...(step.cases ?? []).map(c => c.result)];
+      if (children.length === 0) {
+        lines.push('\\AxiomC{}');
+      }
+      children.forEach(emit);
+
+      const rule = `${this.rule(step.rule)}${labels.length > 0 ? `$^{${labels.join(',')}}$` : ''}`;
+      lines.push(`\\RightLabel{\\scriptsize ${rule}}`);
+      lines.push(`\\${INFERENCES[Math.max(children.length, 1) - 1]}{$${formula}$}`);
+    };
+
+    emit(proof);
+    lines.push('\\end{prooftree}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Lines a proof line cites, with each subproof as a range, e.g. "1, 4--5, 6--7" for ∨E
+   */
+  private static cites(line: ProofLine): string {
+    if (line.rule !== '∨E' && line.rule !== '→I' && line.rule !== '¬I') {
+      return line.cites.join(', ');
+    }
+    const sources = line.rule === '∨E' ? line.cites.slice(0, 1) : [];
+    const ranges = line.cites.slice(sources.length);
+    const subproofs: string[] = [];
+    for (let i = 0; i < ranges.length; i += 2) {
+      subproofs.push(ranges[i] === ranges[i + 1] ? `${ranges[i]}` : `${ranges[i]}--${ranges[i + 1]}`);
+    }
+    return [...sources, ...subproofs].join(', ');
+  }
+
+  private static rule(rule: string): string {
+    const symbols: Record<string, string> = {
+      '→': '\\to', '∧': '\\land', '∨': '\\lor', '↔': '\\leftrightarrow', '⊤': '\\top', '⊥': '\\bot', '¬': '\\neg'
+    };
+    return rule.replace(/[→∧∨↔⊤⊥¬]/g, symbol => `\\ensuremath{${symbols[symbol]}}`);
+  }
+
+  private static term(term: Term): string {
+    const name = term.type === 'variable' ? term.name : this.name(term.name);
+    return term.args && term.args.length > 0 ? `${name}(${term.args.map(arg => this.term(arg)).join(', ')})` : name;
+  }
+
+  private static name(symbol: string): string {
+    return `\\mathrm{${symbol.replace(/_/g, '\\_')}}`;
+  }
+
+  private static text(text: string): string {
+    const escapes: Record<string, string> = { '\\': '\\textbackslash{}', '~': '\\textasciitilde{}', '^': '\\textasciicircum{}' };
+    return text.replace(/[\\~^&%$#_{}]/g, char => escapes[char] ?? `\\${char}`);
+  }
+
+  private static isBinary(formula: LogicFormula): boolean {
+    return formula.type === 'compound'
+      && formula.operator !== 'not'
+      && formula.operator !== 'top'
+      && formula.operator !== 'zero'
+      && formula.operator !== 'forall'
+      && formula.operator !== 'exists';
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Problem Export
+ * Writes an argument's premises and conclusion as a problem for external theorem provers:
+ * TPTP FOF, TPTP CNF and SMT-LIB 2
+ *
+ * Predicates, constants, functions, variables and quantifiers are kept as they are in the
+ * formulas. A quantifier binds the first variable of its body, as FormulaUtils.toString reads
+ * it, skipping variables an enclosing quantifier already binds, and variables left free are
+ * read as universally quantified. Names the target syntax cannot take bare are quoted rather
+ * than renamed, so "AUTH" stays 'AUTH' in TPTP. In SMT-LIB, where |x| and x are one symbol, a
+ * name whose symbol another name or a built-in already takes gets a numbered suffix.
+ *
+ * Clauses are found by distributing disjunctions over conjunctions while that stays small;
+ * past that, conjunctions are named by fresh predicates as in Tseitin's transform, so the
+ * clauses grow with the formula rather than exponentially.
+ */
+
+import { FormulaBuilder } from "../logic/formula.js";
+import { LogicFormula, ProblemFormat, Term } from "../types.js";
+
+// Quantifier-free negation normal form, the step between a formula and its clauses
+type Normal =
+  | { kind: 'literal'; positive: boolean; predicate: string; terms: Term[] }
+  | { kind: 'and' | 'or'; parts: Normal[] }
+  | { kind: 'true' | 'false' };
+
+interface Literal {
+  positive: boolean;
+  predicate: string;
+  terms: Term[];
+}
+
+interface Counters {
+  variable: number;
+  skolem: number;
+  definition: number;
+}
+
+// SMT-LIB symbols given out in one problem
+interface SmtNames {
+  symbols: Map<string, string>;   // Kind and name to symbol
+  taken: Set<string>;             // Symbols in use, without quotes
+}
+
+// Clauses a disjunction may multiply out to before its conjunctions are named instead
+const MAX_DISTRIBUTED_CLAUSES = 16;
+
+// Reserved words, built-in symbols and the sort of individuals, which no name may take in SMT-LIB
+const SMT_RESERVED = new Set([
+  'true', 'false', 'not', 'and', 'or', 'xor', 'distinct', 'ite', 'forall', 'exists', 'let', 'par',
+  'as', 'assert', 'Bool', 'U', 'NUMERAL', 'DECIMAL', 'STRING', '_', '!', '=', '=>'
+]);
+
+export class ProblemExport {
+
+  static serialize(format: ProblemFormat, premises: LogicFormula[], conclusion: LogicFormula): string {
+    switch (format) {
+      case 'tptp_fof': return this.toTptpFof(premises, conclusion);
+      case 'tptp_cnf': return this.toTptpCnf(premises, conclusion);
+      case 'smtlib': return this.toSmtLib(premises, conclusion);
+    }
+  }
+
+  /**
+   * Premises as axioms and the conclusion as the conjecture; a prover reports Theorem when it follows
+   */
+  static toTptpFof(premises: LogicFormula[], conclusion: LogicFormula): string {
+    const lines = ['% Premises as axioms, the conclusion as conjecture: Theorem when the argument is valid'];
+    premises.forEach((premise, index) => {
+      lines.push(...this.comment('%', `P${index + 1}`, premise));
+      lines.push(`fof(premise_${index + 1}, axiom, ${this.tptpFormula(this.closed(premise))}).`);
+    });
+    lines.push(...this.comment('%', 'Conclusion', conclusion));
+    lines.push(`fof(conclusion, conjecture, ${this.tptpFormula(this.closed(conclusion))}).`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Clauses of the premises and of the negated conclusion; Unsatisfiable when the argument is valid
+   */
+  static toTptpCnf(premises: LogicFormula[], conclusion: LogicFormula): string {
+    const counters: Counters = { variable: 0, skolem: 0, definition: 0 };
+    const lines = ['% Clauses of the premises and the negated conclusion: Unsatisfiable when the argument is valid'];
+
+    const emit = (formula: LogicFormula, name: string, role: string, positive: boolean) => {
+      this.clauses(this.normalize(this.closed(formula), positive, new Map(), [], counters), counters).forEach((clause, index) => {
+        const literals = clause.length === 0
+          ? '$false'
+          : clause.map(literal => `${literal.positive ? '' : '~ '}${this.tptpAtom(literal.predicate, literal.terms)}`).join(' | ');
+        lines.push(`cnf(${name}_${index + 1}, ${role}, ( ${literals} )).`);
+      });
+    };
+
+    premises.forEach((premise, index) => {
+      lines.push(...this.comment('%', `P${index + 1}`, premise));
+      emit(premise, `premise_${index + 1}`, 'axiom', true);
+    });
+    lines.push(...this.comment('%', 'Negated conclusion', conclusion));
+    emit(conclusion, 'negated_conclusion', 'negated_conjecture', false);
+    return lines.join('\n');
+  }
+
+  /**
+   * Premises asserted alongside the negated conclusion; unsat when the argument is valid
+   */
+  static toSmtLib(premises: LogicFormula[], conclusion: LogicFormula): string {
+    const formulas = [...premises, conclusion].map(formula => this.closed(formula));
+    const predicates = new Map<string, number>();
+    const functions = new Map<string, number>();
+    let quantified = false;
+
+    const collectTerm = (term: Term) => {
+      if (term.type === 'variable') return;
+      if (!functions.has(term.name)) functions.set(term.name, term.args?.length ?? 0);
+      term.args?.forEach(collectTerm);
+    };
+    const collect = (formula: LogicFormula) => {
+      if (formula.type === 'atomic') {
+        const name = formula.predicate || 'P';
+        if (!predicates.has(name)) predicates.set(name, formula.terms?.length ?? 0);
+        formula.terms?.forEach(collectTerm);
+        return;
+      }
+      if (formula.operator === 'forall' || formula.operator === 'exists') quantified = true;
+      formula.subformulas?.forEach(collect);
+    };
+    formulas.forEach(collect);
+
+    const usesTerms = quantified || functions.size > 0 || Array.from(predicates.values()).some(arity => arity > 0);
+    const signature = (arity: number) => `(${Array(arity).fill('U').join(' ')})`;
+    // Assertion names and the built-in symbols are symbols too, so no declared name may take them
+    const names: SmtNames = {
+      symbols: new Map(),
+      taken: new Set([...SMT_RESERVED, ...premises.map((_, index) => `premise_${index + 1}`), 'negated_conclusion'])
+    };
+    const lines = [
+      '; Premises asserted with the negated conclusion: unsat when the argument is valid',
+      `(set-logic ${quantified ? 'UF' : 'QF_UF'})`,
+      ...(usesTerms ? ['(declare-sort U 0)'] : []),
+      ...Array.from(functions.entries()).map(([name, arity]) => {
+        const symbol = this.smtSymbol('function', name, names);
+        return arity === 0 ? `(declare-const ${symbol} U)` : `(declare-fun ${symbol} ${signature(arity)} U)`;
+      }),
+      ...Array.from(predicates.entries()).map(([name, arity]) => {
+        const symbol = this.smtSymbol('predicate', name, names);
+        return arity === 0 ? `(declare-const ${symbol} Bool)` : `(declare-fun ${symbol} ${signature(arity)} Bool)`;
+      })
+    ];
+
+    premises.forEach((premise, index) => {
+      lines.push(...this.comment(';', `P${index + 1}`, premise));
+      lines.push(`(assert (! ${this.smtFormula(formulas[index], names)} :named premise_${index + 1}))`);
+    });
+    lines.push(...this.comment(';', 'Conclusion', conclusion));
+    lines.push(`(assert (! (not ${this.smtFormula(formulas[formulas.length - 1], names)}) :named negated_conclusion))`);
+    lines.push('(check-sat)');
+    return lines.join('\n');
+  }
+
+  private static tptpFormula(formula: LogicFormula, bound: Set<string> = new Set()): string {
+    if (formula.type === 'atomic') {
+      return this.tptpAtom(formula.predicate || 'P', formula.terms ?? []);
+    }
+    const [first, second] = formula.subformulas ?? [];
+    const sub = (formula: LogicFormula) => this.tptpFormula(formula, bound);
+    switch (formula.operator) {
+      case 'top': return '$true';
+      case 'zero': return '$false';
+      case 'not': return `~ ${sub(first)}`;
+      case 'and': return `( ${sub(first)} & ${sub(second)} )`;
+      case 'or': return `( ${sub(first)} | ${sub(second)} )`;
+      case 'implies': return `( ${sub(first)} => ${sub(second)} )`;
+      case 'biconditional': return `( ${sub(first)} <=> ${sub(second)} )`;
+      case 'forall':
+      case 'exists': {
+        const variable = this.boundVariable(formula, bound);
+        const body = this.tptpFormula(first, new Set([...bound, variable]));
+        return `( ${formula.operator === 'forall' ? '!' : '?'} [${this.tptpVariable(variable)}] : ${body} )`;
+      }
+      default: return '$false';
+    }
+  }
+
+  private static tptpAtom(predicate: string, terms: Term[]): string {
+    const name = this.tptpName(predicate);
+    return terms.length > 0 ? `${name}(${terms.map(term => this.tptpTerm(term)).join(', ')})` : name;
+  }
+
+  private static tptpTerm(term: Term): string {
+    if (term.type === 'variable') return this.tptpVariable(term.name);
+    return this.tptpAtom(term.name, term.args ?? []);
+  }
+
+  private static tptpName(name: string): string {
+    return /^[a-z][a-zA-Z0-9_]*$/.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  private static tptpVariable(name: string): string {
+    const word = name.replace(/\W/g, '_');
+    if (/^[A-Z]/.test(word)) return word;
+    return /^[a-z]/.test(word) ? word[0].toUpperCase() + word.slice(1) : `V${word}`;
+  }
+
+  private static smtFormula(formula: LogicFormula, names: SmtNames, bound: Set<string> = new Set()): string {
+    if (formula.type === 'atomic') {
+      const terms = formula.terms ?? [];
+      const name = this.smtSymbol('predicate', formula.predicate || 'P', names);
+      return terms.length > 0 ? `(${name} ${terms.map(term => this.smtTerm(term, names)).join(' ')})` : name;
+    }
+    const [first, second] = formula.subformulas ?? [];
+    const sub = (formula: LogicFormula) => this.smtFormula(formula, names, bound);
+    switch (formula.operator) {
+      case 'top': return 'true';
+      case 'zero': return 'false';
+      case 'not': return `(not ${sub(first)})`;
+      case 'and': return `(and ${sub(first)} ${sub(second)})`;
+      case 'or': return `(or ${sub(first)} ${sub(second)})`;
+      case 'implies': return `(=> ${sub(first)} ${sub(second)})`;
+      case 'biconditional': return `(= ${sub(first)} ${sub(second)})`;
+      case 'forall':
+      case 'exists': {
+        const variable = this.boundVariable(formula, bound);
+        return `(${formula.operator} ((${this.smtSymbol('variable', variable, names)} U)) ${this.smtFormula(first, names, new Set([...bound, variable]))})`;
+      }
+      default: return 'false';
+    }
+  }
+
+  private static smtTerm(term: Term, names: SmtNames): string {
+    const name = this.smtSymbol(term.type === 'variable' ? 'variable' : 'function', term.name, names);
+    return term.args && term.args.length > 0 ? `(${name} ${term.args.map(arg => this.smtTerm(arg, names)).join(' ')})` : name;
+  }
+
+  /**
+   * The symbol for a name, the same each time it is asked for; predicates, functions and
+   * variables of one name, and names that only differ in characters a quoted symbol cannot
+   * hold, get symbols of their own
+   */
+  private static smtSymbol(kind: 'predicate' | 'function' | 'variable', name: string, names: SmtNames): string {
+    const key = `${kind}:${name}`;
+    const known = names.symbols.get(key);
+    if (known) return known;
+
+    const base = name.replace(/[|\\]/g, '_');
+    let text = base;
+    for (let suffix = 2; names.taken.has(text); suffix++) {
+      text = `${base}_${suffix}`;
+    }
+    names.taken.add(text);
+
+    const symbol = /^[a-zA-Z~!@$%^&*_+=<>.?\/-][0-9a-zA-Z~!@$%^&*_+=<>.?\/-]*$/.test(text) ? text : `|${text}|`;
+    names.symbols.set(key, symbol);
+    return symbol;
+  }
+
+  /**
+   * Negation normal form with quantifiers removed: universals become fresh variables and
+   * existentials Skolem terms over the universals they sit under
+   */
+  private static normalize(
+    formula: LogicFormula,
+    positive: boolean,
+    bindings: Map<string, Term>,
+    universals: Term[],
+    counters: Counters
+  ): Normal {
+    const recurse = (sub: LogicFormula, polarity: boolean) => this.normalize(sub, polarity, bindings, universals, counters);
+    // Nested junctions of one kind are flattened, so a long disjunction is multiplied out, or named, as a whole
+    const junction = (kind: 'and' | 'or', parts: Normal[]): Normal =>
+      ({ kind, parts: parts.flatMap(part => part.kind === kind ? part.parts : [part]) });
+
+    if (formula.type === 'atomic') {
+      const substitute = (term: Term): Term => term.type === 'variable'
+        ? bindings.get(term.name) ?? term
+        : { ...term, ...(term.args && { args: term.args.map(substitute) }) };
+      return { kind: 'literal', positive, predicate: formula.predicate || 'P', terms: (formula.terms ?? []).map(substitute) };
+    }
+
+    const [first, second] = formula.subformulas ?? [];
+    switch (formula.operator) {
+      case 'top': return { kind: positive ? 'true' : 'false' };
+      case 'zero': return { kind: positive ? 'false' : 'true' };
+      case 'not': return recurse(first, !positive);
+      case 'and': return junction(positive ? 'and' : 'or', [recurse(first, positive), recurse(second, positive)]);
+      case 'or': return junction(positive ? 'or' : 'and', [recurse(first, positive), recurse(second, positive)]);
+      case 'implies': return junction(positive ? 'or' : 'and', [recurse(first, !positive), recurse(second, positive)]);
+      case 'biconditional':
+        return positive
+          ? junction('and', [junction('or', [recurse(first, false), recurse(second, true)]), junction('or', [recurse(first, true), recurse(second, false)])])
+          : junction('or', [junction('and', [recurse(first, true), recurse(second, false)]), junction('and', [recurse(first, false), recurse(second, true)])]);
+      case 'forall':
+      case 'exists': {
+        const scoped = new Map(bindings);
+        const bound = this.boundVariable(formula, new Set(bindings.keys()));
+        let inner = universals;
+        if ((formula.operator === 'forall') === positive) {
+          const variable: Term = { type: 'variable', name: `X${++counters.variable}` };
+          scoped.set(bound, variable);
+          inner = [...universals, variable];
+        } else {
+          const name = `sk${++counters.skolem}`;
+          scoped.set(bound, universals.length > 0
+            ? { type: 'function', name, args: universals }
+            : { type: 'constant', name });
+        }
+        return this.normalize(first, positive, scoped, inner, counters);
+      }
+      default: return { kind: positive ? 'false' : 'true' };
+    }
+  }
+
+  /**
+   * Distribute disjunctions over conjunctions; tautologies are dropped and repeated literals merged.
+   * When a disjunction would multiply out to too many clauses, each of its parts with more than
+   * one clause is replaced by a fresh predicate over the part's variables that implies them.
+   */
+  private static clauses(normal: Normal, counters: Counters): Literal[][] {
+    switch (normal.kind) {
+      case 'true': return [];
+      case 'false': return [[]];
+      case 'literal': return [[{ positive: normal.positive, predicate: normal.predicate, terms: normal.terms }]];
+      case 'and': return normal.parts.flatMap(part => this.clauses(part, counters));
+      case 'or': {
+        const key = (literal: Literal) => this.tptpAtom(literal.predicate, literal.terms);
+        const parts = normal.parts.map(part => this.clauses(part, counters));
+        const definitions: Literal[][] = [];
+        const distribute = parts.reduce((size, clauses) => size * clauses.length, 1) <= MAX_DISTRIBUTED_CLAUSES;
+
+        const product = (distribute ? parts : parts.map(clauses => {
+          if (clauses.length <= 1) return clauses;
+          const name: Literal = { positive: true, predicate: `def${++counters.definition}`, terms: this.clauseVariables(clauses) };
+          definitions.push(...clauses.map(clause => [{ ...name, positive: false }, ...clause]));
+          return [[name]];
+        }))
+          .reduce<Literal[][]>((product, clauses) =>
+            product.flatMap(left => clauses.map(right => [...left, ...right])), [[]])
+          .map(clause => clause.filter((literal, index) =>
+            clause.findIndex(other => other.positive === literal.positive && key(other) === key(literal)) === index))
+          .filter(clause => !clause.some(literal =>
+            clause.some(other => other.positive !== literal.positive && key(other) === key(literal))));
+        return [...product, ...definitions];
+      }
+    }
+  }
+
+  /**
+   * Variables of the clauses, in order of first occurrence
+   */
+  private static clauseVariables(clauses: Literal[][]): Term[] {
+    const variables = new Map<string, Term>();
+    const visit = (term: Term) => {
+      if (term.type === 'variable' && !variables.has(term.name)) variables.set(term.name, term);
+      term.args?.forEach(visit);
+    };
+    clauses.forEach(clause => clause.forEach(literal => literal.terms.forEach(visit)));
+    return Array.from(variables.values());
+  }
+
+  /**
+   * The formula with its free variables universally quantified, outermost first
+   */
+  private static closed(formula: LogicFormula): LogicFormula {
+    return this.freeVariables(formula, new Set()).reverse().reduce<LogicFormula>((body, variable) =>
+      FormulaBuilder.forall(variable, { ...body, variables: new Set([variable, ...body.variables]) }), formula);
+  }
+
+  private static freeVariables(formula: LogicFormula, bound: Set<string>): string[] {
+    const free: string[] = [];
+    const add = (name: string) => {
+      if (!bound.has(name) && !free.includes(name)) free.push(name);
+    };
+    const visitTerm = (term: Term) => {
+      if (term.type === 'variable') add(term.name);
+      term.args?.forEach(visitTerm);
+    };
+
+    if (formula.type === 'atomic') {
+      formula.terms?.forEach(visitTerm);
+    } else if (formula.operator === 'forall' || formula.operator === 'exists') {
+      this.freeVariables(formula.subformulas![0], new Set([...bound, this.boundVariable(formula, bound)])).forEach(add);
+    } else {
+      formula.subformulas?.forEach(sub => this.freeVariables(sub, bound).forEach(add));
+    }
+    return free;
+  }
+
+  private static boundVariable(formula: LogicFormula, bound: Set<string>): string {
+    const variables = Array.from(formula.subformulas?.[0]?.variables ?? []);
+    return variables.find(variable => !bound.has(variable)) ?? variables[0] ?? 'x';
+  }
+
+  private static comment(marker: string, label: string, formula: LogicFormula): string[] {
+    const text = formula.naturalLanguage?.trim();
+    return text ? [`${marker} ${label}: ${text.replace(/\s+/g, ' ')}`] : [];
+  }
+}
@@ -7,20 +7,45 @@ import {
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Tool,
   Prompt,
+  Resource,
+  ResourceTemplate,
 } from "@modelcontextprotocol/sdk/types.js";
 import { NaturalLanguageParser } from "./parser/nlp-parser.js";
 import { FormulaUtils, FormulaBuilder } from "./logic/formula.js";
-import { LogicFormula, ValidationResult } from "./types.js";
+import { LogicFormula, ValidationResult, LogicSystem, BridgeSuggestion, HypotheticalAssumption, ArgumentLemma, AtomGrouping, EvidenceItem, ArgumentRecord, LatexProofStyle, ProblemFormat, AifDocument } from "./types.js";
 import { EvidenceModule } from "./evidence/evidence-module.js";
 import { AtomicReasonModule } from "./logic/atomic-reason.js";
+import { BridgeFinder } from "./logic/bridge-finder.js";
+import { FallacyChecker } from "./logic/fallacy-checker.js";
+import { ArgumentStore } from "./session/argument-store.js";
+import { ArgumentReport } from "./session/argument-report.js";
+import { ArgumentDossier } from "./session/argument-dossier.js";
+import { ArgumentDiff } from "./session/argument-diff.js";
+import { ArgumentFormulas } from "./export/argument-formulas.js";
+import { GraphExport } from "./export/graph-export.js";
+import { LatexExport } from "./export/latex-export.js";
+import { ProblemExport } from "./export/problem-export.js";
+import { ArgdownExport } from "./export/argdown-export.js";
+import { ArgdownParser } from "./parser/argdown-parser.js";
+import { AifExport } from "./export/aif-export.js";
+import { AifParser } from "./parser/aif-parser.js";
+import * as os from "os";
+import * as path from "path";
 
 class AtomicLogicServer {
   private server: Server;
   private parser: NaturalLanguageParser;
   private evidenceModule: EvidenceModule;
   private atomicReasonModule: AtomicReasonModule;
+  private argumentStore: ArgumentStore;
+  private resourceSubscriptions = new Set<string>();
 
   constructor() {
     this.server = new Server(
@@ -32,6 +57,7 @@ class AtomicLogicServer {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: { subscribe: true, listChanged: true },
         },
       }
     );
@@ -39,9 +65,13 @@ class AtomicLogicServer {
     this.parser = new NaturalLanguageParser();
     this.evidenceModule = new EvidenceModule();
     this.atomicReasonModule = new AtomicReasonModule();
+    this.argumentStore = new ArgumentStore(
+      process.env.ATOMIC_LOGIC_STORE_DIR || path.join(os.homedir(), ".atomic-logic-mcp", "arguments")
+    );
     
     this.setupToolHandlers();
     this.setupPromptHandlers();
+    this.setupResourceHandlers();
     this.setupErrorHandling();
   }
 
@@ -73,6 +103,11 @@ class AtomicLogicServer {
                   type: "string",
                   description: "Argument to validate",
                 },
+                logic: {
+                  type: "string",
+                  enum: ["chaining", "classical", "intuitionistic", "relevant", "entailment", "first_degree_entailment"],
+                  description: "Consequence check to apply after the connectivity check: forward chaining, classical truth tables, intuitionistic logic, relevance logic R, the logic of entailment E, or four-valued first-degree entailment. Omit to check connectivity only."
+                },
               },
               required: ["argument"],
             },
@@ -106,6 +141,11 @@ class AtomicLogicServer {
                   type: "string",
                   description: "Argument to diagnose",
                 },
+                logic: {
+                  type: "string",
+                  enum: ["chaining", "classical", "intuitionistic", "relevant", "entailment", "first_degree_entailment"],
+                  description: "Logic in which to check whether the conclusion follows. Omit to diagnose structure only."
+                },
               },
               required: ["argument"],
             },
@@ -131,13 +171,17 @@ class AtomicLogicServer {
           },
           {
             name: "evidence_gathering",
-            description: "Validate evidence AND force analysis of conflicts. Provide evidence_items as ARRAY OF OBJECTS, each object containing: {target, summary, strength (-1 to 1, negative=contradicts, positive=supports, zero=neutral), citation}. Tool will analyze conflicts and present requirements for self-analysis. Only succeeds when ALL evidence complete. When evidence_gathering returns results, present the premises and evidence in the exact order shown in present_this_order_to_user. Each premise should be immediately followed by its supporting evidence before moving to the next premise.",
+            description: "Validate evidence AND force analysis of conflicts. Pass the argument_id returned by atomic_reason build_symbolic_argument. Provide evidence_items as ARRAY OF OBJECTS, each object containing: {target, summary, strength (-1 to 1, negative=contradicts, positive=supports, zero=neutral), citation}. Tool will analyze conflicts and present requirements for self-analysis. Only succeeds when ALL evidence complete. When evidence_gathering returns results, present the premises and evidence in the exact order shown in present_this_order_to_user. Each premise should be immediately followed by its supporting evidence before moving to the next premise.",
             inputSchema: {
               type: "object",
               properties: {
+                argument_id: {
+                  type: "string",
+                  description: "argument_id returned by build_symbolic_argument. Evidence is kept with the argument, so later calls only need the items that changed"
+                },
                 atomic_reason_output: {
                   type: "string",
-                  description: "atomic_reason JSON output from build_symbolic_argument step"
+                  description: "atomic_reason JSON output from build_symbolic_argument step - only needed when no argument_id is given"
                 },
                 evidence_items: {
                   type: "array",
@@ -154,7 +198,7 @@ class AtomicLogicServer {
                   }
                 }
               },
-              required: ["atomic_reason_output", "evidence_items"],
+              required: ["evidence_items"],
             },
           },
           {
@@ -199,6 +243,14 @@ class AtomicLogicServer {
                   enum: ["extract_atoms", "group_atoms", "build_symbolic_argument"],
                   description: "Which step of the atomic reasoning process to perform"
                 },
+                argument_id: {
+                  type: "string",
+                  description: "Optional for build_symbolic_argument: the argument_id of an earlier build to revise. Without it a new argument is stored and its argument_id returned"
+                },
+                parent_argument_id: {
+                  type: "string",
+                  description: "Optional for build_symbolic_argument: the argument a dig_in sub-argument strengthens, as given by dig_in"
+                },
                 argument_text: {
                   type: "string",
                   description: "The natural language argument to validate. Required for extract_atoms step."
@@ -218,12 +270,48 @@ class AtomicLogicServer {
                 },
                 conclusion: {
                   type: "string",
-                  description: "Which atom (symbol) you're trying to prove. Must be one of your symbols from atom_groupings. Required for build_symbolic_argument step."
+                  description: "What you're trying to prove, using your symbols from atom_groupings - a single atom ('ACCESS') or a formula in the premise format ('AUTH -> ACCESS', '!BREACH'). Required for build_symbolic_argument step."
                 },
                 premises: {
                   type: "array",
-                  description: "Your argument's premises using your symbols. Format options: standalone atoms ('AUTH'), conjunctions ('AUTH && IMPL'), disjunctions ('AUTH || IMPL'), implications ('AUTH -> IMPL'), or semi-natural language ('IMPL enables AUTH'). Required for build_symbolic_argument step.",
+                  description: "Your argument's premises using your symbols. Format options: standalone atoms ('AUTH'), conjunctions ('AUTH && IMPL'), disjunctions ('AUTH || IMPL'), implications ('AUTH -> IMPL'), biconditionals ('AUTH <-> IMPL'), negations ('!AUTH', 'not AUTH'), nested formulas with parentheses ('(AUTH || SSO) && IMPL -> READY'), or semi-natural language ('IMPL enables AUTH'). Unicode → ∧ ∨ ¬ ↔ also work. Required for build_symbolic_argument step.",
                   items: { type: "string", description: "One premise using your symbols" }
+                },
+                exclusions: {
+                  type: "array",
+                  description: "Optional groups of mutually exclusive symbols for build_symbolic_argument - at most one symbol in each group can hold, e.g. [['CACHE_WARM', 'CACHE_COLD']]. Premises that contradict an exclusion, or each other, are reported as inconsistent.",
+                  items: { type: "array", items: { type: "string" } }
+                },
+                assumptions: {
+                  type: "array",
+                  description: "Optional hypothetical blocks for build_symbolic_argument. Each assumes a formula for the sake of argument and states what follows under it; the block is discharged as 'assume -> derive' (conditional proof), or as '!assume' when derive is ⊥ or 'false' (reductio). Each block is checked against the premises and its derivation shows where the hypothesis opens and closes.",
+                  items: {
+                    type: "object",
+                    properties: {
+                      assume: { type: "string", description: "Hypothesis, in the premise format" },
+                      derive: { type: "string", description: "What follows under the hypothesis, or ⊥ / 'false' for a contradiction" }
+                    },
+                    required: ["assume", "derive"]
+                  }
+                },
+                lemmas: {
+                  type: "array",
+                  description: "Optional intermediate conclusions for build_symbolic_argument, proved in order before the main argument. Each lemma has its own premises and conclusion and is validated on its own; later lemmas and the main argument cite an earlier lemma by using its name (e.g. 'L1') or restating its conclusion as a premise. A premise that cites a lemma that does not hold is rejected.",
+                  items: {
+                    type: "object",
+                    properties: {
+                      name: { type: "string", description: "Name to cite the lemma by - defaults to L1, L2, ... in order" },
+                      premises: { type: "array", items: { type: "string" }, description: "The lemma's premises, in the premise format" },
+                      conclusion: { type: "string", description: "The lemma's conclusion, in the premise format" }
+                    },
+                    required: ["premises", "conclusion"]
+                  }
+                },
+                logic: {
+                  type: "string",
+                  enum: ["chaining", "classical", "intuitionistic", "relevant", "entailment", "first_degree_entailment"],
+                  description: "How build_symbolic_argument decides that the conclusion follows. 'chaining' (default) derives it by modus ponens, adjunction, simplification, addition, proof by cases, conditional proof and reductio. 'classical' checks truth tables. 'intuitionistic' searches for a constructive proof. 'relevant' (R) and 'entailment' (E) run a relevance tableau and return the closed tableau or an open branch. 'first_degree_entailment' checks four-valued logic for arguments without implications.",
+                  default: "chaining"
                 }
               },
               required: ["step"],
@@ -258,15 +346,173 @@ class AtomicLogicServer {
                   type: "string",
                   description: "THE ATOM OR IMPLICATION this evidence was provided for - this becomes the NEW CONCLUSION in the sub-argument. Example: 'JS_MAINTENANCE_HARD'"
                 },
+                argument_id: {
+                  type: "string",
+                  description: "argument_id of the original argument - the sub-argument is linked to it"
+                },
                 original_argument: {
                   type: "string",
-                  description: "The original structured argument as atomic_reason JSON output (for reference)"
+                  description: "The original structured argument as atomic_reason JSON output (for reference) - only needed when no argument_id is given"
                 }
               },
-              required: ["evidence_becomes_premise", "original_atom_becomes_conclusion", "original_argument"],
+              required: ["evidence_becomes_premise", "original_atom_becomes_conclusion"],
               additionalProperties: false
             }
           },
+          {
+            name: "list_arguments",
+            description: "List the arguments stored by atomic_reason build_symbolic_argument, newest first, with their conclusion, validation result, evidence count and sub-arguments. Stored arguments survive server restarts.",
+            inputSchema: {
+              type: "object",
+              properties: {},
+              required: []
+            }
+          },
+          {
+            name: "load_argument",
+            description: "Load a stored argument by argument_id: its atom groupings, premises, conclusion, latest validation result, evidence and sub-arguments.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id returned by build_symbolic_argument or list_arguments" }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "diff_argument_revisions",
+            description: "Compare two revisions of a stored argument. Every build_symbolic_argument and evidence_gathering call on an argument_id adds a revision. Reports symbols added, removed, renamed or redescribed, premises added or removed, evidence changes, violations resolved or introduced, and whether the argument became valid or invalid, plus the validity of every revision in between.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to compare" },
+                from_revision: { type: "number", description: "Earlier revision number - defaults to the revision before to_revision" },
+                to_revision: { type: "number", description: "Later revision number - defaults to the latest revision" }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "delete_argument",
+            description: "Delete a stored argument by argument_id. Its sub-arguments are kept as arguments of their own.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to delete" }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "export_argument_graph",
+            description: "Render a stored argument as a graph in Graphviz DOT and/or Mermaid, for design docs and PRs. Atoms are nodes labeled with their concept_description, implications are directed edges, conjunctions and disjunctions are join nodes, the conclusion is highlighted, premises disconnected from the conclusion are colored, and evidence strength is annotated on edges and atoms.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to draw" },
+                format: {
+                  type: "string",
+                  enum: ["dot", "mermaid", "both"],
+                  description: "Graph format - defaults to both"
+                }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "export_argument_latex",
+            description: "Typeset a VALID stored argument in LaTeX for design reviews: its derivation, Fitch-style (fitch package) or as a proof tree (bussproofs package), using the symbols from atom_groupings, plus a glossary table mapping each symbol to its concept_description.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to typeset" },
+                style: {
+                  type: "string",
+                  enum: ["fitch", "bussproofs"],
+                  description: "Derivation layout - defaults to fitch"
+                },
+                standalone: {
+                  type: "boolean",
+                  description: "Wrap the output in a complete document that loads the package (default: false, a fragment to \\input)"
+                }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "export_argument_problem",
+            description: "Write an argument as a problem file for external theorem provers: TPTP FOF (premises as axioms, conclusion as conjecture), TPTP CNF (clauses of the premises and the negated, Skolemized conclusion) and SMT-LIB 2 (unsat exactly when the argument is valid). Predicates, constants, functions, variables and quantifiers are kept. Give the argument_id of a stored atomic_reason argument, or a natural language argument.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of a stored argument built with atomic_reason" },
+                argument: { type: "string", description: "Natural language argument, parsed as validate_argument parses it - used when argument_id is not given" },
+                format: {
+                  type: "string",
+                  enum: ["tptp_fof", "tptp_cnf", "smtlib", "all"],
+                  description: "Problem format - defaults to all"
+                }
+              }
+            }
+          },
+          {
+            name: "import_argdown",
+            description: "Read an Argdown premise-conclusion structure - numbered premises \"(1) ...\", a \"----\" inference line and the numbered conclusion - into the atom_groupings, premises, conclusion and lemmas for atomic_reason build_symbolic_argument. [Statement] titles become symbols; a statement that mentions others with @[Title] and connectives (if ... then, and, or, not, iff, or → ∧ ∨ ¬ ↔) becomes a compound premise; intermediate conclusions become lemmas.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argdown: { type: "string", description: "Argdown source" }
+              },
+              required: ["argdown"]
+            }
+          },
+          {
+            name: "export_argdown",
+            description: "Write a stored argument as Argdown: its symbols as statements with their concept_description, its lemmas and the argument as premise-conclusion structures, and its evidence as comments under what it supports. import_argdown reads the result back.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to export" }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "import_aif",
+            description: "Read an Argument Interchange Format document (AIFdb JSON with nodes and edges) into the atom_groupings, premises and conclusion for atomic_reason build_symbolic_argument, and its evidence into evidence_items for evidence_gathering. I-nodes become atom_groupings entries; the I-node an RA-node concludes without feeding further inferences is the conclusion; RA-nodes that are not deductive rules add their warrant as a premise; I-nodes attacking through CA-nodes become contradicting evidence.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                aif: {
+                  type: ["object", "string"],
+                  description: "AIF document, as an object or as JSON text"
+                }
+              },
+              required: ["aif"]
+            }
+          },
+          {
+            name: "export_aif",
+            description: "Write a stored argument in the Argument Interchange Format (AIFdb JSON): I-nodes for its atoms and premises, RA-nodes for each inference of its derivation, and its evidence as I-nodes supporting through RA-nodes or, when it contradicts, attacking through CA-nodes. import_aif reads the result back.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to export" }
+              },
+              required: ["argument_id"]
+            }
+          },
+          {
+            name: "argument_dossier",
+            description: "Write the full Markdown report of a stored argument once evidence_gathering succeeds: symbol glossary, numbered premises in symbols and natural language, derivation, a table of evidence (summary, strength, citation) for each premise, the contradicting evidence, what still lacks evidence and the overall verdict. Present it instead of writing up present_this_order_to_user yourself.",
+            inputSchema: {
+              type: "object",
+              properties: {
+                argument_id: { type: "string", description: "argument_id of the argument to report on" }
+              },
+              required: ["argument_id"]
+            }
+          },
         ] satisfies Tool[],
       };
     });
@@ -299,8 +545,9 @@ class AtomicLogicServer {
         }
 
         case "validate_argument": {
-          const { argument } = args as { 
-            argument: string
+          const { argument, logic } = args as {
+            argument: string,
+            logic?: LogicSystem
           };
           
           const parsedArg = this.parser.parseArgument(argument);
@@ -329,12 +576,12 @@ text: JSON.stringify({
           const conclusion = parsedArg.conclusion.formula;
           
           // STRICT VALIDATION
-          const validation = this.strictValidation(premises, conclusion);
+          const validation = this.strictValidation(premises, conclusion, logic);
           
           // If invalid, automatically include detailed gap analysis
           let gapAnalysis = null;
           if (!validation.validation_results.overallValid) {
-            gapAnalysis = this.diagnoseLogicalGaps(argument);
+            gapAnalysis = this.diagnoseLogicalGaps(argument, logic);
             (validation as any).automaticGapAnalysis = gapAnalysis;
           }
           
@@ -389,9 +636,9 @@ text: JSON.stringify({
         }
 
         case "diagnose_gaps": {
-          const { argument } = args as { argument: string };
+          const { argument, logic } = args as { argument: string, logic?: LogicSystem };
           
-          const gapAnalysis = this.diagnoseLogicalGaps(argument);
+          const gapAnalysis = this.diagnoseLogicalGaps(argument, logic);
           
           return {
             content: [
@@ -419,19 +666,35 @@ text: JSON.stringify({
         }
         
         case "evidence_gathering": {
-          const { atomic_reason_output, evidence_items } = args as {
-            atomic_reason_output: string;
-            evidence_items: Array<{
-              target: string;
-              summary: string;
-              strength: number;
-              citation: string;
-            }>;
+          const { argument_id, atomic_reason_output, evidence_items: submittedEvidence } = args as {
+            argument_id?: string;
+            atomic_reason_output?: string;
+            evidence_items: EvidenceItem[];
           };
 
+          if (argument_id !== undefined && !this.argumentStore.get(argument_id)) {
+            return this.unknownArgument(argument_id);
+          }
+
+          let session: ArgumentRecord | undefined;
           try {
-            // Parse the atomic_reason output
-            const atomicReasonAnalysis = JSON.parse(atomic_reason_output);
+            // A stored argument keeps its evidence, so the items given here are merged into it
+            session = argument_id !== undefined
+              ? this.argumentStore.recordEvidence(argument_id, submittedEvidence)!
+              : undefined;
+          } catch (error) {
+            return this.storageFailure(error);
+          }
+
+          try {
+            if (!session && atomic_reason_output === undefined) {
+              throw new Error("Provide argument_id from atomic_reason build_symbolic_argument, or its JSON output as atomic_reason_output");
+            }
+            const atomicReasonAnalysis = session ? session.result : JSON.parse(atomic_reason_output!);
+            if (session) {
+              this.announceArgumentChange(session.id, false);
+            }
+            const evidence_items = session ? session.evidence : submittedEvidence;
 
             if (!atomicReasonAnalysis.validation_result || !atomicReasonAnalysis.symbolic_argument) {
               throw new Error("Input must be valid JSON output from atomic_reason build_symbolic_argument step");
@@ -441,40 +704,11 @@ text: JSON.stringify({
             const symbolicArgument = atomicReasonAnalysis.symbolic_argument;
             const symbolDefinitions = atomicReasonAnalysis.symbol_definitions || {};
 
-            // Get ALL atoms that need evidence from the argument
-            const atomsNeededEvidence = new Set<string>();
-            const implicationsNeededEvidence = new Set<string>();
-
-            // Get atoms from symbol_definitions, but exclude the conclusion atom
             const conclusionAtom = symbolicArgument.conclusion?.replace(/^C:\s*/, '');
 
-            Object.keys(symbolDefinitions).forEach(atom => {
-              if (atom !== conclusionAtom) {
-                atomsNeededEvidence.add(atom);
-              }
-            });
-
-            // Add all premises as implications needing evidence (use the symbolic form)
-            if (symbolicArgument && symbolicArgument.premises) {
-              symbolicArgument.premises.forEach((premise: string) => {
-                const cleanPremise = premise.replace(/^P\d+:\s*/, '');
-                // Only add compound formulas (implications, conjunctions, disjunctions) as needing evidence
-                if (cleanPremise.includes('→') || cleanPremise.includes('∧') || cleanPremise.includes('∨')) {
-                  implicationsNeededEvidence.add(cleanPremise);
-                }
-              });
-            }
-
-            // Check if every atom and implication has complete evidence
-            const missingEvidence: string[] = [];
-            const allRequiredItems = [...Array.from(atomsNeededEvidence), ...Array.from(implicationsNeededEvidence)];
-
-            allRequiredItems.forEach(item => {
-              const evidence = evidence_items.find(e => e.target === item);
-              if (!evidence || !evidence.summary || evidence.strength === undefined || !evidence.citation) {
-                missingEvidence.push(item);
-              }
-            });
+            // Every atom but the conclusion and every compound premise needs complete evidence
+            const { required: allRequiredItems, missing: missingEvidence } =
+              ArgumentDossier.evidenceRequirements(atomicReasonAnalysis, evidence_items);
 
             const allEvidenceComplete = missingEvidence.length === 0;
 
@@ -498,7 +732,7 @@ text: JSON.stringify({
                 const evidenceForThisPremise: any[] = [];
 
                 // Check for exact implication match first
-                if (cleanPremise.includes('→') || cleanPremise.includes('∧') || cleanPremise.includes('∨')) {
+                if (ArgumentDossier.isCompound(cleanPremise, Object.keys(symbolDefinitions))) {
                   const implicationEvidence = evidence_items.filter(e => e.target === cleanPremise);
                   if (implicationEvidence.length > 0 && !assignedEvidence.has(cleanPremise)) {
                     evidenceForThisPremise.push({
@@ -589,8 +823,13 @@ text: JSON.stringify({
                     total_required: allRequiredItems.length,
                     total_provided: allRequiredItems.length - missingEvidence.length
                   },
-                  original_atomic_reason_analysis: atomicReasonAnalysis,
-                  PRESENTATION_SUMMARY: `Present ${presentationOrder.filter(item => item.premise).length} premises with their supporting evidence, followed by ${presentationOrder.filter(item => item.premise && item.evidence_items.some((e: any) => e.type === 'implication')).length} implications with their supporting evidence, followed by the conclusion.`
+                  ...(session
+                    ? { argument_id: session.id }
+                    : { original_atomic_reason_analysis: atomicReasonAnalysis }),
+                  PRESENTATION_SUMMARY: `Present ${presentationOrder.filter(item => item.premise).length} premises with their supporting evidence, followed by ${presentationOrder.filter(item => item.premise && item.evidence_items.some((e: any) => e.type === 'implication')).length} implications with their supporting evidence, followed by the conclusion.`,
+                  ...(session && finalSuccess && {
+                    next_step: `Call argument_dossier with argument_id "${session.id}" and present the Markdown dossier it returns.`
+                  })
                 }, null, 2)
               }]
             };
@@ -670,12 +909,18 @@ text: JSON.stringify({
         }
 
         case "atomic_reason": {
-          const { step, argument_text, atom_groupings, premises, conclusion } = args as {
+          const { step, argument_text, atom_groupings, premises, conclusion, logic = "chaining", exclusions = [], assumptions = [], lemmas = [], argument_id, parent_argument_id } = args as {
             step: "extract_atoms" | "group_atoms" | "build_symbolic_argument";
             argument_text?: string;
-            atom_groupings?: Array<{symbol: string, concept_description: string, text_variants: string[]}>;
+            atom_groupings?: AtomGrouping[];
             premises?: string[];
             conclusion?: string;
+            logic?: LogicSystem;
+            exclusions?: string[][];
+            assumptions?: HypotheticalAssumption[];
+            lemmas?: ArgumentLemma[];
+            argument_id?: string;
+            parent_argument_id?: string;
           };
 
           switch (step) {
@@ -721,7 +966,7 @@ text: JSON.stringify({
                   type: "text",
                   text: JSON.stringify({
                     step: "group_atoms",
-                    instruction: "Now create your argument using your symbols. Specify which atom you're trying to prove (conclusion) and what premises support it.",
+                    instruction: "Now create your argument using your symbols. Specify what you're trying to prove (conclusion) - an atom or a formula over your atoms - and what premises support it.",
                     premise_formats: [
                       "Standalone: 'AUTH'",
                       "Conjunctions: 'AUTH && IMPL'",
@@ -729,7 +974,8 @@ text: JSON.stringify({
                       "Implications: 'AUTH -> IMPL'",
                       "Semi-natural: 'IMPL enables AUTH'"
                     ],
-                    task: "Create premises array and choose conclusion atom using your exact symbol names.",
+                    assumption_format: "Optional: {assume: 'AUTH', derive: 'ACCESS'} discharges as 'AUTH -> ACCESS'; {assume: 'BREACH', derive: '⊥'} discharges as '!BREACH'",
+                    task: "Create premises array and choose the conclusion using your exact symbol names.",
                     next_step: "Use step='build_symbolic_argument' with your atom_groupings, premises, and conclusion",
                     required_fields: ["atom_groupings", "premises", "conclusion"]
                   }, null, 2)
@@ -748,15 +994,37 @@ text: JSON.stringify({
                       required_format: {
                         atom_groupings: "Array of {symbol, concept_description, text_variants}",
                         premises: "Array of strings like 'AUTH', 'AUTH && IMPL', 'AUTH -> IMPL', 'IMPL enables AUTH'",
-                        conclusion: "String matching one of your symbols"
+                        conclusion: "String like 'ACCESS', 'AUTH -> ACCESS' or '!BREACH' using your symbols"
                       }
                     }, null, 2)
                   }]
                 };
               }
 
+              const unknownId = [argument_id, parent_argument_id].find(id => id !== undefined && !this.argumentStore.get(id));
+              if (unknownId !== undefined) {
+                return this.unknownArgument(unknownId);
+              }
+
               // Build symbolic argument and validate
-              const symbolicValidation = this.atomicReasonModule.validateSymbolicArgument(atom_groupings, premises, conclusion);
+              const symbolicValidation = this.atomicReasonModule.validateSymbolicArgument(atom_groupings, premises, conclusion, logic, exclusions, assumptions, lemmas);
+
+              // Keep the argument so evidence_gathering and dig_in can refer to it by id
+              const build = { atomGroupings: atom_groupings, premises, conclusion, logic, exclusions, assumptions, lemmas, result: symbolicValidation };
+              let record: ArgumentRecord;
+              try {
+                record = argument_id !== undefined
+                  ? this.argumentStore.revise(argument_id, build)!
+                  : this.argumentStore.create(build, parent_argument_id);
+              } catch (error) {
+                return this.storageFailure(error);
+              }
+              symbolicValidation.argument_id = record.id;
+              if (record.parentId) {
+                symbolicValidation.parent_argument_id = record.parentId;
+                this.announceArgumentChange(record.parentId, false);
+              }
+              this.announceArgumentChange(record.id, argument_id === undefined);
 
               return {
                 content: [{
@@ -833,7 +1101,8 @@ text: JSON.stringify({
               when_better_info_available: "WHEN there is better information, THEN the more specific argument is better",
               example_improvement: "P1: A, P2: A -> B, C: B becomes P1: A, P2: A -> A', P3: A' -> A'', P4: A'' -> B, C: B (when you know the intermediate steps)",
               principle: "More premises to prove same point = bad. Breaking down argument into specific premises = good",
-              test: "If you can remove a premise and argument still works, remove it"
+              test: "If you can remove a premise and argument still works, remove it",
+              automatic_check: "atomic_reason lists validation_details.minimal_premise_sets and warns with REDUNDANT PREMISE / REDUNDANT PATH"
             },
             
             evidence: {
@@ -891,12 +1160,17 @@ text: JSON.stringify({
         }
 
         case "dig_in": {
-          const { evidence_becomes_premise, original_atom_becomes_conclusion, original_argument } = args as {
+          const { evidence_becomes_premise, original_atom_becomes_conclusion, argument_id, original_argument } = args as {
             evidence_becomes_premise: string;
             original_atom_becomes_conclusion: string;
-            original_argument: string;
+            argument_id?: string;
+            original_argument?: string;
           };
 
+          if (argument_id !== undefined && !this.argumentStore.get(argument_id)) {
+            return this.unknownArgument(argument_id);
+          }
+
           if (!evidence_becomes_premise || !original_atom_becomes_conclusion) {
             throw new Error("evidence_becomes_premise and original_atom_becomes_conclusion are required");
           }
@@ -918,6 +1192,9 @@ text: JSON.stringify({
                     step: "extract_atoms",
                     argument_text: subArgumentText
                   },
+                  ...(argument_id !== undefined && {
+                    build_with: { parent_argument_id: argument_id }
+                  }),
                   explanation: [
                     "The evidence you already provided has become the PREMISE of this NEW sub-argument.",
                     "The atom/implication has become the CONCLUSION of this NEW sub-argument.",
@@ -928,24 +1205,451 @@ text: JSON.stringify({
                     "2. Follow the 3-step atomic_reason workflow (extract_atoms → group_atoms → build_symbolic_argument)",
                     "3. The argument will likely FAIL validation (logical gap between evidence and conclusion)",
                     "4. Add missing premises to create a valid logical chain from evidence to conclusion",
-                    "5. Re-run 'atomic_reason' step 3 until the sub-argument is logically VALID",
+                    `5. Re-run 'atomic_reason' step 3 until the sub-argument is logically VALID${argument_id !== undefined ? ` - pass parent_argument_id '${argument_id}' on the first build and the returned argument_id after that` : ''}`,
                     "6. When complete, you have successfully 'dug in' to strengthen this part of your argument"
                   ],
                   evidence_now_premise: evidence_becomes_premise,
                   atom_implication_now_conclusion: original_atom_becomes_conclusion,
-                  original_argument_reference: original_argument
+                  original_argument_reference: argument_id ?? original_argument
                 }
               }, null, 2)
             }]
           };
         }
 
+        case "list_arguments": {
+          const stored = this.argumentStore.list()
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+            .map(record => ({
+              argument_id: record.id,
+              conclusion: record.conclusion,
+              validation_result: record.result?.validation_result,
+              updated_at: record.updatedAt,
+              evidence_items: record.evidence.length,
+              revisions: record.revisions.length,
+              ...(record.parentId && { parent_argument_id: record.parentId }),
+              sub_arguments: record.subArguments
+            }));
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ arguments: stored, total: stored.length }, null, 2)
+            }]
+          };
+        }
+
+        case "load_argument": {
+          const { argument_id } = args as { argument_id: string };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify(record, null, 2)
+            }]
+          };
+        }
+
+        case "diff_argument_revisions": {
+          const { argument_id, from_revision, to_revision } = args as {
+            argument_id: string;
+            from_revision?: number;
+            to_revision?: number;
+          };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          const to = this.argumentStore.getRevision(argument_id, to_revision);
+          const from = this.argumentStore.getRevision(argument_id, from_revision ?? (to ? to.revision - 1 : undefined));
+          if (!from || !to) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  error: "UNKNOWN_REVISION",
+                  message: `Argument '${argument_id}' has revisions 1 to ${record.revisions.length}; choose from_revision and to_revision among them${record.revisions.length < 2 ? ' - it needs a second revision before there is anything to compare' : ''}.`
+                }, null, 2)
+              }]
+            };
+          }
+
+          const [earlier, later] = from.revision <= to.revision ? [from, to] : [to, from];
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                argument_id,
+                diff: ArgumentDiff.compare(from, to),
+                history: record.revisions
+                  .filter(r => r.revision >= earlier.revision && r.revision <= later.revision)
+                  .map(r => ({ revision: r.revision, at: r.createdAt, cause: r.cause, validation_result: r.validationResult }))
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "delete_argument": {
+          const { argument_id } = args as { argument_id: string };
+          const deleted = this.argumentStore.get(argument_id);
+          if (!deleted) {
+            return this.unknownArgument(argument_id);
+          }
+          try {
+            this.argumentStore.delete(argument_id);
+          } catch (error) {
+            return this.storageFailure(error);
+          }
+          this.resourceSubscriptions.delete(`argument://${argument_id}`);
+          this.resourceSubscriptions.delete(`argument://${argument_id}/report`);
+          [deleted.parentId, ...deleted.subArguments]
+            .filter((id): id is string => id !== undefined)
+            .forEach(id => this.announceArgumentChange(id, false));
+          this.announceArgumentChange(argument_id, true);
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ deleted: argument_id }, null, 2)
+            }]
+          };
+        }
+
+        case "export_argument_graph": {
+          const { argument_id, format = "both" } = args as {
+            argument_id: string;
+            format?: "dot" | "mermaid" | "both";
+          };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          const argument = ArgumentFormulas.fromRecord(record);
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                argument_id,
+                validation_result: record.result?.validation_result,
+                ...(format !== "mermaid" && { dot: GraphExport.toDot(argument, record.evidence) }),
+                ...(format !== "dot" && { mermaid: GraphExport.toMermaid(argument, record.evidence) })
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "export_argument_latex": {
+          const { argument_id, style = "fitch", standalone = false } = args as {
+            argument_id: string;
+            style?: LatexProofStyle;
+            standalone?: boolean;
+          };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          const latex = record.result?.validation_result === "VALID"
+            ? LatexExport.toLatex(ArgumentFormulas.fromRecord(record), style, standalone)
+            : undefined;
+          if (!latex) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  error: "NO_DERIVATION",
+                  message: record.result?.validation_result === "VALID"
+                    ? `Argument '${argument_id}' holds in ${record.logic} logic, but its conclusion has no natural deduction derivation to typeset. Rebuild it with logic "chaining" to see which step is missing.`
+                    : `Argument '${argument_id}' is ${record.result?.validation_result ?? 'NOT VALIDATED'}. Only a VALID argument has a derivation to typeset - fix the violations atomic_reason reports, then export again.`
+                }, null, 2)
+              }]
+            };
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                argument_id,
+                style,
+                package: LatexExport.packageFor(style),
+                latex
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "export_argument_problem": {
+          const { argument_id, argument, format = "all" } = args as {
+            argument_id?: string;
+            argument?: string;
+            format?: ProblemFormat | "all";
+          };
+
+          let premises: LogicFormula[];
+          let conclusion: LogicFormula | undefined;
+          if (argument_id) {
+            const record = this.argumentStore.get(argument_id);
+            if (!record) {
+              return this.unknownArgument(argument_id);
+            }
+            const parsed = ArgumentFormulas.fromRecord(record);
+            premises = parsed.premises.map(p => p.formula);
+            conclusion = parsed.conclusion?.formula;
+          } else if (argument) {
+            const parsed = this.parser.parseArgument(argument);
+            premises = parsed.premises.map(p => p.formula);
+            conclusion = parsed.conclusion.formula;
+          } else {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  error: "MISSING_ARGUMENT",
+                  message: "Give either argument_id (a stored atomic_reason argument) or argument (natural language text)."
+                }, null, 2)
+              }]
+            };
+          }
+
+          if (!conclusion) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  error: "UNPARSEABLE_CONCLUSION",
+                  message: `The conclusion of argument '${argument_id}' does not parse with its atom_groupings. Rebuild it with atomic_reason and export again.`
+                }, null, 2)
+              }]
+            };
+          }
+
+          const formats: ProblemFormat[] = format === "all" ? ["tptp_fof", "tptp_cnf", "smtlib"] : [format];
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                ...(argument_id && { argument_id }),
+                premise_count: premises.length,
+                problems: Object.fromEntries(formats.map(f => [f, ProblemExport.serialize(f, premises, conclusion!)]))
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "import_argdown": {
+          const { argdown } = args as { argdown: string };
+          const { argument, error } = ArgdownParser.parse(argdown ?? "");
+          if (!argument) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ error: "NO_ARGUMENT_FOUND", message: error }, null, 2)
+              }]
+            };
+          }
+
+          const { title, problems, ...build } = argument;
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                ...(title && { title }),
+                atomic_reason_input: {
+                  step: "build_symbolic_argument",
+                  ...build,
+                  ...(build.lemmas.length === 0 && { lemmas: undefined })
+                },
+                problems,
+                next_step: "Review the atom_groupings - merge symbols that name the same concept - then call atomic_reason with atomic_reason_input."
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "export_argdown": {
+          const { argument_id } = args as { argument_id: string };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                argument_id,
+                validation_result: record.result?.validation_result,
+                argdown: ArgdownExport.toArgdown(record)
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "import_aif": {
+          const { aif } = args as { aif: AifDocument | string };
+          const { argument, error } = AifParser.parse(aif);
+          if (!argument) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ error: "NO_ARGUMENT_FOUND", message: error }, null, 2)
+              }]
+            };
+          }
+
+          const { evidence, problems, ...build } = argument;
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                atomic_reason_input: {
+                  step: "build_symbolic_argument",
+                  ...build
+                },
+                evidence_items: evidence,
+                problems,
+                next_step: evidence.length > 0
+                  ? "Review the atom_groupings, call atomic_reason with atomic_reason_input, then evidence_gathering with the returned argument_id and evidence_items."
+                  : "Review the atom_groupings - merge symbols that name the same concept - then call atomic_reason with atomic_reason_input."
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "export_aif": {
+          const { argument_id } = args as { argument_id: string };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                argument_id,
+                validation_result: record.result?.validation_result,
+                aif: AifExport.toAif(record)
+              }, null, 2)
+            }]
+          };
+        }
+
+        case "argument_dossier": {
+          const { argument_id } = args as { argument_id: string };
+          const record = this.argumentStore.get(argument_id);
+          if (!record) {
+            return this.unknownArgument(argument_id);
+          }
+
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                argument_id,
+                validation_result: record.result?.validation_result,
+                dossier: ArgumentDossier.toMarkdown(record)
+              }, null, 2)
+            }]
+          };
+        }
+
         default:
           throw new Error(`Unknown tool: ${name}`);
       }
     });
   }
 
+  /**
+   * Every stored argument is readable as argument://<id> (JSON) and argument://<id>/report (Markdown)
+   */
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: this.argumentStore.list().flatMap(record => [
+          {
+            uri: `argument://${record.id}`,
+            name: `Argument: ${record.conclusion}`,
+            description: `${record.result?.validation_result ?? 'NOT VALIDATED'} argument for ${record.conclusion}, with its evidence and sub-arguments`,
+            mimeType: "application/json"
+          },
+          {
+            uri: `argument://${record.id}/report`,
+            name: `Report: ${record.conclusion}`,
+            description: `Markdown report of the argument for ${record.conclusion}`,
+            mimeType: "text/markdown"
+          }
+        ]) satisfies Resource[]
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: "argument://{argument_id}",
+            name: "Stored argument",
+            description: "An argument built with atomic_reason, as JSON",
+            mimeType: "application/json"
+          },
+          {
+            uriTemplate: "argument://{argument_id}/report",
+            name: "Argument report",
+            description: "An argument built with atomic_reason, as a Markdown report",
+            mimeType: "text/markdown"
+          }
+        ] satisfies ResourceTemplate[]
+      };
+    });
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const match = uri.match(/^argument:\/\/([^/]+)(\/report)?$/);
+      const record = match ? this.argumentStore.get(match[1]) : undefined;
+      if (!record) {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+
+      return {
+        contents: [match![2]
+          ? { uri, mimeType: "text/markdown", text: ArgumentReport.toMarkdown(record, id => this.argumentStore.get(id)) }
+          : { uri, mimeType: "application/json", text: JSON.stringify(record, null, 2) }]
+      };
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.resourceSubscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Tell clients an argument changed: subscribers to its resources get an update, and
+   * creating or deleting an argument changes the resource list
+   */
+  private announceArgumentChange(id: string, listChanged: boolean): void {
+    const report = (error: unknown) => console.error("[MCP Error]", error);
+
+    [`argument://${id}`, `argument://${id}/report`]
+      .filter(uri => this.resourceSubscriptions.has(uri))
+      .forEach(uri => this.server.sendResourceUpdated({ uri }).catch(report));
+    if (listChanged) {
+      this.server.sendResourceListChanged().catch(report);
+    }
+  }
+
   private setupPromptHandlers(): void {
     this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
       return {
@@ -1083,9 +1787,21 @@ EXAMPLE GROUPING:
     });
   }
 
-  private strictValidation(premises: LogicFormula[], conclusion: LogicFormula) {
-    // VALIDATION - Connected/Disconnected check only
-    const validation = FormulaUtils.validate(premises, conclusion);
+  private strictValidation(premises: LogicFormula[], conclusion: LogicFormula, logic?: LogicSystem) {
+    // VALIDATION - Connected/Disconnected check, then consequence in the selected logic
+    const validation = FormulaUtils.validate(premises, conclusion, logic);
+
+    // Connectivity alone accepts a formal fallacy, so a named one always fails the argument
+    const fallacies = validation.isValid && logic ? [] : FallacyChecker.detect(premises, conclusion);
+    if (fallacies.length > 0) {
+      validation.isValid = false;
+      validation.violatedConstraints = [...fallacies.map(f => f.message), ...validation.violatedConstraints];
+    }
+
+    const tableau = validation.tableau;
+    const countermodel = validation.isValid
+      ? null
+      : validation.countermodel || FormulaUtils.findCountermodel(premises, conclusion, logic);
 
     const analysis = {
       version: "2.0.0 - LOGICAL VALIDATION",
@@ -1095,6 +1811,7 @@ EXAMPLE GROUPING:
       },
       validation_results: {
         overallValid: validation.isValid,
+        ...(logic && { logic }),
         failures: validation.isValid ? [] : validation.violatedConstraints.map(constraint => ({
           check_name: this.getCheckName(constraint),
           constraint_violated: constraint,
@@ -1104,8 +1821,24 @@ EXAMPLE GROUPING:
             failed_premise_indices: this.extractFailedPremiseIndices(constraint)
           },
           explanation: this.getFailureExplanation(constraint)
-        }))
+        })),
+        ...(!validation.isValid && countermodel && { countermodel }),
+        ...(fallacies.length > 0 && {
+          fallacies: fallacies.map(f => ({ kind: f.kind, premises: f.premises.map(index => `P${index + 1}`) }))
+        }),
+        ...(!validation.isValid && {
+          bridge_suggestions: this.describeBridges(BridgeFinder.suggest(premises, conclusion, logic))
+        })
       },
+      ...(tableau && {
+        relevance_tableau: {
+          status: tableau.status,
+          ...(tableau.status === 'proved' && (tableau.naturalDeduction
+            ? { natural_deduction: tableau.naturalDeduction }
+            : { closed_tableau: tableau.tableau })),
+          ...(tableau.openBranch && { open_branch: tableau.openBranch })
+        }
+      }),
       errors: [] as string[],
       warnings: [] as string[],
     };
@@ -1139,11 +1872,18 @@ EXAMPLE GROUPING:
   }
 
   private getCheckName(constraint: string): string {
+    if (/^(AFFIRMING THE CONSEQUENT|DENYING THE ANTECEDENT|UNDISTRIBUTED MIDDLE|CONVERSION) in /.test(constraint)) return 'fallacy_check';
     if (constraint.includes('DISCONNECTED:')) return 'connected_components_check';
     if (constraint.includes('CIRCULAR REASONING:')) return 'circular_reasoning_check';
     if (constraint.includes('quantifier')) return 'quantifier_scope_check';
     if (constraint.includes('Distribution')) return 'distribution_compliance_check';
     if (constraint.includes('Multiplicative')) return 'multiplicative_logic_check';
+    if (constraint.includes('NOT RELEVANTLY VALID:') || constraint.includes('NOT A VALID ENTAILMENT:')) return 'relevance_tableau_check';
+    if (constraint.includes('UNDERIVABLE:')) return 'derivability_check';
+    if (constraint.includes('CLASSICALLY INVALID:')) return 'classical_consequence_check';
+    if (constraint.includes('NOT INTUITIONISTICALLY VALID:')) return 'intuitionistic_consequence_check';
+    if (constraint.includes('NOT A FIRST-DEGREE ENTAILMENT:') || constraint.includes('UNSUPPORTED:')) return 'first_degree_entailment_check';
+    if (constraint.includes('UNDECIDED:')) return 'consequence_search_bound';
     return 'unknown_check';
   }
 
@@ -1288,10 +2028,11 @@ EXAMPLE GROUPING:
     ];
   }
 
-  private diagnoseLogicalGaps(argument: string) {
+  private diagnoseLogicalGaps(argument: string, logic?: LogicSystem) {
     const parsedArg = this.parser.parseArgument(argument);
     const premises = parsedArg.premises.map(p => p.formula);
     const conclusion = parsedArg.conclusion.formula;
+    const bridges = BridgeFinder.suggest(premises, conclusion, logic);
 
     const diagnosis = {
       version: "2.0.0 - GAP DIAGNOSTIC TOOL",
@@ -1317,14 +2058,26 @@ EXAMPLE GROUPING:
         logicalBridges: this.identifyMissingBridges(premises, conclusion),
         implicitPremises: this.identifyMissingPremises(premises, conclusion),
         quantifierIssues: this.analyzeQuantifierGaps(premises, conclusion),
-        structuralIssues: this.analyzeStructuralGaps(premises, conclusion)
+        structuralIssues: this.analyzeStructuralGaps(premises, conclusion),
+        ...(logic && { consequence: this.analyzeConsequenceGap(premises, conclusion, logic) }),
+        bridgeSuggestions: this.describeBridges(bridges)
       },
-      recommendations: this.generateGapRepairRecommendations(premises, conclusion)
+      recommendations: this.generateGapRepairRecommendations(bridges)
     };
 
     return diagnosis;
   }
 
+  private analyzeConsequenceGap(premises: LogicFormula[], conclusion: LogicFormula, logic: LogicSystem) {
+    const validation = FormulaUtils.validate(premises, conclusion, logic);
+    return {
+      logic,
+      follows: validation.isValid,
+      violations: validation.violatedConstraints,
+      ...(validation.countermodel && { countermodel: validation.countermodel })
+    };
+  }
+
   private analyzeSyntacticGaps(premises: LogicFormula[], conclusion: LogicFormula) {
     const conclusionAtoms = FormulaUtils.extractAtomicFormulas(conclusion);
     const premiseAtoms = premises.flatMap(p => FormulaUtils.extractAtomicFormulas(p));
@@ -1499,14 +2252,24 @@ EXAMPLE GROUPING:
   }
 
 
-  private generateGapRepairRecommendations(premises: LogicFormula[], conclusion: LogicFormula): string[] {
-    const recommendations: string[] = [];
-    
-    // Connected component check is handled by validation - no additional recommendations needed
-    
-    // All recommendations are now handled by connected component validation
-    
-    return recommendations;
+  /**
+   * One recommendation per bridge suggestion, fewest new links first
+   */
+  private generateGapRepairRecommendations(bridges: BridgeSuggestion[]): string[] {
+    return this.describeBridges(bridges).map(bridge => {
+      const from = bridge.from.length > 0 ? ` - leads on from ${bridge.from.join(', ')}` : '';
+      return `Add ${bridge.add.join(' and ')} (${bridge.links} new link${bridge.links === 1 ? '' : 's'})${from}`;
+    });
+  }
+
+  private describeBridges(bridges: BridgeSuggestion[]): Array<{ links: number, add: string[], from: string[] }> {
+    return bridges.map(bridge => ({
+      links: bridge.links.length,
+      add: bridge.links.map(link => FormulaUtils.toString(link.implication)),
+      from: bridge.links
+        .filter(link => link.fromPremise !== undefined)
+        .map(link => `P${link.fromPremise! + 1}`)
+    }));
   }
 
   private guideFormalization(naturalStatement: string, targetConclusion: string) {
@@ -1677,7 +2440,20 @@ EXAMPLE GROUPING:
     improvedConclusion: string,
     explanation: string 
   } {
-    // This would be a sophisticated transformation - simplified version here
+    const premises: LogicFormula[] = parsed.premises.map((p: any) => p.formula);
+    const conclusion: LogicFormula = parsed.conclusion.formula;
+    const [bridge] = BridgeFinder.suggest(premises, conclusion);
+
+    // The smallest bridge turns the current premises into a derivation of the conclusion
+    if (bridge) {
+      const added = bridge.links.map(link => FormulaUtils.toString(link.implication));
+      return {
+        improvedPremises: [...premises.map(p => FormulaUtils.toString(p)), ...added],
+        improvedConclusion: targetConclusion || FormulaUtils.toString(conclusion),
+        explanation: `Adding ${added.join(' and ')} makes ${FormulaUtils.toString(conclusion)} derivable from the current premises - state ${added.length === 1 ? 'it' : 'them'} in the same wording and support ${added.length === 1 ? 'it' : 'them'} with evidence`
+      };
+    }
+
     return {
       improvedPremises: [
         "Break complex statements into atomic predicates",
@@ -1736,6 +2512,14 @@ EXAMPLE GROUPING:
         });
       }
       
+      const repairs: string[] = gapAnalysis.recommendations || [];
+      if (repairs.length > 0) {
+        steps.push("Smallest repairs:");
+        repairs.slice(0,3).forEach((repair, i) => {
+          steps.push(`${i + 1}. ${repair}`);
+        });
+      }
+      
       if (steps.length === 1) {
         steps.push("Premises disconnected from conclusion");
         steps.push("Fix: Use same atomic formulas in premises and conclusion");
@@ -1761,6 +2545,34 @@ EXAMPLE GROUPING:
     ];
   }
 
+  /**
+   * Tool response for an argument_id the store does not know
+   */
+  private unknownArgument(id: string) {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          error: "UNKNOWN_ARGUMENT",
+          message: `No stored argument has argument_id '${id}'. Use the argument_id returned by atomic_reason build_symbolic_argument.`
+        }, null, 2)
+      }]
+    };
+  }
+
+  private storageFailure(error: unknown) {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          error: "STORAGE_FAILED",
+          message: "The argument could not be saved, so the stored arguments were left unchanged. Check that the argument directory is writable and call again.",
+          details: error instanceof Error ? error.message : String(error)
+        }, null, 2)
+      }]
+    };
+  }
+
   private setupErrorHandling(): void {
     this.server.onerror = (error) => {
       console.error("[MCP Error]", error);
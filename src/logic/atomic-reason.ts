@@ -4,7 +4,21 @@
  */
 
 import { FormulaUtils, FormulaBuilder } from "./formula.js";
-import { LogicFormula } from "../types.js";
+import { Derivation } from "./derivation.js";
+import { PremiseParser } from "./premise-parser.js";
+import { ImplicationGraph } from "./implication-graph.js";
+import { FallacyChecker } from "./fallacy-checker.js";
+import { LogicFormula, ProofLine, LogicSystem, PremiseParseError, PremiseParseResult, ReachabilityReport, HypotheticalAssumption, ArgumentLemma } from "../types.js";
+
+// Logics in which contradictory premises do not prove every conclusion
+const PARACONSISTENT_LOGICS: LogicSystem[] = ['relevant', 'entailment', 'first_degree_entailment'];
+
+// A lemma after validation, available to the lemmas after it and to the main argument
+interface ProvenLemma {
+  name: string;
+  conclusion: string;
+  result: any;
+}
 
 export class AtomicReasonModule {
   extractAtomsFromText(text: string, parser: any): string[] {
@@ -24,48 +38,22 @@ export class AtomicReasonModule {
   }
 
   parsePremiseString(premise: string, symbolFormulas: Map<string, LogicFormula>): LogicFormula | null {
-    const trimmed = premise.trim();
-
-    // Check for standalone atom
-    if (symbolFormulas.has(trimmed)) {
-      return symbolFormulas.get(trimmed)!;
-    }
-
-    // Check for conjunction (&&)
-    if (trimmed.includes('&&')) {
-      const parts = trimmed.split('&&').map(p => p.trim());
-      if (parts.length === 2 && symbolFormulas.has(parts[0]) && symbolFormulas.has(parts[1])) {
-        return FormulaBuilder.compound('and', [
-          symbolFormulas.get(parts[0])!,
-          symbolFormulas.get(parts[1])!
-        ], trimmed);
-      }
-    }
+    return this.parsePremise(premise, symbolFormulas).formula || null;
+  }
 
-    // Check for disjunction (||)
-    if (trimmed.includes('||')) {
-      const parts = trimmed.split('||').map(p => p.trim());
-      if (parts.length === 2 && symbolFormulas.has(parts[0]) && symbolFormulas.has(parts[1])) {
-        return FormulaBuilder.compound('or', [
-          symbolFormulas.get(parts[0])!,
-          symbolFormulas.get(parts[1])!
-        ], trimmed);
-      }
-    }
+  /**
+   * Parse a premise with the symbolic grammar: parentheses, negation and chains of ∧, ∨, →, ↔
+   * in ASCII or Unicode, plus "implies", "enables" and "is necessary for".
+   * A premise that does not parse comes back with a positioned error instead.
+   */
+  parsePremise(premise: string, symbolFormulas: Map<string, LogicFormula>): PremiseParseResult {
+    const trimmed = premise.trim();
+    const result = PremiseParser.parse(trimmed, symbolFormulas);
 
-    // Check for implication (->)
-    if (trimmed.includes('->')) {
-      const parts = trimmed.split('->').map(p => p.trim());
-      if (parts.length === 2 && symbolFormulas.has(parts[0]) && symbolFormulas.has(parts[1])) {
-        return FormulaBuilder.compound('implies', [
-          symbolFormulas.get(parts[0])!,
-          symbolFormulas.get(parts[1])!
-        ], trimmed);
-      }
+    if (result.formula && result.formula.type === 'compound') {
+      result.formula.naturalLanguage = trimmed;
     }
-
-    // Try semi-natural language parsing (fallback to existing parseSymbolicRelationship)
-    return this.parseSymbolicRelationship(trimmed, symbolFormulas);
+    return result;
   }
 
   parseSymbolicRelationship(relationship: string, symbolFormulas: Map<string, LogicFormula>): LogicFormula | null {
@@ -124,12 +112,23 @@ export class AtomicReasonModule {
     if (formula.type === 'atomic') {
       return formula.predicate || 'unknown';
     } else if (formula.type === 'compound' && formula.subformulas) {
-      const left = this.formulaToSymbolicString(formula.subformulas[0]);
-      const right = this.formulaToSymbolicString(formula.subformulas[1]);
+      // Nested binary formulas are parenthesized; the outermost one is left bare
+      const operand = (sub: LogicFormula) => {
+        const text = this.formulaToSymbolicString(sub);
+        return this.isBinary(sub) ? `(${text})` : text;
+      };
+      if (formula.operator === 'not') {
+        return `¬${operand(formula.subformulas[0])}`;
+      }
+      if (formula.operator === 'top') return '⊤';
+      if (formula.operator === 'zero') return '⊥';
+      const left = operand(formula.subformulas[0]);
+      const right = operand(formula.subformulas[1]);
       switch (formula.operator) {
         case 'implies': return `${left} → ${right}`;
         case 'and': return `${left} ∧ ${right}`;
         case 'or': return `${left} ∨ ${right}`;
+        case 'biconditional': return `${left} ↔ ${right}`;
         default: return `${left} ${formula.operator} ${right}`;
       }
     }
@@ -163,27 +162,322 @@ export class AtomicReasonModule {
     };
   }
 
-  private formulaToNaturalLanguage(formula: LogicFormula, symbolToDescription: Map<string, string>): string {
+  /**
+   * Render proof lines Fitch-style, e.g. "8. C    ∨E 1, 4-5, 6-7" or "5. (A → C)    →I 2-4"
+   */
+  renderDerivation(lines: ProofLine[]): string[] {
+    return lines.map(line => {
+      const bars = '| '.repeat(line.depth);
+      return `${line.line}. ${bars}${this.formulaToSymbolicString(line.formula)}    ${this.describeJustification(line)}`;
+    });
+  }
+
+  private describeJustification(line: ProofLine): string {
+    if (line.rule === 'premise') {
+      return `premise P${(line.premiseIndex ?? 0) + 1}`;
+    }
+    if (line.rule === 'hypothesis') {
+      return 'hypothesis';
+    }
+    if (line.rule === '∨E' || line.rule === '→I' || line.rule === '¬I') {
+      // Disjunction first for ∨E, then each subproof as a hypothesis-to-result range
+      const sources = line.rule === '∨E' ? line.cites.slice(0, 1) : [];
+      const ranges = line.cites.slice(sources.length);
+      const subproofs: string[] = [];
+      for (let i = 0; i < ranges.length; i += 2) {
+        subproofs.push(ranges[i] === ranges[i + 1] ? `${ranges[i]}` : `${ranges[i]}-${ranges[i + 1]}`);
+      }
+      return `${line.rule} ${[...sources, ...subproofs].join(', ')}`;
+    }
+    return `${line.rule} ${line.cites.join(', ')}`;
+  }
+
+  formulaToNaturalLanguage(formula: LogicFormula, symbolToDescription: Map<string, string>): string {
     if (formula.type === 'atomic') {
       return symbolToDescription.get(formula.predicate || '') || formula.predicate || 'unknown';
     } else if (formula.type === 'compound' && formula.subformulas) {
-      const left = this.formulaToNaturalLanguage(formula.subformulas[0], symbolToDescription);
-      const right = this.formulaToNaturalLanguage(formula.subformulas[1], symbolToDescription);
+      const operand = (sub: LogicFormula) => {
+        const text = this.formulaToNaturalLanguage(sub, symbolToDescription);
+        return this.isBinary(sub) ? `(${text})` : text;
+      };
+      if (formula.operator === 'not') {
+        return `it is not the case that ${operand(formula.subformulas[0])}`;
+      }
+      if (formula.operator === 'top') return 'the trivial truth';
+      if (formula.operator === 'zero') return 'absurdity';
+      const left = operand(formula.subformulas[0]);
+      const right = operand(formula.subformulas[1]);
 
       switch (formula.operator) {
         case 'implies': return `${left} implies ${right}`;
         case 'and': return `${left} and ${right}`;
         case 'or': return `${left} or ${right}`;
+        case 'biconditional': return `${left} if and only if ${right}`;
         default: return `${left} ${formula.operator} ${right}`;
       }
     }
     return formula.naturalLanguage || 'unknown';
   }
 
+  private isBinary(formula: LogicFormula): boolean {
+    return formula.type === 'compound' && formula.operator !== 'not' && formula.operator !== 'top' && formula.operator !== 'zero';
+  }
+
+  /**
+   * Which asserted atoms reach the conclusion along implications, which implications point
+   * the wrong way, and where support runs into a dead end
+   */
+  private describeReachability(report: ReachabilityReport, conclusion: string): any {
+    const edges = Array.from(new Set(report.edges.map(edge => `${edge.from} → ${edge.to}`)));
+
+    return {
+      edges,
+      asserted_atoms: report.asserted,
+      reaching_conclusion: report.reachingConclusion,
+      conclusion_reachable: report.conclusionReachable,
+      wrong_direction: report.wrongDirection.map(({ premiseIndex, implication }) => {
+        const [antecedent, consequent] = implication.subformulas!;
+        return `P${premiseIndex + 1}: ${this.formulaToSymbolicString(implication)} points away from ${conclusion} - did you mean ${this.formulaToSymbolicString(FormulaBuilder.implies(consequent, antecedent))}?`;
+      }),
+      dead_ends: report.deadEnds
+    };
+  }
+
+  /**
+   * Minimal premise sets that still establish the conclusion, premises outside all of them,
+   * and alternative paths when more than one set works. When the search is incomplete only
+   * the sets found so far are listed and no premise is called redundant.
+   */
+  private findRedundancy(
+    premiseFormulas: LogicFormula[],
+    conclusionFormula: LogicFormula,
+    conclusion: string,
+    logic: LogicSystem
+  ): { minimalSets: string[][], redundantPremises: string[] | 'not computed', warnings: string[] } {
+    const label = (index: number) => `P${index + 1}`;
+    const { sets, complete } = FormulaUtils.findMinimalPremiseSets(premiseFormulas, conclusionFormula, logic);
+    if (!complete) {
+      return {
+        minimalSets: sets.map(set => set.map(label)),
+        redundantPremises: 'not computed',
+        warnings: [`INCOMPLETE REDUNDANCY CHECK: The search for minimal premise sets ran out of work or met a check it could not decide under ${logic} logic, so the sets listed may be missing some or not be minimal. SPECIFIC NEXT STEP: Split the argument into smaller steps to check each one for redundant premises.`]
+      };
+    }
+    const needed = new Set(sets.flat());
+    const redundant = premiseFormulas.map((_, index) => index).filter(index => !needed.has(index));
+
+    const warnings = redundant.map(index =>
+      `REDUNDANT PREMISE: ${label(index)} (${this.formulaToSymbolicString(premiseFormulas[index])}) is not needed - ${conclusion} follows without it. Remove it to simplify the argument.`
+    );
+    if (sets.length > 1) {
+      const paths = sets.map(set => set.map(label).join(', '));
+      warnings.push(`REDUNDANT PATH: ${paths.join(' and ')} each establish ${conclusion} on their own. Keep the most specific path and remove the others.`);
+    }
+
+    return {
+      minimalSets: sets.map(set => set.map(label)),
+      redundantPremises: redundant.map(label),
+      warnings
+    };
+  }
+
+  /**
+   * Each exclusion group says at most one of its symbols holds: ¬(A ∧ B) for every pair
+   */
+  private buildExclusions(
+    exclusions: string[][],
+    symbolFormulas: Map<string, LogicFormula>
+  ): { constraints: Array<{ symbols: string[], formula: LogicFormula }>, ignored: string[] } {
+    const constraints: Array<{ symbols: string[], formula: LogicFormula }> = [];
+    const ignored: string[] = [];
+
+    exclusions.forEach(group => {
+      const symbols = Array.from(new Set(group));
+      const undefinedSymbols = symbols.filter(symbol => !symbolFormulas.has(symbol));
+
+      if (undefinedSymbols.length > 0) {
+        ignored.push(`Ignored exclusion [${group.join(', ')}] because '${undefinedSymbols.join(', ')}' is not a defined atom. Use only symbols from your atom_groupings: ${Array.from(symbolFormulas.keys()).join(', ')}.`);
+        return;
+      }
+      if (symbols.length < 2) {
+        ignored.push(`Ignored exclusion [${group.join(', ')}] because it needs at least two different symbols.`);
+        return;
+      }
+
+      const pairs: LogicFormula[] = [];
+      symbols.forEach((first, i) => symbols.slice(i + 1).forEach(second => {
+        pairs.push(FormulaBuilder.not(FormulaBuilder.and(symbolFormulas.get(first)!, symbolFormulas.get(second)!)));
+      }));
+      const formula = pairs.reduce((all, pair) => FormulaBuilder.and(all, pair));
+      constraints.push({ symbols, formula });
+    });
+
+    return { constraints, ignored };
+  }
+
+  /**
+   * Check each hypothetical block against the premises: under its hypothesis the block must
+   * reach what it derives (discharged as hypothesis → derived) or a contradiction (discharged
+   * as ¬hypothesis)
+   */
+  private checkAssumptions(
+    assumptions: HypotheticalAssumption[],
+    premiseFormulas: LogicFormula[],
+    symbolFormulas: Map<string, LogicFormula>,
+    logic: LogicSystem
+  ): { blocks: any[], violations: string[], ignored: string[] } {
+    const blocks: any[] = [];
+    const violations: string[] = [];
+    const ignored: string[] = [];
+
+    assumptions.forEach(({ assume, derive }, index) => {
+      const label = `A${index + 1}`;
+      const hypothesis = this.parsePremise(assume ?? '', symbolFormulas);
+      const target = this.parsePremise(derive ?? '', symbolFormulas);
+      if (!hypothesis.formula || !target.formula) {
+        const error = hypothesis.error || target.error;
+        ignored.push(`Ignored assumption ${label} (assume '${assume}', derive '${derive}'): ${error ? `${error.message}\n${error.snippet}` : 'both assume and derive are required'}`);
+        return;
+      }
+
+      const reductio = target.formula.operator === 'zero';
+      const discharged = reductio
+        ? FormulaBuilder.not(hypothesis.formula)
+        : FormulaBuilder.implies(hypothesis.formula, target.formula);
+      const check = FormulaUtils.checkConsequence(premiseFormulas, discharged, logic);
+
+      const assumed = this.formulaToSymbolicString(hypothesis.formula);
+      const derived = this.formulaToSymbolicString(target.formula);
+      const block: any = {
+        label,
+        assume: assumed,
+        derive: derived,
+        discharged_as: this.formulaToSymbolicString(discharged),
+        rule: reductio ? '¬I' : '→I',
+        holds: check.isValid
+      };
+      const proof = check.derivation?.conclusion;
+      if (proof) {
+        block.derivation = this.renderDerivation(Derivation.toProofLines(proof));
+      }
+      blocks.push(block);
+
+      if (!check.isValid) {
+        violations.push(reductio
+          ? `UNDISCHARGED ASSUMPTION ${label}: assuming ${assumed} does not lead to a contradiction with the premises, so ${block.discharged_as} cannot be concluded. SPECIFIC NEXT STEP: Add the premise that ${assumed} conflicts with, or change what the block derives.`
+          : `UNDISCHARGED ASSUMPTION ${label}: assuming ${assumed}, the premises do not lead to ${derived}, so ${block.discharged_as} cannot be concluded. SPECIFIC NEXT STEP: Add premises that take ${assumed} to ${derived}, or change what the block derives.`);
+      }
+    });
+
+    return { blocks, violations, ignored };
+  }
+
+  /**
+   * Find a minimal set of premises and exclusions that cannot all hold, explained for the
+   * selected logic: a violation where it proves anything, a warning where it is paraconsistent
+   */
+  private findInconsistency(
+    premiseFormulas: LogicFormula[],
+    exclusions: Array<{ symbols: string[], formula: LogicFormula }>,
+    logic: LogicSystem
+  ): { message: string, core: { premises: number[], exclusions: number[] } } | null {
+    const core = FormulaUtils.findInconsistentCore([...premiseFormulas, ...exclusions.map(x => x.formula)]);
+    if (!core) return null;
+
+    const premiseIndices = core.filter(i => i < premiseFormulas.length).map(i => i + 1);
+    const exclusionIndices = core.filter(i => i >= premiseFormulas.length).map(i => i - premiseFormulas.length + 1);
+
+    const parts = [
+      ...premiseIndices.map(i => `P${i} (${this.formulaToSymbolicString(premiseFormulas[i - 1])})`),
+      ...exclusionIndices.map(i => `X${i} (at most one of ${exclusions[i - 1].symbols.join(', ')})`)
+    ];
+
+    const message = PARACONSISTENT_LOGICS.includes(logic)
+      ? `INCONSISTENT PREMISES: ${parts.join(', ')} cannot all hold at once classically - ${logic} logic does not let a contradiction prove every conclusion, so the verdict rests on its own proof. SPECIFIC NEXT STEP: Check that the conflict is intended, or decide which of these is wrong and remove or weaken it.`
+      : `INCONSISTENT PREMISES: ${parts.join(', ')} cannot all hold at once - an inconsistent premise set supports any conclusion, so it supports none. SPECIFIC NEXT STEP: Decide which of these is wrong and remove or weaken it.`;
+
+    return {
+      message,
+      core: { premises: premiseIndices, exclusions: exclusionIndices }
+    };
+  }
+
+  /**
+   * Validate the argument, proving each lemma first on its own; a lemma's conclusion
+   * can be cited as a premise, by name or restated, by later lemmas and the main argument
+   */
   validateSymbolicArgument(
     atom_groupings: Array<{symbol: string, concept_description: string, text_variants: string[]}>,
     premises: string[],
-    conclusion: string
+    conclusion: string,
+    logic: LogicSystem = 'chaining',
+    exclusions: string[][] = [],
+    assumptions: HypotheticalAssumption[] = [],
+    lemmas: ArgumentLemma[] = []
+  ): any {
+    const proven: ProvenLemma[] = [];
+    lemmas.forEach((lemma, index) => {
+      const result = this.validateWithLemmas(atom_groupings, lemma.premises ?? [], lemma.conclusion ?? '', logic, exclusions, [], proven);
+      proven.push({ name: lemma.name || `L${index + 1}`, conclusion: lemma.conclusion ?? '', result });
+    });
+
+    const result = this.validateWithLemmas(atom_groupings, premises, conclusion, logic, exclusions, assumptions, proven);
+    if (proven.length === 0) return result;
+
+    result.lemmas = proven.map(lemma => ({
+      name: lemma.name,
+      conclusion: lemma.conclusion,
+      validation_result: lemma.result.validation_result,
+      premises: lemma.result.symbolic_argument?.premises ?? [],
+      ...(lemma.result.validation_result === 'VALID'
+        ? { derivation: lemma.result.argument_for_presentation?.derivation }
+        : { violations: lemma.result.validation_details?.violations ?? [lemma.result.message] })
+    }));
+
+    // A lemma nothing cites does not contribute to the conclusion
+    const cited = new Set([result, ...proven.map(lemma => lemma.result)]
+      .flatMap(r => Object.values(r.validation_details?.cited_lemmas ?? {}) as string[]));
+    const unused = proven.filter(lemma => !cited.has(lemma.name));
+    if (unused.length > 0) {
+      result.warnings = [
+        ...(result.warnings ?? []),
+        ...unused.map(lemma => `UNUSED LEMMA: ${lemma.name} (${lemma.conclusion}) is not cited by the main argument or a later lemma. Cite it as a premise or remove it.`)
+      ];
+    }
+
+    if (result.argument_for_presentation) {
+      result.argument_for_presentation.tree = this.renderArgumentTree(result, proven);
+    }
+    return result;
+  }
+
+  /**
+   * Render the argument and the lemmas its premises cite as an indented tree
+   */
+  private renderArgumentTree(result: any, proven: ProvenLemma[], prefix: string = ''): string[] {
+    const lines = prefix === '' ? [result.symbolic_argument.conclusion] : [];
+    const premises: string[] = result.symbolic_argument?.premises ?? [];
+    const citations: Record<string, string> = result.validation_details?.cited_lemmas ?? {};
+
+    premises.forEach((premise, index) => {
+      const last = index === premises.length - 1;
+      const lemma = proven.find(l => l.name === citations[`P${index + 1}`]);
+      lines.push(`${prefix}${last ? '└── ' : '├── '}${premise}${lemma ? `    [${lemma.name}]` : ''}`);
+      if (lemma) {
+        lines.push(...this.renderArgumentTree(lemma.result, proven, `${prefix}${last ? '    ' : '│   '}`));
+      }
+    });
+    return lines;
+  }
+
+  private validateWithLemmas(
+    atom_groupings: Array<{symbol: string, concept_description: string, text_variants: string[]}>,
+    premises: string[],
+    conclusion: string,
+    logic: LogicSystem,
+    exclusions: string[][],
+    assumptions: HypotheticalAssumption[],
+    lemmas: ProvenLemma[]
   ): any {
     try {
       // Create symbol-to-formula mapping
@@ -194,41 +488,57 @@ export class AtomicReasonModule {
         symbolFormulas.set(group.symbol, FormulaBuilder.atomic(group.symbol, [], group.concept_description));
       });
 
-      // Get conclusion formula
-      const conclusionFormula = symbolFormulas.get(conclusion);
+      // The conclusion is a single atom or a formula over the atoms, in the premise format
+      const { formula: conclusionFormula, error: conclusionError } = this.parsePremise(conclusion, symbolFormulas);
       if (!conclusionFormula) {
         return {
           validation_result: "ERROR",
-          message: `Conclusion '${conclusion}' not found in atom_groupings`
+          message: conclusionError?.code === 'UNDEFINED_SYMBOL' && conclusionError.token === conclusion.trim()
+            ? `Conclusion '${conclusion}' not found in atom_groupings`
+            : `Conclusion '${conclusion}' could not be parsed: ${conclusionError?.message ?? 'it is empty'}${conclusionError ? `\n${conclusionError.snippet}` : ''}`
         };
       }
 
       // Parse premises into formulas
       const premiseFormulas: LogicFormula[] = [];
       const ignoredPremises: string[] = [];
+      const parseErrors: PremiseParseError[] = [];
       const availableSymbols = atom_groupings.map(g => g.symbol);
 
+      // Premises that restate or name an earlier lemma's conclusion cite that lemma
+      const citations = new Map<number, ProvenLemma>();
+      const lemmaKeys = new Map(lemmas.map(lemma => {
+        const formula = this.parsePremise(lemma.conclusion, symbolFormulas).formula;
+        return [lemma.name, formula ? FormulaUtils.toString(formula) : null];
+      }));
+
       premises.forEach(premise => {
-        const formula = this.parsePremiseString(premise, symbolFormulas);
+        const named = lemmas.find(lemma => lemma.name === premise.trim() && !symbolFormulas.has(lemma.name));
+        const { formula, error } = this.parsePremise(named ? named.conclusion : premise, symbolFormulas);
         if (formula) {
+          const cited = named ?? lemmas.find(lemma => lemmaKeys.get(lemma.name) === FormulaUtils.toString(formula));
+          if (cited) citations.set(premiseFormulas.length, cited);
           premiseFormulas.push(formula);
-        } else {
-          // Check if premise contains undefined symbols
+          return;
+        }
+        if (!error) return;
+        parseErrors.push(error);
+
+        if (error.code === 'UNDEFINED_SYMBOL') {
+          // Name every undefined symbol at once, not just the first one the parser reached
           const referencedSymbols = this.extractSymbolsFromString(premise);
           const undefinedSymbols = referencedSymbols.filter(sym => !availableSymbols.includes(sym));
-
-          if (undefinedSymbols.length > 0) {
-            ignoredPremises.push(`Ignored premise '${premise}' because '${undefinedSymbols.join(', ')}' is not a defined atom. Use only symbols from your atom_groupings: ${availableSymbols.join(', ')}.`);
-          } else {
-            ignoredPremises.push(`Failed to parse premise: '${premise}' - check syntax.`);
-          }
+          const reported = undefinedSymbols.length > 0 ? undefinedSymbols.join(', ') : error.token;
+          ignoredPremises.push(`Ignored premise '${premise}' because '${reported}' is not a defined atom. Use only symbols from your atom_groupings: ${availableSymbols.join(', ')}.`);
+        } else {
+          ignoredPremises.push(`Ignored premise '${premise}': ${error.message}\n${error.snippet}`);
         }
       });
 
       // Check 1: Empty premises error
       if (premiseFormulas.length === 0) {
         const symbolExamples = availableSymbols.slice(0, 2);
-        const baseMessage = `No valid premises provided. You must create premises using your atom symbols.\n\nAvailable symbols: ${availableSymbols.join(', ')}\n\nPremise formats and their logical parsing:\n- Standalone: "${symbolExamples[0]}" → atomic(${symbolExamples[0]})\n- Conjunction: "${symbolExamples[0]} && ${symbolExamples[1] || 'SYMBOL'}" → and(${symbolExamples[0]}, ${symbolExamples[1] || 'SYMBOL'})\n- Disjunction: "${symbolExamples[0]} || ${symbolExamples[1] || 'SYMBOL'}" → or(${symbolExamples[0]}, ${symbolExamples[1] || 'SYMBOL'})\n- Implication: "${symbolExamples[0]} -> ${symbolExamples[1] || 'SYMBOL'}" → implies(${symbolExamples[0]}, ${symbolExamples[1] || 'SYMBOL'})\n- UNKNOWN: "${symbolExamples[0]} enables ${conclusion}" → implies(${symbolExamples[0]}, ${conclusion})\n\nExample: ["${symbolExamples[0]}", "${symbolExamples[0]} -> ${conclusion}"]`;
+        const baseMessage = `No valid premises provided. You must create premises using your atom symbols.\n\nAvailable symbols: ${availableSymbols.join(', ')}\n\nPremise formats and their logical parsing:\n- Standalone: "${symbolExamples[0]}" → atomic(${symbolExamples[0]})\n- Conjunction: "${symbolExamples[0]} && ${symbolExamples[1] || 'SYMBOL'}" → and(${symbolExamples[0]}, ${symbolExamples[1] || 'SYMBOL'})\n- Disjunction: "${symbolExamples[0]} || ${symbolExamples[1] || 'SYMBOL'}" → or(${symbolExamples[0]}, ${symbolExamples[1] || 'SYMBOL'})\n- Implication: "${symbolExamples[0]} -> ${symbolExamples[1] || 'SYMBOL'}" → implies(${symbolExamples[0]}, ${symbolExamples[1] || 'SYMBOL'})\n- Negation: "!${symbolExamples[0]}" or "not ${symbolExamples[0]}" → not(${symbolExamples[0]})\n- Nested: "(${symbolExamples[0]} || ${symbolExamples[1] || 'SYMBOL'}) && ${symbolExamples[0]} -> ${conclusion}" → implies(and(or(...), ...), ${conclusion}) - parentheses group; ¬ binds tightest, then ∧, ∨, →, ↔\n- UNKNOWN: "${symbolExamples[0]} enables ${conclusion}" → implies(${symbolExamples[0]}, ${conclusion})\n\nExample: ["${symbolExamples[0]}", "${symbolExamples[0]} -> ${conclusion}"]`;
 
         const fullMessage = ignoredPremises.length > 0
           ? `${baseMessage}\n\nIGNORED PREMISES:\n${ignoredPremises.join('\n')}`
@@ -250,37 +560,139 @@ export class AtomicReasonModule {
           },
           available_symbols: availableSymbols,
           required_action: "Add premises array using your exact symbols in supported formats",
-          ignored_premises: ignoredPremises
+          ignored_premises: ignoredPremises,
+          parse_errors: parseErrors
         };
       }
 
       // Note: Circular reasoning detection is handled by FormulaUtils.validate()
 
-      // Validate using existing logic
-      const validation = FormulaUtils.validate(premiseFormulas, conclusionFormula);
+      const { constraints: exclusionFormulas, ignored: ignoredExclusions } = this.buildExclusions(exclusions, symbolFormulas);
+
+      // A connected argument must still actually prove its conclusion in the selected logic
+      const validation = FormulaUtils.validate(premiseFormulas, conclusionFormula, logic);
+      const proof = validation.derivation?.conclusion;
+      const tableau = validation.tableau;
+
+      // Premises that cannot all hold would prove anything in an explosive logic, so they are never
+      // acceptable there; a paraconsistent logic keeps its own verdict and only warns
+      const inconsistency = this.findInconsistency(premiseFormulas, exclusionFormulas, logic);
+      const paraconsistent = PARACONSISTENT_LOGICS.includes(logic);
+      if (inconsistency && !paraconsistent) {
+        validation.isValid = false;
+        validation.violatedConstraints = [inconsistency.message, ...validation.violatedConstraints];
+      }
+
+      // Every hypothetical block must discharge, whether or not the conclusion needs it
+      const hypotheticals = this.checkAssumptions(assumptions, premiseFormulas, symbolFormulas, logic);
+      if (hypotheticals.violations.length > 0) {
+        validation.isValid = false;
+        validation.violatedConstraints = [...hypotheticals.violations, ...validation.violatedConstraints];
+      }
+
+      // A premise that cites a lemma stands only if the lemma does
+      const unproven = Array.from(citations.entries()).filter(([, lemma]) => lemma.result.validation_result !== 'VALID');
+      if (unproven.length > 0) {
+        validation.isValid = false;
+        validation.violatedConstraints = [
+          ...unproven.map(([index, lemma]) => `UNPROVEN LEMMA: P${index + 1} cites lemma ${lemma.name} (${lemma.conclusion}), which is ${lemma.result.validation_result} - a premise is only as strong as the lemma that establishes it. SPECIFIC NEXT STEP: Fix ${lemma.name} first, or support P${index + 1} directly.`),
+          ...validation.violatedConstraints
+        ];
+      }
+
+      // Name the invalid form, when there is one, ahead of the checker's own explanation
+      const fallacies = validation.isValid ? [] : FallacyChecker.detect(premiseFormulas, conclusionFormula);
+      validation.violatedConstraints = [...fallacies.map(f => f.message), ...validation.violatedConstraints];
 
       const result: any = {
         validation_result: validation.isValid ? "VALID" : "INVALID",
         symbolic_argument: {
           premises: premiseFormulas.map((f, i) => `P${i + 1}: ${this.formulaToSymbolicString(f)}`),
-          conclusion: `C: ${conclusion}`
+          ...(exclusionFormulas.length > 0 && {
+            exclusions: exclusionFormulas.map((x, i) => `X${i + 1}: at most one of ${x.symbols.join(', ')}`)
+          }),
+          ...(hypotheticals.blocks.length > 0 && {
+            assumptions: hypotheticals.blocks.map(b => `${b.label}: assume ${b.assume} ⊢ ${b.derive}, discharged as ${b.discharged_as}`)
+          }),
+          conclusion: `C: ${this.formulaToSymbolicString(conclusionFormula)}`
         },
         symbol_definitions: Object.fromEntries(
           atom_groupings.map(g => [g.symbol, g.concept_description])
         ),
         validation_details: {
-          connected_components: validation.isValid ? 1 : "multiple",
-          violations: validation.violatedConstraints || []
+          connected_components: validation.structurallyValid ? 1 : "multiple",
+          derivable: validation.isValid,
+          logic,
+          violations: validation.violatedConstraints || [],
+          reachability: this.describeReachability(ImplicationGraph.analyze(premiseFormulas, conclusionFormula), conclusion)
         },
         atom_groupings: atom_groupings
       };
 
+      if (inconsistency) {
+        result.validation_details.inconsistent_premises = inconsistency.core;
+        if (paraconsistent) {
+          result.warnings = [inconsistency.message];
+        }
+      }
+
+      if (fallacies.length > 0) {
+        result.validation_details.fallacies = fallacies.map(f => ({
+          kind: f.kind,
+          premises: f.premises.map(index => `P${index + 1}`)
+        }));
+      }
+
+      if (hypotheticals.blocks.length > 0) {
+        result.validation_details.assumptions = hypotheticals.blocks;
+      }
+
+      if (citations.size > 0) {
+        result.validation_details.cited_lemmas = Object.fromEntries(
+          Array.from(citations.entries()).map(([index, lemma]) => [`P${index + 1}`, lemma.name])
+        );
+      }
+
+      if (ignoredExclusions.length > 0) {
+        result.ignored_exclusions = ignoredExclusions;
+      }
+
+      if (hypotheticals.ignored.length > 0) {
+        result.ignored_assumptions = hypotheticals.ignored;
+      }
+
+      // A countermodel shows exactly which situation the premises fail to rule out
+      if (validation.countermodel) {
+        result.validation_details.countermodel = validation.countermodel;
+      }
+
+      if (tableau) {
+        result.validation_details.relevance_tableau = {
+          status: tableau.status,
+          ...(tableau.status === 'proved' && (tableau.naturalDeduction
+            ? { natural_deduction: tableau.naturalDeduction }
+            : { closed_tableau: tableau.tableau })),
+          ...(tableau.openBranch && { open_branch: tableau.openBranch })
+        };
+      }
+
       // Add ignored premises info if any were ignored
       if (ignoredPremises.length > 0) {
         result.ignored_premises = ignoredPremises;
+        result.parse_errors = parseErrors;
         result.message = `${ignoredPremises.length} premise(s) were ignored:\n${ignoredPremises.join('\n')}\n\nOnly symbols from atom_groupings can be used. If you need new symbols, use earlier steps to produce them.`;
       }
 
+      // A valid argument should not carry premises or whole paths it does not need
+      if (validation.isValid) {
+        const redundancy = this.findRedundancy(premiseFormulas, conclusionFormula, conclusion, logic);
+        result.validation_details.minimal_premise_sets = redundancy.minimalSets;
+        result.validation_details.redundant_premises = redundancy.redundantPremises;
+        if (redundancy.warnings.length > 0) {
+          result.warnings = [...(result.warnings ?? []), ...redundancy.warnings];
+        }
+      }
+
       // If validation is successful, generate argument for presentation
       if (validation.isValid) {
         result.argument_for_presentation = this.generateNaturalLanguageArgument(
@@ -288,6 +700,18 @@ export class AtomicReasonModule {
           conclusionFormula,
           atom_groupings
         );
+
+        if (proof) {
+          const proofLines = Derivation.toProofLines(proof);
+          result.derivation = proofLines.map(line => ({
+            line: line.line,
+            formula: this.formulaToSymbolicString(line.formula),
+            rule: line.rule,
+            cites: line.cites,
+            depth: line.depth
+          }));
+          result.argument_for_presentation.derivation = this.renderDerivation(proofLines);
+        }
       }
 
       return result;
@@ -0,0 +1,95 @@
+/**
+ * Bridge Finder Module
+ * Proposes the fewest new implications that would make a failing argument's conclusion derivable
+ *
+ * Candidate bridges run from what the premises already establish (a non-implication premise as a
+ * whole, or an established atom) to what the argument is missing (the conclusion, one of its
+ * atoms, or the antecedent of an implication that never fires). Sets of candidates are tried in
+ * order of size, and a set is kept only when no smaller kept set is contained in it.
+ */
+
+import { FormulaBuilder, FormulaUtils } from "./formula.js";
+import { Derivation } from "./derivation.js";
+import { LogicFormula, LogicSystem, BridgeLink, BridgeSuggestion } from "../types.js";
+
+// Largest number of new implications a single suggestion may add
+const MAX_LINKS = 2;
+// Suggestions returned, best first
+const MAX_SUGGESTIONS = 5;
+
+export class BridgeFinder {
+
+  /**
+   * Bridges are checked in the selected logic; first-degree entailment has no implication to
+   * state one with, so it gets no suggestions
+   */
+  static suggest(premises: LogicFormula[], conclusion: LogicFormula, logic: LogicSystem = 'chaining'): BridgeSuggestion[] {
+    if (logic === 'first_degree_entailment') return [];
+    if (FormulaUtils.checkConsequence(premises, conclusion, logic).isValid) return [];
+
+    const candidates = this.candidateLinks(premises, conclusion);
+    const suggestions: BridgeSuggestion[] = [];
+
+    const covers = (links: BridgeLink[]) =>
+      suggestions.some(found => found.links.every(link => links.includes(link)));
+    const works = (links: BridgeLink[]) =>
+      FormulaUtils.checkConsequence([...premises, ...links.map(link => link.implication)], conclusion, logic).isValid;
+
+    for (let size = 1; size <= MAX_LINKS && suggestions.length < MAX_SUGGESTIONS; size++) {
+      for (const links of this.combinations(candidates, size)) {
+        if (suggestions.length >= MAX_SUGGESTIONS) break;
+        if (covers(links) || !works(links)) continue;
+        suggestions.push({ links });
+      }
+    }
+
+    return suggestions;
+  }
+
+  private static candidateLinks(premises: LogicFormula[], conclusion: LogicFormula): BridgeLink[] {
+    const established = Derivation.derive(premises, conclusion).established;
+    const establishedKeys = new Set(established.map(f => FormulaUtils.toString(f)));
+
+    const sources: Array<{ formula: LogicFormula; fromPremise?: number }> = [];
+    premises.forEach((premise, index) => {
+      if (premise.operator !== 'implies' && premise.operator !== 'biconditional') {
+        sources.push({ formula: premise, fromPremise: index });
+      }
+    });
+    established
+      .filter(formula => formula.type === 'atomic')
+      .forEach(formula => sources.push({ formula }));
+
+    const targets: LogicFormula[] = [conclusion, ...FormulaUtils.extractAtomicFormulas(conclusion)];
+    premises.forEach(premise => {
+      if (premise.operator === 'implies' && premise.subformulas) {
+        targets.push(premise.subformulas[0]);
+      }
+    });
+
+    const existing = new Set(premises.map(p => FormulaUtils.toString(p)));
+    const seen = new Set<string>();
+    const links: BridgeLink[] = [];
+
+    // Chaining can establish a conclusion the selected logic rejects, so the conclusion always stays a target
+    targets
+      .filter((target, index) => index === 0 || !establishedKeys.has(FormulaUtils.toString(target)))
+      .forEach(target => sources.forEach(({ formula, fromPremise }) => {
+        if (FormulaUtils.toString(formula) === FormulaUtils.toString(target)) return;
+        const implication = FormulaBuilder.implies(formula, target);
+        const key = FormulaUtils.toString(implication);
+        if (existing.has(key) || seen.has(key)) return;
+        seen.add(key);
+        links.push({ implication, ...(fromPremise !== undefined && { fromPremise }) });
+      }));
+
+    return links;
+  }
+
+  private static combinations<T>(items: T[], size: number): T[][] {
+    if (size === 0) return [[]];
+    return items.flatMap((item, index) =>
+      this.combinations(items.slice(index + 1), size - 1).map(rest => [item, ...rest])
+    );
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Countermodel Module
+ * Finds classical, four-valued and Sugihara assignments in which every premise holds and the conclusion fails
+ */
+
+import { FormulaUtils } from "./formula.js";
+import { LogicFormula, Countermodel, FourValue } from "../types.js";
+
+// Truth-table search doubles with every atom; beyond this we give up
+const MAX_ATOMS = 16;
+// Four-valued search quadruples with every atom
+const MAX_FOUR_VALUED_ATOMS = 8;
+
+const FOUR_VALUES: FourValue[] = ['false', 'neither', 'both', 'true'];
+
+// Sugihara chains searched for relevant countermodels, smallest first
+const SUGIHARA_CHAINS = [[-1, 0, 1], [-2, -1, 1, 2]];
+
+// A Belnap–Dunn value as the pair (told true, told false)
+interface Told {
+  true: boolean;
+  false: boolean;
+}
+
+export class CountermodelFinder {
+
+  /**
+   * Search assignments in order of fewest true atoms, so the countermodel
+   * only makes true what the premises force
+   */
+  static classical(premises: LogicFormula[], conclusion: LogicFormula): Countermodel | null {
+    const atoms = this.collectAtoms([...premises, conclusion]);
+    if (atoms.length > MAX_ATOMS) return null;
+
+    const assignments = Array.from({ length: 2 ** atoms.length }, (_, mask) => mask)
+      .sort((a, b) => this.countBits(a) - this.countBits(b) || a - b);
+
+    for (const mask of assignments) {
+      const assignment = new Map<string, boolean>();
+      atoms.forEach((atom, index) => assignment.set(atom, (mask & (1 << index)) !== 0));
+
+      if (premises.every(p => this.evaluate(p, assignment)) && !this.evaluate(conclusion, assignment)) {
+        const values = Object.fromEntries(assignment);
+        return {
+          logic: 'classical',
+          assignment: values,
+          explanation: `Every premise is true and ${FormulaUtils.toString(conclusion)} is false when ${this.describeAssignment(values)}. Add a premise that rules out this situation.`
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether some classical assignment makes every formula true, or null when there are too many atoms to search
+   */
+  static satisfiable(formulas: LogicFormula[]): boolean | null {
+    const atoms = this.collectAtoms(formulas);
+    if (atoms.length > MAX_ATOMS) return null;
+
+    for (let mask = 0; mask < 2 ** atoms.length; mask++) {
+      const assignment = new Map<string, boolean>();
+      atoms.forEach((atom, index) => assignment.set(atom, (mask & (1 << index)) !== 0));
+      if (formulas.every(f => this.evaluate(f, assignment))) return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * First-degree entailment: search Belnap–Dunn valuations in which every premise is
+   * told true and the conclusion is not, trying the fewest non-classical values first
+   */
+  static firstDegree(premises: LogicFormula[], conclusion: LogicFormula): Countermodel | null {
+    const atoms = this.collectAtoms([...premises, conclusion]);
+    if (atoms.length > MAX_FOUR_VALUED_ATOMS) return null;
+
+    const valuations = Array.from({ length: 4 ** atoms.length }, (_, code) => atoms.map((_, index) =>
+      FOUR_VALUES[Math.floor(code / 4 ** index) % 4]
+    ));
+    const gluts = (values: FourValue[]) => values.filter(value => value === 'both' || value === 'neither').length;
+    valuations.sort((a, b) => gluts(a) - gluts(b));
+
+    for (const values of valuations) {
+      const valuation = new Map<string, FourValue>();
+      atoms.forEach((atom, index) => valuation.set(atom, values[index]));
+
+      if (premises.every(p => this.evaluateFourValued(p, valuation).true) && !this.evaluateFourValued(conclusion, valuation).true) {
+        const normalWorld = Object.fromEntries(valuation);
+        return {
+          logic: 'first_degree_entailment',
+          normalWorld,
+          explanation: `Every premise is told true and ${FormulaUtils.toString(conclusion)} is not when ${this.describeAssignment(normalWorld)}. Add a premise that rules out this situation.`
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Relevant consequence: search valuations in Sugihara chains under which every premise is at
+   * least the identity e and the conclusion is not. The chains are models of RM, which contains
+   * R and E, so such a valuation refutes the argument in both. It is read back as a Routley–Meyer
+   * model whose worlds are the prime filters ↑k of the chain, with R(↑a, ↑b, ↑c) iff a ∘ b ≥ c
+   * and ↑a* = ↑b for the least b above -a; the normal world 0 is ↑e.
+   */
+  static sugihara(premises: LogicFormula[], conclusion: LogicFormula, logic: 'relevant' | 'entailment'): Countermodel | null {
+    const atoms = this.collectAtoms([...premises, conclusion]);
+    if (atoms.length > MAX_FOUR_VALUED_ATOMS) return null;
+
+    for (const chain of SUGIHARA_CHAINS) {
+      const identity = chain.find(value => value >= 0)!;
+      for (let code = 0; code < chain.length ** atoms.length; code++) {
+        const valuation = new Map<string, number>();
+        atoms.forEach((atom, index) => valuation.set(atom, chain[Math.floor(code / chain.length ** index) % chain.length]));
+
+        if (premises.every(p => this.evaluateSugihara(p, valuation, chain) >= identity) &&
+          this.evaluateSugihara(conclusion, valuation, chain) < identity) {
+          return this.primeFilterModel(conclusion, valuation, chain, logic);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Evaluate a formula in a Sugihara chain: conjunction and disjunction are min and max,
+   * negation is -a, and a → b is max(-a, b) when a ≤ b and min(-a, b) otherwise
+   */
+  static evaluateSugihara(formula: LogicFormula, valuation: Map<string, number>, chain: number[]): number {
+    if (formula.type === 'atomic' || !formula.subformulas || formula.operator === 'forall' || formula.operator === 'exists') {
+      return valuation.get(FormulaUtils.toString(formula)) ?? chain[0];
+    }
+
+    const [first, second] = formula.subformulas.map(sub => this.evaluateSugihara(sub, valuation, chain));
+    const implies = (a: number, b: number) => a <= b ? Math.max(-a, b) : Math.min(-a, b);
+
+    switch (formula.operator) {
+      case 'not':
+        return -first;
+      case 'and':
+        return Math.min(first, second);
+      case 'or':
+        return Math.max(first, second);
+      case 'implies':
+        return implies(first, second);
+      case 'biconditional':
+        return Math.min(implies(first, second), implies(second, first));
+      case 'top':
+        return chain[chain.length - 1];
+      case 'zero':
+        return chain[0];
+      default:
+        return chain[0];
+    }
+  }
+
+  /**
+   * The Routley–Meyer model of the prime filters of a Sugihara chain. The whole chain is left out,
+   * and so is the empty filter that is its star, as ⊤ holds and ⊥ fails at every world.
+   */
+  private static primeFilterModel(
+    conclusion: LogicFormula,
+    valuation: Map<string, number>,
+    chain: number[],
+    logic: 'relevant' | 'entailment'
+  ): Countermodel {
+    const identity = chain.find(value => value >= 0)!;
+    const filters = chain.slice(1);
+    const star = (k: number) => chain.find(value => value > -k)!;
+    // a ∘ b is ¬(a → ¬b)
+    const fuse = (a: number, b: number) => a + b <= 0 ? Math.min(a, b) : Math.max(a, b);
+
+    // The normal world is 0, and each other pair of a filter and its star is n and n*
+    const names = new Map<number, string>([[identity, '0']]);
+    if (star(identity) !== identity) names.set(star(identity), '0*');
+    let next = 1;
+    filters.forEach(k => {
+      if (names.has(k)) return;
+      names.set(k, `${next}`);
+      if (star(k) !== k) names.set(star(k), `${next}*`);
+      next++;
+    });
+    const worlds = filters.map(k => names.get(k)!).sort();
+
+    const relations = filters.flatMap(a => filters.flatMap(b => filters
+      .filter(c => fuse(a, b) >= c)
+      .map(c => `R(${names.get(a)}, ${names.get(b)}, ${names.get(c)})`)));
+
+    const atomValuation: Record<string, string[]> = Object.fromEntries(filters.map(k => [
+      names.get(k)!,
+      Array.from(valuation.entries()).filter(([, value]) => value >= k).map(([atom]) => atom).sort()
+    ]));
+
+    // ¬p holds at 0 exactly when -v(p) ≥ e, giving each atom a Belnap–Dunn value at 0
+    const normalWorld: Record<string, FourValue> = {};
+    Array.from(valuation.keys()).sort().forEach(atom => {
+      const told = valuation.get(atom)! >= identity;
+      const toldFalse = -valuation.get(atom)! >= identity;
+      normalWorld[atom] = told && toldFalse ? 'both' : told ? 'true' : toldFalse ? 'false' : 'neither';
+    });
+    const values = Object.entries(normalWorld).map(([atom, value]) => `${atom} is ${value}`).join(', ');
+
+    return {
+      logic,
+      worlds,
+      relations,
+      valuation: atomValuation,
+      normalWorld,
+      explanation: `Every premise holds at the normal world 0 while ${FormulaUtils.toString(conclusion)} fails there${values ? ` (at 0: ${values})` : ''}. Add a premise that rules out this situation.`
+    };
+  }
+
+  /**
+   * Whether the premises and conclusion have too many atoms for exhaustive search
+   */
+  static exceedsSearchBound(formulas: LogicFormula[], logic: 'classical' | 'first_degree_entailment'): boolean {
+    const bound = logic === 'classical' ? MAX_ATOMS : MAX_FOUR_VALUED_ATOMS;
+    return this.collectAtoms(formulas).length > bound;
+  }
+
+  /**
+   * Evaluate a formula classically; quantified formulas are treated as opaque atoms
+   */
+  static evaluate(formula: LogicFormula, assignment: Map<string, boolean>): boolean {
+    if (formula.type === 'atomic' || !formula.subformulas || formula.operator === 'forall' || formula.operator === 'exists') {
+      return assignment.get(FormulaUtils.toString(formula)) ?? false;
+    }
+
+    const [first, second] = formula.subformulas;
+
+    switch (formula.operator) {
+      case 'not':
+        return !this.evaluate(first, assignment);
+      case 'and':
+        return this.evaluate(first, assignment) && this.evaluate(second, assignment);
+      case 'or':
+        return this.evaluate(first, assignment) || this.evaluate(second, assignment);
+      case 'implies':
+        return !this.evaluate(first, assignment) || this.evaluate(second, assignment);
+      case 'biconditional':
+        return this.evaluate(first, assignment) === this.evaluate(second, assignment);
+      case 'top':
+        return true;
+      case 'zero':
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Evaluate a first-degree formula in Belnap–Dunn four-valued logic;
+   * implications have no four-valued reading and are never told anything
+   */
+  static evaluateFourValued(formula: LogicFormula, valuation: Map<string, FourValue>): Told {
+    if (formula.type === 'atomic' || !formula.subformulas || formula.operator === 'forall' || formula.operator === 'exists') {
+      const value = valuation.get(FormulaUtils.toString(formula)) ?? 'neither';
+      return { true: value === 'true' || value === 'both', false: value === 'false' || value === 'both' };
+    }
+
+    const [first, second] = formula.subformulas.map(sub => this.evaluateFourValued(sub, valuation));
+
+    switch (formula.operator) {
+      case 'not':
+        return { true: first.false, false: first.true };
+      case 'and':
+        return { true: first.true && second.true, false: first.false || second.false };
+      case 'or':
+        return { true: first.true || second.true, false: first.false && second.false };
+      case 'top':
+        return { true: true, false: false };
+      case 'zero':
+        return { true: false, false: true };
+      default:
+        return { true: false, false: false };
+    }
+  }
+
+  static describeAssignment(assignment: Record<string, boolean | string>): string {
+    return Object.entries(assignment).map(([atom, value]) => `${atom} is ${value}`).join(', ');
+  }
+
+  private static collectAtoms(formulas: LogicFormula[]): string[] {
+    const atoms = new Set<string>();
+
+    const visit = (formula: LogicFormula) => {
+      if (formula.type === 'atomic' || !formula.subformulas || formula.operator === 'forall' || formula.operator === 'exists') {
+        atoms.add(FormulaUtils.toString(formula));
+        return;
+      }
+      formula.subformulas.forEach(visit);
+    };
+
+    formulas.forEach(visit);
+    return Array.from(atoms);
+  }
+
+  private static countBits(mask: number): number {
+    let count = 0;
+    for (let bits = mask; bits > 0; bits >>= 1) {
+      count += bits & 1;
+    }
+    return count;
+  }
+}
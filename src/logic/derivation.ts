@@ -0,0 +1,347 @@
+/**
+ * Derivation Module
+ * Forward-chaining proof search for the propositional fragment used by atomic reasoning
+ */
+
+import { FormulaBuilder, FormulaUtils } from "./formula.js";
+import { LogicFormula, DerivationStep, DerivationResult, ProofLine } from "../types.js";
+
+// How many proof-by-cases splits may be nested inside one another
+const MAX_CASE_DEPTH = 3;
+
+export class Derivation {
+
+  /**
+   * Try to derive the conclusion from the premises using modus ponens,
+   * adjunction, simplification, addition, proof by cases, conditional proof,
+   * reductio and the biconditional and unit rules.
+   * Only subformulas of the premises and conclusion are ever introduced,
+   * so the search always terminates.
+   */
+  static derive(premises: LogicFormula[], conclusion: LogicFormula): DerivationResult {
+    const interest = this.collectSubformulas([...premises, conclusion]);
+    const known = new Map<string, DerivationStep>();
+
+    premises.forEach((premise, index) => {
+      const key = FormulaUtils.toString(premise);
+      if (!known.has(key)) {
+        known.set(key, { formula: premise, rule: 'premise', from: [], premiseIndex: index });
+      }
+    });
+
+    this.saturate(known, interest, new Set(), 0);
+
+    const conclusionStep = known.get(FormulaUtils.toString(conclusion));
+    return {
+      derivable: conclusionStep !== undefined,
+      conclusion: conclusionStep,
+      established: Array.from(known.values()).map(step => step.formula)
+    };
+  }
+
+  /**
+   * Flatten a derivation into numbered proof lines, premises first and the conclusion last.
+   * Hypotheses open a nested subproof; the ∨E line cites the disjunction and both subproofs,
+   * and the →I and ¬I lines cite the subproof they discharge.
+   */
+  static toProofLines(conclusion: DerivationStep): ProofLine[] {
+    const lines: ProofLine[] = [];
+    const scope = new Map<DerivationStep, number>();
+
+    const premises = new Set<DerivationStep>();
+    const collectPremises = (step: DerivationStep) => {
+      if (step.rule === 'premise') premises.add(step);
+      step.from.forEach(collectPremises);
+      step.cases?.forEach(c => collectPremises(c.result));
+    };
+    collectPremises(conclusion);
+
+    Array.from(premises)
+      .sort((a, b) => (a.premiseIndex ?? 0) - (b.premiseIndex ?? 0))
+      .forEach(premise => this.emitLine(premise, scope, 0, lines));
+
+    this.emitLine(conclusion, scope, 0, lines);
+    return lines;
+  }
+
+  private static emitLine(step: DerivationStep, scope: Map<DerivationStep, number>, depth: number, lines: ProofLine[]): number {
+    const existing = scope.get(step);
+    if (existing !== undefined) return existing;
+
+    const cites = step.from.map(source => this.emitLine(source, scope, depth, lines));
+
+    step.cases?.forEach(({ hypothesis, result }) => {
+      // Lines inside a subproof are not available once it closes
+      const caseScope = new Map(scope);
+      const opened = this.pushLine(lines, { formula: hypothesis.formula, rule: 'hypothesis', cites: [], depth: depth + 1 });
+      caseScope.set(hypothesis, opened);
+      const closed = this.emitLine(result, caseScope, depth + 1, lines);
+      cites.push(opened, closed);
+    });
+
+    const line = this.pushLine(lines, {
+      formula: step.formula,
+      rule: step.rule,
+      cites,
+      depth,
+      premiseIndex: step.premiseIndex
+    });
+    scope.set(step, line);
+    return line;
+  }
+
+  private static pushLine(lines: ProofLine[], line: Omit<ProofLine, 'line'>): number {
+    const number = lines.length + 1;
+    lines.push({ line: number, ...line });
+    return number;
+  }
+
+  /**
+   * Collect every subformula, keyed by its canonical string form
+   */
+  private static collectSubformulas(formulas: LogicFormula[]): Map<string, LogicFormula> {
+    const subformulas = new Map<string, LogicFormula>();
+
+    const visit = (formula: LogicFormula) => {
+      const key = FormulaUtils.toString(formula);
+      if (subformulas.has(key)) return;
+      subformulas.set(key, formula);
+      formula.subformulas?.forEach(visit);
+    };
+
+    formulas.forEach(visit);
+    return subformulas;
+  }
+
+  /**
+   * Apply rules until nothing new can be derived
+   */
+  private static saturate(
+    known: Map<string, DerivationStep>,
+    interest: Map<string, LogicFormula>,
+    split: Set<string>,
+    depth: number
+  ): void {
+    let changed = true;
+    while (changed) {
+      changed = this.applyEliminationRules(known);
+      if (this.applyIntroductionRules(known, interest)) {
+        changed = true;
+      }
+      if (!changed && depth < MAX_CASE_DEPTH) {
+        changed = this.applyProofByCases(known, interest, split, depth);
+        if (this.applyHypotheticalRules(known, interest, split, depth)) {
+          changed = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * ∧E: from A ∧ B conclude A and B
+   * →E: from A → B and A conclude B
+   * ↔E: from A ↔ B and either side conclude the other
+   */
+  private static applyEliminationRules(known: Map<string, DerivationStep>): boolean {
+    let added = false;
+
+    for (const step of Array.from(known.values())) {
+      const { operator, subformulas } = step.formula;
+      if (!subformulas) continue;
+
+      if (operator === 'and') {
+        subformulas.forEach(conjunct => {
+          if (this.add(known, { formula: conjunct, rule: '∧E', from: [step] })) {
+            added = true;
+          }
+        });
+      }
+
+      if (operator === 'implies') {
+        const [antecedent, consequent] = subformulas;
+        const antecedentStep = known.get(FormulaUtils.toString(antecedent));
+        if (antecedentStep && this.add(known, { formula: consequent, rule: '→E', from: [step, antecedentStep] })) {
+          added = true;
+        }
+      }
+
+      if (operator === 'biconditional') {
+        const [left, right] = subformulas;
+        [[left, right], [right, left]].forEach(([given, other]) => {
+          const givenStep = known.get(FormulaUtils.toString(given));
+          if (givenStep && this.add(known, { formula: other, rule: '↔E', from: [step, givenStep] })) {
+            added = true;
+          }
+        });
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * ∧I: from A and B conclude A ∧ B
+   * ∨I: from A conclude A ∨ B
+   * ↔I: from A → B and B → A conclude A ↔ B
+   * ⊤I: conclude ⊤ outright
+   * ⊥E: from ⊥ conclude anything
+   * All are restricted to formulas that occur in the argument
+   */
+  private static applyIntroductionRules(known: Map<string, DerivationStep>, interest: Map<string, LogicFormula>): boolean {
+    let added = false;
+    const bottomStep = Array.from(known.values()).find(step => step.formula.operator === 'zero');
+
+    interest.forEach((formula, key) => {
+      if (known.has(key)) return;
+
+      if (bottomStep) {
+        known.set(key, { formula, rule: '⊥E', from: [bottomStep] });
+        added = true;
+        return;
+      }
+
+      if (formula.operator === 'top') {
+        known.set(key, { formula, rule: '⊤I', from: [] });
+        added = true;
+        return;
+      }
+
+      if (!formula.subformulas) return;
+      const steps = formula.subformulas.map(sub => known.get(FormulaUtils.toString(sub)));
+
+      if (formula.operator === 'and' && steps.every(step => step !== undefined)) {
+        known.set(key, { formula, rule: '∧I', from: steps as DerivationStep[] });
+        added = true;
+      }
+
+      const disjunctStep = steps.find(step => step !== undefined);
+      if (formula.operator === 'or' && disjunctStep) {
+        known.set(key, { formula, rule: '∨I', from: [disjunctStep] });
+        added = true;
+      }
+
+      if (formula.operator === 'biconditional') {
+        const [left, right] = formula.subformulas;
+        const forward = known.get(FormulaUtils.toString(FormulaBuilder.implies(left, right)));
+        const backward = known.get(FormulaUtils.toString(FormulaBuilder.implies(right, left)));
+        if (forward && backward) {
+          known.set(key, { formula, rule: '↔I', from: [forward, backward] });
+          added = true;
+        }
+      }
+    });
+
+    return added;
+  }
+
+  /**
+   * ∨E: from A ∨ B, if C follows under hypothesis A and under hypothesis B, conclude C
+   */
+  private static applyProofByCases(
+    known: Map<string, DerivationStep>,
+    interest: Map<string, LogicFormula>,
+    split: Set<string>,
+    depth: number
+  ): boolean {
+    let added = false;
+
+    for (const step of Array.from(known.values())) {
+      const key = FormulaUtils.toString(step.formula);
+      if (step.formula.operator !== 'or' || !step.formula.subformulas || split.has(key)) continue;
+
+      // A case split is pointless when one of the disjuncts is already established
+      const disjuncts = step.formula.subformulas;
+      if (disjuncts.some(disjunct => known.has(FormulaUtils.toString(disjunct)))) continue;
+
+      const nestedSplit = new Set(split).add(key);
+      const branches = disjuncts.map(disjunct => {
+        const hypothesis: DerivationStep = { formula: disjunct, rule: 'hypothesis', from: [] };
+        const branch = new Map(known);
+        branch.set(FormulaUtils.toString(disjunct), hypothesis);
+        this.saturate(branch, interest, nestedSplit, depth + 1);
+        return { hypothesis, branch };
+      });
+
+      interest.forEach((formula, targetKey) => {
+        if (known.has(targetKey)) return;
+        if (!branches.every(({ branch }) => branch.has(targetKey))) return;
+
+        known.set(targetKey, {
+          formula,
+          rule: '∨E',
+          from: [step],
+          cases: branches.map(({ hypothesis, branch }) => ({
+            hypothesis,
+            result: branch.get(targetKey)!
+          }))
+        });
+        added = true;
+      });
+    }
+
+    return added;
+  }
+
+  /**
+   * →I: if B follows under hypothesis A, conclude A → B
+   * ¬I: if a contradiction follows under hypothesis A, conclude ¬A
+   * Both are tried only for formulas that occur in the argument
+   */
+  private static applyHypotheticalRules(
+    known: Map<string, DerivationStep>,
+    interest: Map<string, LogicFormula>,
+    split: Set<string>,
+    depth: number
+  ): boolean {
+    let added = false;
+
+    interest.forEach((formula, key) => {
+      if (known.has(key) || !formula.subformulas) return;
+      if (formula.operator !== 'implies' && formula.operator !== 'not') return;
+      const [assumed, consequent] = formula.subformulas;
+
+      const hypothesis: DerivationStep = { formula: assumed, rule: 'hypothesis', from: [] };
+      const branch = new Map(known);
+      branch.set(FormulaUtils.toString(assumed), hypothesis);
+      this.saturate(branch, interest, split, depth + 1);
+
+      const result = formula.operator === 'implies'
+        ? branch.get(FormulaUtils.toString(consequent))
+        : this.findContradiction(branch);
+      if (!result) return;
+
+      known.set(key, {
+        formula,
+        rule: formula.operator === 'implies' ? '→I' : '¬I',
+        from: [],
+        cases: [{ hypothesis, result }]
+      });
+      added = true;
+    });
+
+    return added;
+  }
+
+  /**
+   * ¬E: ⊥ from some A and ¬A that are both known
+   */
+  private static findContradiction(known: Map<string, DerivationStep>): DerivationStep | undefined {
+    for (const step of known.values()) {
+      if (step.formula.operator === 'zero') return step;
+      if (step.formula.operator !== 'not' || !step.formula.subformulas) continue;
+
+      const positive = known.get(FormulaUtils.toString(step.formula.subformulas[0]));
+      if (positive) {
+        return { formula: FormulaBuilder.zero(), rule: '¬E', from: [positive, step] };
+      }
+    }
+    return undefined;
+  }
+
+  private static add(known: Map<string, DerivationStep>, step: DerivationStep): boolean {
+    const key = FormulaUtils.toString(step.formula);
+    if (known.has(key)) return false;
+    known.set(key, step);
+    return true;
+  }
+}
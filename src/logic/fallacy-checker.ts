@@ -0,0 +1,124 @@
+/**
+ * Fallacy Checker Module
+ * Names the classic invalid argument forms a premise set and conclusion fall into
+ *
+ * Conditionals are either propositional (A → B) or categorical (∀x(A(x) → B(x)), "all A are B").
+ * Categorical conditionals are matched by predicate, so "all men are mortal, Socrates is mortal,
+ * therefore Socrates is a man" is caught as affirming the consequent.
+ */
+
+import { FormulaUtils } from "./formula.js";
+import { Derivation } from "./derivation.js";
+import { LogicFormula, Fallacy } from "../types.js";
+
+interface Conditional {
+  premiseIndex: number;
+  antecedent: string;
+  consequent: string;
+  categorical: boolean;
+}
+
+export class FallacyChecker {
+
+  /**
+   * A pattern is only a fallacy when the conclusion cannot be derived some other way,
+   * so nothing is reported for arguments forward chaining can prove
+   */
+  static detect(premises: LogicFormula[], conclusion: LogicFormula): Fallacy[] {
+    if (Derivation.derive(premises, conclusion).derivable) return [];
+
+    const fallacies: Fallacy[] = [];
+    const label = (index: number) => `P${index + 1}`;
+    const conditionals = premises
+      .map((premise, index) => this.conditionalOf(premise, index))
+      .filter((c): c is Conditional => c !== null);
+    const conclusionConditional = this.conditionalOf(conclusion, -1);
+
+    conditionals.forEach(conditional => {
+      const { premiseIndex: i, antecedent, consequent, categorical } = conditional;
+      const conclusionKey = this.key(conclusion, categorical);
+
+      premises.forEach((premise, j) => {
+        if (j === i) return;
+        const fact = this.key(premise, categorical);
+
+        if (fact === consequent && conclusionKey === antecedent) {
+          fallacies.push({
+            kind: 'affirming_the_consequent',
+            premises: [i, j],
+            message: `AFFIRMING THE CONSEQUENT in ${label(i)}, ${label(j)}: ${label(i)} says ${antecedent} is enough for ${consequent}, and ${label(j)} asserts ${consequent} - but ${consequent} can hold without ${antecedent}, so ${antecedent} does not follow. SPECIFIC NEXT STEP: Establish ${antecedent} directly, or add ${consequent} → ${antecedent} if the relationship really runs both ways.`
+          });
+        }
+
+        if (fact === this.negate(antecedent) && conclusionKey === this.negate(consequent)) {
+          fallacies.push({
+            kind: 'denying_the_antecedent',
+            premises: [i, j],
+            message: `DENYING THE ANTECEDENT in ${label(i)}, ${label(j)}: ${label(i)} says ${antecedent} is enough for ${consequent}, not that it is needed, so ${label(j)} denying ${antecedent} leaves ${consequent} open. SPECIFIC NEXT STEP: Add ${consequent} → ${antecedent} if ${antecedent} is the only way to ${consequent}.`
+          });
+        }
+      });
+
+      const converse = conclusionConditional;
+      if (converse && converse.categorical === categorical &&
+          converse.antecedent === consequent && converse.consequent === antecedent) {
+        fallacies.push({
+          kind: 'conversion',
+          premises: [i],
+          message: `CONVERSION in ${label(i)}: ${label(i)} says ${antecedent} → ${consequent}, and the conclusion reverses it to ${consequent} → ${antecedent} - an implication does not hold in reverse. SPECIFIC NEXT STEP: Support ${consequent} → ${antecedent} with its own premise.`
+        });
+      }
+    });
+
+    // All A are M, all B are M: the shared middle term M says nothing about how A and B relate
+    if (conclusionConditional?.categorical) {
+      const categorical = conditionals.filter(c => c.categorical);
+      categorical.forEach((first, a) => categorical.slice(a + 1).forEach(second => {
+        if (first.consequent !== second.consequent || first.antecedent === second.antecedent) return;
+        const terms = [first.antecedent, second.antecedent];
+        if (!terms.includes(conclusionConditional.antecedent) || !terms.includes(conclusionConditional.consequent)) return;
+
+        const [i, j] = [first.premiseIndex, second.premiseIndex];
+        fallacies.push({
+          kind: 'undistributed_middle',
+          premises: [i, j],
+          message: `UNDISTRIBUTED MIDDLE in ${label(i)}, ${label(j)}: both only say that ${first.antecedent} and ${second.antecedent} are ${first.consequent}, and sharing ${first.consequent} does not connect them. SPECIFIC NEXT STEP: Add a premise that relates ${conclusionConditional.antecedent} to ${conclusionConditional.consequent} directly.`
+        });
+      }));
+    }
+
+    return fallacies;
+  }
+
+  private static conditionalOf(formula: LogicFormula, premiseIndex: number): Conditional | null {
+    if (formula.operator === 'implies' && formula.subformulas) {
+      const [antecedent, consequent] = formula.subformulas;
+      return { premiseIndex, antecedent: this.key(antecedent, false), consequent: this.key(consequent, false), categorical: false };
+    }
+
+    const body = formula.operator === 'forall' ? formula.subformulas?.[0] : undefined;
+    if (body?.operator === 'implies' && body.subformulas?.every(side => side.type === 'atomic')) {
+      const [antecedent, consequent] = body.subformulas;
+      return { premiseIndex, antecedent: this.key(antecedent, true), consequent: this.key(consequent, true), categorical: true };
+    }
+
+    return null;
+  }
+
+  /**
+   * Canonical form for matching; categorical matching compares predicates and ignores terms
+   */
+  private static key(formula: LogicFormula, categorical: boolean): string {
+    if (formula.operator === 'not' && formula.subformulas) {
+      return this.negate(this.key(formula.subformulas[0], categorical));
+    }
+    if (categorical && formula.type === 'atomic') {
+      return formula.predicate || FormulaUtils.toString(formula);
+    }
+    return FormulaUtils.toString(formula);
+  }
+
+  private static negate(key: string): string {
+    return `¬${key}`;
+  }
+}
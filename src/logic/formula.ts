@@ -1,4 +1,13 @@
-import { LogicFormula, LogicalOperator, Variable, Term, ValidationResult, QuantifierScope, DistributionRule } from '../types.js';
+import { LogicFormula, LogicalOperator, Variable, Term, ValidationResult, QuantifierScope, DistributionRule, TableauResult, LogicSystem, Countermodel, SearchBudget, MinimalPremiseSets } from '../types.js';
+import { RelevanceTableau, RelevantSystem } from './relevance-tableau.js';
+import { CountermodelFinder } from './countermodel.js';
+import { IntuitionisticProver } from './intuitionistic.js';
+import { Derivation } from './derivation.js';
+
+// Every subset of premises is tried up to this many; beyond it only one minimal set is found
+const MAX_SUBSET_PREMISES = 8;
+// Tableau work the search for minimal premise sets may spend over all its checks, so where it stops never depends on the clock
+const REDUNDANCY_WORK = 1000000;
 
 export class FormulaBuilder {
   private static idCounter = 0;
@@ -80,6 +89,18 @@ export class FormulaBuilder {
     return this.compound('implies', [antecedent, consequent], naturalLanguage);
   }
 
+  static iff(left: LogicFormula, right: LogicFormula, naturalLanguage?: string): LogicFormula {
+    return this.compound('biconditional', [left, right], naturalLanguage);
+  }
+
+  static top(naturalLanguage?: string): LogicFormula {
+    return this.compound('top', [], naturalLanguage);
+  }
+
+  static zero(naturalLanguage?: string): LogicFormula {
+    return this.compound('zero', [], naturalLanguage);
+  }
+
 
   static forall(variable: string, formula: LogicFormula, naturalLanguage?: string): LogicFormula {
     const result = this.compound('forall', [formula], naturalLanguage);
@@ -191,6 +212,10 @@ export class FormulaUtils {
             return `(${this.toString(first)} → ${this.toString(second)})`;
           case 'biconditional':
             return `(${this.toString(first)} ↔ ${this.toString(second)})`;
+          case 'top':
+            return '⊤';
+          case 'zero':
+            return '⊥';
           case 'forall':
             const forallVar = Array.from(first.variables)[0] || 'x';
             return `∀${forallVar}(${this.toString(first)})`;
@@ -427,14 +452,279 @@ export class FormulaUtils {
   
   
   
+  // RELEVANT CONSEQUENCE
+
+  /**
+   * Decide whether the conclusion follows from the premises in relevance logic R
+   * using a labelled analytic tableau
+   */
+  static proveRelevant(premises: LogicFormula[], conclusion: LogicFormula): TableauResult {
+    return RelevanceTableau.prove(premises, conclusion, 'R');
+  }
+
+  /**
+   * Decide whether the conclusion follows from the premises in the logic of entailment E
+   */
+  static proveEntailment(premises: LogicFormula[], conclusion: LogicFormula): TableauResult {
+    return RelevanceTableau.prove(premises, conclusion, 'E');
+  }
+
+  /**
+   * Explain why a relevance tableau failed to prove the conclusion
+   */
+  static describeTableauFailure(result: TableauResult, conclusionText: string, system: RelevantSystem = 'R'): string {
+    if (result.status === 'unknown') {
+      return `UNDECIDED: The relevance tableau for ${conclusionText} exceeded its search bound without closing - break the argument into smaller steps and validate each one.`;
+    }
+    // A countermodel found in a Sugihara matrix comes without a branch
+    const evidence = result.openBranch ? 'the tableau has an open branch' : 'a Sugihara matrix gives a countermodel';
+    const look = result.openBranch
+      ? 'Look at the open branch for the formulas left unsettled at world 0'
+      : 'Look at the countermodel for the atoms whose values at world 0 the premises leave open';
+    if (system === 'E') {
+      return `NOT A VALID ENTAILMENT: ${conclusionText} does not follow from the premises in the logic of entailment E - ${evidence}. Besides the relevance constraints of R, E does not let a contingent premise be carried into a nested implication. SPECIFIC NEXT STEP: ${look} and add premises that connect them to ${conclusionText}.`;
+    }
+    return `NOT RELEVANTLY VALID: ${conclusionText} does not follow from the premises in relevance logic R - ${evidence}. Implications only fire on exactly their antecedent and contradictions do not entail everything. SPECIFIC NEXT STEP: ${look} and add premises that connect them to ${conclusionText}.`;
+  }
+
+
+  // COUNTERMODELS
+
+  /**
+   * Find a model in which every premise holds and the conclusion fails:
+   * a Routley–Meyer model for R and E, a four-valued valuation for first-degree entailment,
+   * otherwise a classical truth assignment
+   */
+  static findCountermodel(premises: LogicFormula[], conclusion: LogicFormula, logic: LogicSystem = 'chaining'): Countermodel | null {
+    switch (logic) {
+      case 'relevant':
+        return this.proveRelevant(premises, conclusion).countermodel || null;
+      case 'entailment':
+        return this.proveEntailment(premises, conclusion).countermodel || null;
+      case 'first_degree_entailment':
+        return CountermodelFinder.firstDegree(premises, conclusion);
+      default:
+        // A classical countermodel is a one-world Kripke model, so it also refutes intuitionistically
+        return CountermodelFinder.classical(premises, conclusion);
+    }
+  }
+
+
+  // CONSISTENCY
+
+  /**
+   * Find a minimal set of formulas that cannot all be true together, returned as indices
+   * into the input. Returns null when the formulas are consistent or too large to check.
+   */
+  static findInconsistentCore(formulas: LogicFormula[]): number[] | null {
+    if (CountermodelFinder.satisfiable(formulas) !== false) return null;
+
+    // Drop each formula in turn and keep it out whenever the rest stay inconsistent
+    let core = formulas.map((_, index) => index);
+    for (const index of [...core]) {
+      const without = core.filter(i => i !== index);
+      if (CountermodelFinder.satisfiable(without.map(i => formulas[i])) === false) {
+        core = without;
+      }
+    }
+    return core;
+  }
+
+
+  // REDUNDANCY
+
+  /**
+   * Find every minimal set of premises from which the conclusion still follows in the
+   * selected logic, as indices into the premises, smallest sets first. Finds no sets when the
+   * conclusion does not follow at all, and a single minimal set when there are too many
+   * premises to try every subset. The tableau logics can spend long over each subset, so all
+   * checks share one work budget; once it runs out, or a check is undecided, the sets found
+   * so far are returned marked incomplete.
+   */
+  static findMinimalPremiseSets(
+    premises: LogicFormula[],
+    conclusion: LogicFormula,
+    logic: LogicSystem = 'chaining',
+    work: number = REDUNDANCY_WORK
+  ): MinimalPremiseSets {
+    const budget: SearchBudget = { spent: 0, limit: work, deadline: Infinity };
+    const result: MinimalPremiseSets = { sets: [], complete: true };
+    const exhausted = () => {
+      if (budget.spent >= budget.limit) result.complete = false;
+      return !result.complete;
+    };
+    // An undecided check counts as not following, which can leave out a set or keep a larger one
+    const follows = (indices: number[]) => {
+      const check = this.checkConsequence(indices.map(i => premises[i]), conclusion, logic, budget);
+      if (check.violatedConstraints.some(constraint => constraint.startsWith('UNDECIDED'))) result.complete = false;
+      return check.isValid;
+    };
+    const all = premises.map((_, index) => index);
+    if (!follows(all)) return result;
+
+    if (premises.length > MAX_SUBSET_PREMISES) {
+      // Drop each premise in turn and keep it out whenever the conclusion still follows
+      let core = all;
+      for (const index of all) {
+        if (exhausted()) break;
+        const without = core.filter(i => i !== index);
+        if (follows(without)) core = without;
+      }
+      result.sets.push(core);
+      return result;
+    }
+
+    const subsets = Array.from({ length: 2 ** premises.length }, (_, mask) => all.filter(i => (mask & (1 << i)) !== 0))
+      .sort((a, b) => a.length - b.length);
+
+    // Every logic here is monotonic, so supersets of a set that works are never minimal
+    for (const subset of subsets) {
+      if (result.sets.some(set => set.every(i => subset.includes(i)))) continue;
+      if (exhausted()) break;
+      if (follows(subset)) result.sets.push(subset);
+    }
+    return result;
+  }
+
+
+  // CONSEQUENCE CHECKS
+
+  /**
+   * Decide whether the conclusion follows from the premises in the selected logic,
+   * without the structural checks validate() runs first
+   */
+  static checkConsequence(premises: LogicFormula[], conclusion: LogicFormula, logic: LogicSystem, budget?: SearchBudget): ValidationResult {
+    const conclusionText = this.toString(conclusion);
+    const result: ValidationResult = { isValid: true, violatedConstraints: [], logic, structurallyValid: true };
+    const fail = (constraint: string, countermodel?: Countermodel | null) => {
+      result.isValid = false;
+      result.violatedConstraints.push(constraint);
+      if (countermodel) result.countermodel = countermodel;
+      return result;
+    };
+
+    switch (logic) {
+      case 'chaining': {
+        const derivation = Derivation.derive(premises, conclusion);
+        result.derivation = derivation;
+        if (!derivation.derivable) {
+          return fail(this.describeUnderivableConclusion(premises, conclusionText, derivation.established),
+            CountermodelFinder.classical(premises, conclusion));
+        }
+        return result;
+      }
+
+      case 'classical': {
+        if (CountermodelFinder.exceedsSearchBound([...premises, conclusion], 'classical')) {
+          return fail(`UNDECIDED: The truth table for ${conclusionText} has too many atoms to search - break the argument into smaller steps and validate each one.`);
+        }
+        const countermodel = CountermodelFinder.classical(premises, conclusion);
+        if (countermodel) {
+          return fail(`CLASSICALLY INVALID: ${conclusionText} does not follow from the premises in classical logic - some assignment of truth values makes every premise true and ${conclusionText} false. SPECIFIC NEXT STEP: Check the countermodel and add a premise that rules it out.`, countermodel);
+        }
+        return result;
+      }
+
+      case 'intuitionistic':
+        if (!IntuitionisticProver.prove(premises, conclusion)) {
+          return fail(`NOT INTUITIONISTICALLY VALID: ${conclusionText} has no constructive proof from the premises - intuitionistic logic rejects excluded middle and double negation elimination, so each step must be established directly. SPECIFIC NEXT STEP: Replace reasoning by cases on A ∨ ¬A or from ¬¬A with premises that establish what you need outright.`,
+            CountermodelFinder.classical(premises, conclusion));
+        }
+        return result;
+
+      case 'relevant':
+      case 'entailment': {
+        const system: RelevantSystem = logic === 'relevant' ? 'R' : 'E';
+        const tableau = RelevanceTableau.prove(premises, conclusion, system, budget);
+        result.tableau = tableau;
+        if (tableau.status !== 'proved') {
+          return fail(this.describeTableauFailure(tableau, conclusionText, system), tableau.countermodel);
+        }
+        return result;
+      }
+
+      case 'first_degree_entailment': {
+        const withImplication = premises.findIndex(premise => this.containsImplication(premise));
+        if (withImplication >= 0 || this.containsImplication(conclusion)) {
+          const where = withImplication >= 0 ? `premise ${withImplication + 1}` : 'the conclusion';
+          return fail(`UNSUPPORTED: First-degree entailment has no implication connective, but ${where} uses one. SPECIFIC NEXT STEP: Use logic "relevant" or "entailment" for arguments with implications.`);
+        }
+        if (CountermodelFinder.exceedsSearchBound([...premises, conclusion], 'first_degree_entailment')) {
+          return fail(`UNDECIDED: The four-valued search for ${conclusionText} has too many atoms - break the argument into smaller steps and validate each one.`);
+        }
+        const countermodel = CountermodelFinder.firstDegree(premises, conclusion);
+        if (countermodel) {
+          return fail(`NOT A FIRST-DEGREE ENTAILMENT: ${conclusionText} does not follow from the premises in four-valued logic - a statement can be both true and false, or neither, so excluded middle and explosion fail. SPECIFIC NEXT STEP: Check the countermodel and add a premise that rules it out.`, countermodel);
+        }
+        return result;
+      }
+    }
+  }
+
+  private static containsImplication(formula: LogicFormula): boolean {
+    if (formula.operator === 'implies' || formula.operator === 'biconditional') return true;
+    return formula.subformulas?.some(sub => this.containsImplication(sub)) ?? false;
+  }
+
+  /**
+   * Explain why forward chaining never reached the conclusion, pointing at
+   * implications whose antecedents nothing establishes
+   */
+  private static describeUnderivableConclusion(
+    premises: LogicFormula[],
+    conclusionText: string,
+    established: LogicFormula[]
+  ): string {
+    const establishedStrings = new Set(established.map(f => this.toString(f)));
+
+    // Implications that never fire because nothing establishes their antecedent
+    const unmetAntecedents = new Set<string>();
+    premises.forEach(formula => {
+      if (formula.operator === 'implies' && formula.subformulas) {
+        const antecedent = formula.subformulas[0];
+        if (!establishedStrings.has(this.toString(antecedent))) {
+          unmetAntecedents.add(this.toString(antecedent));
+        }
+      }
+    });
+
+    const nextStep = unmetAntecedents.size > 0
+      ? `SPECIFIC NEXT STEP: Nothing establishes ${Array.from(unmetAntecedents).join(', ')} - assert it as a premise or add implications from established premises that lead to it.`
+      : `SPECIFIC NEXT STEP: Add implications that lead from your established premises to ${conclusionText}.`;
+
+    return `UNDERIVABLE: Conclusion ${conclusionText} cannot be derived from the premises using modus ponens, adjunction, simplification, addition, proof by cases, conditional proof or reductio - the premises are connected, but they never establish the conclusion. ${nextStep}`;
+  }
+
+
   // LOGICAL VALIDATION IMPLEMENTATION
   
   
   /**
    * Validate argument using validation semantics
    * EVERY premise must be validated
+   * When a logic is given, a structurally sound argument must also be a valid consequence in that logic
+   */
+  static validate(premises: LogicFormula[], conclusion: LogicFormula, logic?: LogicSystem): ValidationResult {
+    const structural = this.validateStructure(premises, conclusion);
+    if (!logic) return structural;
+
+    if (!structural.isValid) {
+      const countermodel = this.findCountermodel(premises, conclusion, logic);
+      return {
+        ...structural,
+        logic,
+        structurallyValid: false,
+        ...(countermodel && { countermodel })
+      };
+    }
+
+    return this.checkConsequence(premises, conclusion, logic);
+  }
+
+  /**
+   * Circularity, connectivity, quantifier sharing and distribution checks
    */
-  static validate(premises: LogicFormula[], conclusion: LogicFormula): ValidationResult {
+  private static validateStructure(premises: LogicFormula[], conclusion: LogicFormula): ValidationResult {
     const violatedConstraints: string[] = [];
     
     // CIRCULAR REASONING CHECK: Detect if conclusion appears as premise (direct or in conjunction)
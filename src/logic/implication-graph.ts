@@ -0,0 +1,117 @@
+/**
+ * Implication Graph Module
+ * Directed reachability from asserted atoms to the conclusion along implications
+ *
+ * Each implication A → B adds an edge from every atom of A to every atom of B; a biconditional
+ * adds edges both ways. Unlike the undirected connectivity check, an edge only carries support
+ * from antecedent to consequent, so an implication written backwards no longer counts as a link.
+ */
+
+import { FormulaUtils } from "./formula.js";
+import { LogicFormula, ImplicationEdge, ReachabilityReport } from "../types.js";
+
+interface Implication {
+  premiseIndex: number;
+  formula: LogicFormula;
+  edges: ImplicationEdge[];
+}
+
+export class ImplicationGraph {
+
+  static analyze(premises: LogicFormula[], conclusion: LogicFormula): ReachabilityReport {
+    const implications: Implication[] = [];
+    const asserted = new Set<string>();
+
+    premises.forEach((premise, index) => {
+      this.collectImplications(premise, index, implications);
+      this.collectAsserted(premise, asserted);
+    });
+
+    const edges = implications.flatMap(implication => implication.edges);
+    const targets = new Set(this.atomsOf(conclusion));
+
+    const reached = this.closure(Array.from(asserted), edges, 'forward');
+    const leadsToConclusion = this.closure(Array.from(targets), edges, 'backward');
+
+    // An implication is backwards when it carries nothing forward, but its reverse would
+    const wrongDirection = implications
+      .filter(({ edges }) =>
+        !edges.some(edge => reached.has(edge.from) && leadsToConclusion.has(edge.to)) &&
+        edges.some(edge => reached.has(edge.to) && leadsToConclusion.has(edge.from)))
+      .map(({ premiseIndex, formula }) => ({ premiseIndex, implication: formula }));
+
+    return {
+      edges,
+      asserted: Array.from(asserted),
+      reachingConclusion: Array.from(asserted).filter(atom => leadsToConclusion.has(atom)),
+      conclusionReachable: Array.from(asserted).some(atom => leadsToConclusion.has(atom)),
+      wrongDirection,
+      deadEnds: Array.from(reached).filter(atom => !leadsToConclusion.has(atom))
+    };
+  }
+
+  /**
+   * Implications and biconditionals at the top of a premise or inside its conjunctions and consequents
+   */
+  private static collectImplications(formula: LogicFormula, premiseIndex: number, implications: Implication[]): void {
+    if (!formula.subformulas) return;
+    const [first, second] = formula.subformulas;
+
+    switch (formula.operator) {
+      case 'and':
+        formula.subformulas.forEach(sub => this.collectImplications(sub, premiseIndex, implications));
+        break;
+      case 'implies':
+        implications.push({ premiseIndex, formula, edges: this.edgesBetween(first, second, premiseIndex) });
+        this.collectImplications(second, premiseIndex, implications);
+        break;
+      case 'biconditional':
+        implications.push({
+          premiseIndex,
+          formula,
+          edges: [...this.edgesBetween(first, second, premiseIndex), ...this.edgesBetween(second, first, premiseIndex)]
+        });
+        break;
+    }
+  }
+
+  private static edgesBetween(antecedent: LogicFormula, consequent: LogicFormula, premiseIndex: number): ImplicationEdge[] {
+    const consequentAtoms = this.atomsOf(consequent);
+    return this.atomsOf(antecedent).flatMap(from => consequentAtoms.map(to => ({ from, to, premiseIndex })));
+  }
+
+  /**
+   * Atoms a premise asserts: the premise itself, its conjuncts, and each case of a disjunction
+   */
+  private static collectAsserted(formula: LogicFormula, asserted: Set<string>): void {
+    if (formula.type === 'atomic') {
+      asserted.add(FormulaUtils.toString(formula));
+      return;
+    }
+    if ((formula.operator === 'and' || formula.operator === 'or') && formula.subformulas) {
+      formula.subformulas.forEach(sub => this.collectAsserted(sub, asserted));
+    }
+  }
+
+  private static closure(start: string[], edges: ImplicationEdge[], direction: 'forward' | 'backward'): Set<string> {
+    const visited = new Set(start);
+    const queue = [...start];
+
+    while (queue.length > 0) {
+      const atom = queue.shift()!;
+      edges.forEach(({ from, to }) => {
+        const [source, target] = direction === 'forward' ? [from, to] : [to, from];
+        if (source === atom && !visited.has(target)) {
+          visited.add(target);
+          queue.push(target);
+        }
+      });
+    }
+
+    return visited;
+  }
+
+  private static atomsOf(formula: LogicFormula): string[] {
+    return Array.from(new Set(FormulaUtils.extractAtomicFormulas(formula).map(atom => FormulaUtils.toString(atom))));
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Intuitionistic Module
+ * Decides intuitionistic propositional consequence with Dyckhoff's contraction-free sequent calculus G4ip
+ *
+ * Negation is read as implication into falsum (¬A = A → ⊥), a biconditional as a pair of
+ * implications, 0 as ⊥ and ⊤ as ⊥ → ⊥. Every G4ip rule makes the sequent smaller, so the search always terminates.
+ */
+
+import { FormulaUtils } from "./formula.js";
+import { LogicFormula } from "../types.js";
+
+type Sequent =
+  | { kind: 'atom'; name: string }
+  | { kind: 'bottom' }
+  | { kind: 'and' | 'or' | 'implies'; left: Sequent; right: Sequent };
+
+const BOTTOM: Sequent = { kind: 'bottom' };
+
+export class IntuitionisticProver {
+
+  /**
+   * Whether the conclusion is intuitionistically derivable from the premises.
+   * Quantified formulas are treated as opaque atoms.
+   */
+  static prove(premises: LogicFormula[], conclusion: LogicFormula): boolean {
+    return this.search(premises.map(p => this.translate(p)), this.translate(conclusion), new Map());
+  }
+
+  private static translate(formula: LogicFormula): Sequent {
+    if (formula.type === 'atomic' || !formula.subformulas || formula.operator === 'forall' || formula.operator === 'exists') {
+      return { kind: 'atom', name: FormulaUtils.toString(formula) };
+    }
+
+    const [first, second] = formula.subformulas.map(sub => this.translate(sub));
+
+    switch (formula.operator) {
+      case 'not':
+        return { kind: 'implies', left: first, right: BOTTOM };
+      case 'and':
+      case 'or':
+      case 'implies':
+        return { kind: formula.operator, left: first, right: second };
+      case 'biconditional':
+        return {
+          kind: 'and',
+          left: { kind: 'implies', left: first, right: second },
+          right: { kind: 'implies', left: second, right: first }
+        };
+      case 'top':
+        return { kind: 'implies', left: BOTTOM, right: BOTTOM };
+      case 'zero':
+        return BOTTOM;
+      default:
+        return { kind: 'atom', name: FormulaUtils.toString(formula) };
+    }
+  }
+
+  /**
+   * Invertible rules are applied eagerly; only ∨R and the left rule for nested
+   * implications need backtracking
+   */
+  private static search(context: Sequent[], goal: Sequent, memo: Map<string, boolean>): boolean {
+    const key = `${Array.from(new Set(context.map(f => this.key(f)))).sort().join(', ')} ⊢ ${this.key(goal)}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    // Assume failure while this sequent is open so repeated sequents cannot recurse
+    memo.set(key, false);
+    const result = this.searchUncached(context, goal, memo);
+    memo.set(key, result);
+    return result;
+  }
+
+  private static searchUncached(context: Sequent[], goal: Sequent, memo: Map<string, boolean>): boolean {
+    const without = (index: number, ...added: Sequent[]) => [...context.slice(0, index), ...context.slice(index + 1), ...added];
+    const holds = (formula: Sequent) => context.some(f => this.key(f) === this.key(formula));
+
+    if (context.some(f => f.kind === 'bottom')) return true;
+    if (goal.kind === 'atom' && holds(goal)) return true;
+
+    // Invertible left rules
+    for (let i = 0; i < context.length; i++) {
+      const formula = context[i];
+      if (formula.kind === 'and') {
+        return this.search(without(i, formula.left, formula.right), goal, memo);
+      }
+      if (formula.kind === 'or') {
+        return this.search(without(i, formula.left), goal, memo)
+          && this.search(without(i, formula.right), goal, memo);
+      }
+      if (formula.kind !== 'implies') continue;
+
+      const { left: antecedent, right: consequent } = formula;
+      if (antecedent.kind === 'bottom') {
+        return this.search(without(i), goal, memo);
+      }
+      if (antecedent.kind === 'atom' && holds(antecedent)) {
+        return this.search(without(i, consequent), goal, memo);
+      }
+      if (antecedent.kind === 'and') {
+        const curried: Sequent = {
+          kind: 'implies',
+          left: antecedent.left,
+          right: { kind: 'implies', left: antecedent.right, right: consequent }
+        };
+        return this.search(without(i, curried), goal, memo);
+      }
+      if (antecedent.kind === 'or') {
+        return this.search(without(i,
+          { kind: 'implies', left: antecedent.left, right: consequent },
+          { kind: 'implies', left: antecedent.right, right: consequent }
+        ), goal, memo);
+      }
+    }
+
+    // Invertible right rules
+    if (goal.kind === 'and') {
+      return this.search(context, goal.left, memo) && this.search(context, goal.right, memo);
+    }
+    if (goal.kind === 'implies') {
+      return this.search([...context, goal.left], goal.right, memo);
+    }
+
+    // Non-invertible rules
+    if (goal.kind === 'or' && (this.search(context, goal.left, memo) || this.search(context, goal.right, memo))) {
+      return true;
+    }
+
+    // (C → D) → B ⊢ G from D → B, C ⊢ D (with C → D discharged) and B ⊢ G
+    for (let i = 0; i < context.length; i++) {
+      const formula = context[i];
+      if (formula.kind !== 'implies' || formula.left.kind !== 'implies') continue;
+
+      const { left: inner, right: consequent } = formula;
+      const rest = without(i, { kind: 'implies', left: inner.right, right: consequent });
+      if (this.search([...rest, inner.left], inner.right, memo) && this.search(without(i, consequent), goal, memo)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private static key(formula: Sequent): string {
+    switch (formula.kind) {
+      case 'atom':
+        return formula.name;
+      case 'bottom':
+        return '⊥';
+      default: {
+        const symbol = formula.kind === 'and' ? '∧' : formula.kind === 'or' ? '∨' : '→';
+        return `(${this.key(formula.left)} ${symbol} ${this.key(formula.right)})`;
+      }
+    }
+  }
+}
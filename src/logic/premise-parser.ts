@@ -0,0 +1,262 @@
+/**
+ * Premise Parser Module
+ * Tokenizes and parses symbolic premises such as "(A || B) && !C -> D" into LogicFormula trees
+ * The units ⊤ and ⊥ (also spelled true and false) may stand wherever a symbol can
+ *
+ * Binding from loosest to tightest: ↔, →, ∨, ∧, ¬. Implication and the biconditional group to
+ * the right (A -> B -> C is A -> (B -> C)); conjunction and disjunction group to the left.
+ * Failures are reported with the offending token, its offset and what would have been accepted.
+ */
+
+import { FormulaBuilder } from "./formula.js";
+import { LogicFormula, LogicalOperator, PremiseParseError, PremiseParseErrorCode, PremiseParseResult } from "../types.js";
+
+type TokenKind = 'symbol' | 'unit' | 'binary' | 'not' | 'lparen' | 'rparen' | 'end' | 'unknown';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  offset: number;
+}
+
+interface BinaryOperator {
+  operator: LogicalOperator;
+  precedence: number;
+  rightAssociative: boolean;
+}
+
+interface ParseState {
+  premise: string;
+  tokens: Token[];
+  index: number;
+  symbolFormulas: Map<string, LogicFormula>;
+  openParens: Token[];
+  error?: PremiseParseError;
+}
+
+const IFF: BinaryOperator = { operator: 'biconditional', precedence: 1, rightAssociative: true };
+const IMPLIES: BinaryOperator = { operator: 'implies', precedence: 2, rightAssociative: true };
+const OR: BinaryOperator = { operator: 'or', precedence: 3, rightAssociative: false };
+const AND: BinaryOperator = { operator: 'and', precedence: 4, rightAssociative: false };
+
+const BINARY_OPERATORS: Record<string, BinaryOperator> = {
+  '<->': IFF, '↔': IFF,
+  '->': IMPLIES, '→': IMPLIES,
+  '||': OR, '∨': OR,
+  '&&': AND, '∧': AND
+};
+
+// Semi-natural spellings of implication, recognized unless a symbol has the same name
+const IMPLICATION_WORDS = /^(implies|enables|is\s+necessary\s+for)\b/i;
+
+// Longest spellings first so "<->" is not read as "<" followed by "->"
+const OPERATOR_SPELLINGS = Object.keys(BINARY_OPERATORS).sort((a, b) => b.length - a.length);
+
+const NEGATIONS = ['!', '¬'];
+
+// Units spelled as words are recognized unless a symbol has the same name
+const UNITS: Record<string, 'top' | 'zero'> = { '⊤': 'top', 'true': 'top', '⊥': 'zero', 'false': 'zero' };
+
+const EXPECTED_OPERAND = ['symbol', '!', '('];
+const EXPECTED_OPERATOR = ['&&', '||', '->', '<->'];
+
+export class PremiseParser {
+
+  /**
+   * Parse a premise built from defined symbols, or explain where and why it is not well formed
+   */
+  static parse(premise: string, symbolFormulas: Map<string, LogicFormula>): PremiseParseResult {
+    const state: ParseState = {
+      premise,
+      tokens: this.tokenize(premise, symbolFormulas),
+      index: 0,
+      symbolFormulas,
+      openParens: []
+    };
+
+    const formula = this.parseExpression(state, 0);
+    if (!formula) return { error: state.error };
+
+    const trailing = this.peek(state);
+    if (trailing.kind !== 'end') {
+      return trailing.kind === 'rparen'
+        ? { error: this.error(state, 'UNBALANCED_PAREN', trailing, [...EXPECTED_OPERATOR, 'end of premise'], `')' at offset ${trailing.offset} has no matching '('`) }
+        : { error: this.error(state, 'UNEXPECTED_TOKEN', trailing, [...EXPECTED_OPERATOR, 'end of premise']) };
+    }
+
+    return { formula };
+  }
+
+  private static tokenize(input: string, symbolFormulas: Map<string, LogicFormula>): Token[] {
+    const tokens: Token[] = [];
+    let offset = 0;
+
+    while (offset < input.length) {
+      const rest = input.slice(offset);
+
+      const whitespace = rest.match(/^\s+/);
+      if (whitespace) {
+        offset += whitespace[0].length;
+        continue;
+      }
+
+      const spelling = OPERATOR_SPELLINGS.find(candidate => rest.startsWith(candidate));
+      if (spelling) {
+        tokens.push({ kind: 'binary', text: spelling, offset });
+        offset += spelling.length;
+        continue;
+      }
+
+      const negation = NEGATIONS.find(candidate => rest.startsWith(candidate));
+      if (negation) {
+        tokens.push({ kind: 'not', text: negation, offset });
+        offset += negation.length;
+        continue;
+      }
+
+      if (rest[0] === '⊤' || rest[0] === '⊥') {
+        tokens.push({ kind: 'unit', text: rest[0], offset });
+        offset += 1;
+        continue;
+      }
+
+      if (rest[0] === '(' || rest[0] === ')') {
+        tokens.push({ kind: rest[0] === '(' ? 'lparen' : 'rparen', text: rest[0], offset });
+        offset += 1;
+        continue;
+      }
+
+      const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+      if (word) {
+        const implication = rest.match(IMPLICATION_WORDS);
+        if (implication && !symbolFormulas.has(word[0])) {
+          tokens.push({ kind: 'binary', text: implication[0], offset });
+          offset += implication[0].length;
+          continue;
+        }
+        const isNegation = word[0].toLowerCase() === 'not' && !symbolFormulas.has(word[0]);
+        const isUnit = UNITS[word[0].toLowerCase()] !== undefined && !symbolFormulas.has(word[0]);
+        tokens.push({ kind: isNegation ? 'not' : isUnit ? 'unit' : 'symbol', text: word[0], offset });
+        offset += word[0].length;
+        continue;
+      }
+
+      tokens.push({ kind: 'unknown', text: rest[0], offset });
+      offset += 1;
+    }
+
+    tokens.push({ kind: 'end', text: '', offset });
+    return tokens;
+  }
+
+  /**
+   * Precedence climbing: parse an operand, then absorb binary operators that bind at least as tightly as minPrecedence
+   */
+  private static parseExpression(state: ParseState, minPrecedence: number): LogicFormula | null {
+    let left = this.parseOperand(state);
+    if (!left) return null;
+
+    while (this.peek(state).kind === 'binary') {
+      const binary = this.binaryOperator(this.peek(state));
+      if (binary.precedence < minPrecedence) break;
+      state.index++;
+
+      const nextPrecedence = binary.rightAssociative ? binary.precedence : binary.precedence + 1;
+      const right = this.parseExpression(state, nextPrecedence);
+      if (!right) return null;
+
+      left = binary.operator === 'biconditional'
+        ? FormulaBuilder.iff(left, right)
+        : FormulaBuilder.compound(binary.operator, [left, right]);
+    }
+
+    return left;
+  }
+
+  private static parseOperand(state: ParseState): LogicFormula | null {
+    const token = this.peek(state);
+
+    switch (token.kind) {
+      case 'not': {
+        state.index++;
+        const operand = this.parseOperand(state);
+        return operand ? FormulaBuilder.not(operand) : null;
+      }
+
+      case 'lparen': {
+        state.index++;
+        state.openParens.push(token);
+        const inner = this.parseExpression(state, 0);
+        if (!inner) return null;
+
+        const closing = this.peek(state);
+        if (closing.kind === 'end') {
+          // Point at the parenthesis that is left open rather than at the end of the premise
+          this.error(state, 'UNBALANCED_PAREN', token, [')'], `'(' at offset ${token.offset} is never closed`);
+          return null;
+        }
+        if (closing.kind !== 'rparen') {
+          this.error(state, 'UNEXPECTED_TOKEN', closing, [...EXPECTED_OPERATOR, ')']);
+          return null;
+        }
+        state.index++;
+        state.openParens.pop();
+        return inner;
+      }
+
+      case 'symbol': {
+        const formula = state.symbolFormulas.get(token.text);
+        if (!formula) {
+          this.error(state, 'UNDEFINED_SYMBOL', token, Array.from(state.symbolFormulas.keys()),
+            `'${token.text}' is not a defined atom`);
+          return null;
+        }
+        state.index++;
+        return formula;
+      }
+
+      case 'unit':
+        state.index++;
+        return UNITS[token.text.toLowerCase()] === 'top' ? FormulaBuilder.top() : FormulaBuilder.zero();
+
+      case 'rparen':
+        // ")" where an operand belongs, e.g. "()" or "A && )"
+        this.error(state, state.openParens.length > 0 ? 'UNEXPECTED_TOKEN' : 'UNBALANCED_PAREN', token, EXPECTED_OPERAND);
+        return null;
+
+      default:
+        this.error(state, 'UNEXPECTED_TOKEN', token, EXPECTED_OPERAND);
+        return null;
+    }
+  }
+
+  private static binaryOperator(token: Token): BinaryOperator {
+    return BINARY_OPERATORS[token.text] || IMPLIES;
+  }
+
+  private static peek(state: ParseState): Token {
+    return state.tokens[state.index];
+  }
+
+  private static error(
+    state: ParseState,
+    code: PremiseParseErrorCode,
+    token: Token,
+    expected: string[],
+    detail?: string
+  ): PremiseParseError {
+    const found = token.kind === 'end' ? 'end of premise' : `'${token.text}'`;
+    const summary = detail || `found ${found}, expected ${expected.join(', ')}`;
+
+    state.error = {
+      code,
+      premise: state.premise,
+      offset: token.offset,
+      token: token.text,
+      expected,
+      snippet: `${state.premise}\n${' '.repeat(token.offset)}^`,
+      message: `${code} at offset ${token.offset}: ${summary}`
+    };
+    return state.error;
+  }
+}
@@ -0,0 +1,769 @@
+/**
+ * Relevance Tableau Module
+ * Labelled analytic tableaux for the implication/conjunction/disjunction/negation fragment of R and E,
+ * with the biconditional read as a pair of implications and the units ⊤ and ⊥ true and false at every world
+ *
+ * Follows the simplified Routley–Meyer semantics: normal worlds a with Raxy iff x = y, starting
+ * from the world 0, the Routley star for negation (x** = x, a* ≤ a), contraposition
+ * (Rxyz ⇒ Rxz*y*) and Rxxx. R adds commutation (Rxyz ⇒ Ryxz) and associativity. E has no
+ * commutation; it has the prefixing, suffixing and contraction conditions, Rxx*x, and restricted
+ * assertion: Rxax for some normal world a, which need not be 0.
+ *
+ * The search first looks for a proof, giving every witness world a frame condition demands a
+ * fresh name and applying first the witnesses that let an implication close a branch. If that
+ * runs out of worlds, a valuation in a small Sugihara matrix is tried as a countermodel, then
+ * natural deduction as a proof, and failing both the search looks for a countermodel on
+ * the branch, letting witnesses be worlds already on it; a branch closed there proves nothing.
+ * Each search stops after a fixed amount of work.
+ */
+
+import { FormulaBuilder, FormulaUtils } from "./formula.js";
+import { CountermodelFinder } from "./countermodel.js";
+import { RelevantDeduction } from "./relevant-deduction.js";
+import { LogicFormula, SignedFormula, TableauNode, TableauResult, Countermodel, FourValue, SearchBudget } from "../types.js";
+
+// Witness worlds can be demanded forever; stop naming new worlds on a branch past this many
+const MAX_WORLDS = 8;
+// Work each of the proof and countermodel searches may do: a unit for every entry and triple each
+// pass over a branch visits, every pair of triples matched for a witness and every witness world tried
+const MAX_WORK = 400000;
+// Wall-clock bound on a whole proof attempt, in milliseconds
+const TIME_LIMIT = 5000;
+
+type Triple = [string, string, string];
+
+// A triple whose null position is filled by a witness world
+type WitnessTriple = [string | null, string | null, string | null];
+
+interface WitnessInstance {
+  triples: WitnessTriple[];
+  normal: boolean;              // The witness must be a normal world
+}
+
+export type RelevantSystem = 'R' | 'E';
+
+interface Frame {
+  commutation: boolean;
+  restrictedAssertion: boolean;
+  reductio: boolean;            // Rxx*x, which a* ≤ a gives at normal worlds
+  witnessRules: Array<'prefixing' | 'suffixing' | 'contraction'>;
+}
+
+const FRAMES: Record<RelevantSystem, Frame> = {
+  // Associativity is prefixing; with commutation and Rxxx it also gives suffixing, permutation and contraction
+  R: { commutation: true, restrictedAssertion: false, reductio: false, witnessRules: ['prefixing'] },
+  E: { commutation: false, restrictedAssertion: true, reductio: true, witnessRules: ['prefixing', 'suffixing', 'contraction'] }
+};
+
+interface Branch {
+  entries: Map<string, SignedFormula>;
+  triples: Map<string, Triple>;
+  worlds: Set<string>;
+  normal: Set<string>;
+  applied: Set<string>;
+  nextWorld: number;
+  exhausted: boolean;           // World bound was hit, so an open branch proves nothing
+}
+
+interface Search {
+  frame: Frame;
+  mode: 'proof' | 'countermodel';
+  negation: boolean;            // Without negation the star plays no part, as R and E are conservative over their positive fragments
+  budget: SearchBudget;
+}
+
+interface Split {
+  key: string;
+  alternatives: SignedFormula[];
+}
+
+type Outcome =
+  | { status: 'closed' }
+  | { status: 'open'; branch: Branch }
+  | { status: 'unknown' };
+
+export class RelevanceTableau {
+
+  /**
+   * Prove that the conclusion holds at the normal world whenever every premise does.
+   * Returns the closed tableau when proved, or one fully expanded open branch when refuted.
+   * Work done is also charged to the caller's budget when given, and no phase may spend
+   * more than is left in it.
+   */
+  static prove(premises: LogicFormula[], conclusion: LogicFormula, system: RelevantSystem = 'R', budget?: SearchBudget): TableauResult {
+    const frame = FRAMES[system];
+    const negation = [...premises, conclusion].some(formula => this.hasNegation(formula));
+    const deadline = Math.min(Date.now() + TIME_LIMIT, budget?.deadline ?? Infinity);
+    const phase = <T>(work: (phaseBudget: SearchBudget) => T): T => {
+      const limit = budget ? Math.max(0, Math.min(MAX_WORK, budget.limit - budget.spent)) : MAX_WORK;
+      const phaseBudget: SearchBudget = { spent: 0, limit, deadline };
+      const outcome = work(phaseBudget);
+      if (budget) budget.spent += phaseBudget.spent;
+      return outcome;
+    };
+    const run = (mode: Search['mode']) =>
+      phase(phaseBudget => this.search(premises, conclusion, { frame, mode, negation, budget: phaseBudget }));
+
+    const proof = run('proof');
+    if (proof.outcome.status === 'closed') {
+      return { status: 'proved', tableau: proof.root };
+    }
+
+    // Without a proof, an open branch that may reuse worlds as witnesses is still a countermodel
+    if (proof.outcome.status === 'open') {
+      return this.refutation(proof.root, proof.outcome.branch, conclusion, system);
+    }
+
+    // A valuation in a small Sugihara matrix is far cheaper to find than a frame built world by world
+    const matrix = CountermodelFinder.sugihara(premises, conclusion, system === 'E' ? 'entailment' : 'relevant');
+    if (matrix) {
+      return { status: 'refuted', tableau: proof.root, countermodel: matrix };
+    }
+
+    // Proofs that need witnesses several steps before an implication fires are found sooner by natural deduction
+    const naturalDeduction = phase(phaseBudget => RelevantDeduction.prove(premises, conclusion, phaseBudget, system));
+    if (naturalDeduction) {
+      return { status: 'proved', tableau: proof.root, naturalDeduction };
+    }
+
+    const { root, outcome } = run('countermodel');
+    return outcome.status === 'open'
+      ? this.refutation(root, outcome.branch, conclusion, system)
+      : { status: 'unknown', tableau: proof.root };
+  }
+
+  private static refutation(root: TableauNode, branch: Branch, conclusion: LogicFormula, system: RelevantSystem): TableauResult {
+    return {
+      status: 'refuted',
+      tableau: root,
+      openBranch: {
+        formulas: Array.from(branch.entries.values()).map(entry => this.render(entry)),
+        relations: Array.from(branch.triples.values()).map(triple => `R(${triple.join(', ')})`)
+      },
+      countermodel: this.toCountermodel(branch, conclusion, system)
+    };
+  }
+
+  private static search(premises: LogicFormula[], conclusion: LogicFormula, search: Search): { root: TableauNode; outcome: Outcome } {
+    const root: TableauNode = { entries: [], children: [] };
+    const branch: Branch = {
+      entries: new Map(),
+      triples: new Map(),
+      worlds: new Set(),
+      normal: new Set(['0']),
+      applied: new Set(),
+      nextWorld: 1,
+      exhausted: false
+    };
+
+    premises.forEach(premise => this.addEntry(branch, root, { formula: premise, sign: '+', world: '0' }));
+    this.addEntry(branch, root, { formula: conclusion, sign: '-', world: '0' });
+
+    return { root, outcome: this.expand(branch, root, search) };
+  }
+
+  /**
+   * Read a Routley–Meyer countermodel off a fully expanded open branch:
+   * an atom is true at a world exactly when the branch marks it true there
+   */
+  private static toCountermodel(branch: Branch, conclusion: LogicFormula, system: RelevantSystem): Countermodel {
+    const worlds = Array.from(branch.worlds).sort();
+    const valuation: Record<string, string[]> = Object.fromEntries(worlds.map(world => [world, []]));
+    const atoms = new Set<string>();
+
+    branch.entries.forEach(entry => {
+      if (entry.formula.type !== 'atomic') return;
+      const atom = FormulaUtils.toString(entry.formula);
+      atoms.add(atom);
+      if (entry.sign === '+') valuation[entry.world].push(atom);
+    });
+
+    // ¬p holds at 0 exactly when p fails at 0*, giving each atom a Belnap–Dunn value at 0
+    const normalWorld: Record<string, FourValue> = {};
+    Array.from(atoms).sort().forEach(atom => {
+      const told = valuation['0']?.includes(atom) ?? false;
+      const toldFalse = !(valuation['0*']?.includes(atom) ?? false);
+      normalWorld[atom] = told && toldFalse ? 'both' : told ? 'true' : toldFalse ? 'false' : 'neither';
+    });
+
+    const values = Object.entries(normalWorld).map(([atom, value]) => `${atom} is ${value}`).join(', ');
+
+    return {
+      logic: system === 'E' ? 'entailment' : 'relevant',
+      worlds,
+      relations: Array.from(branch.triples.values()).map(triple => `R(${triple.join(', ')})`),
+      valuation,
+      normalWorld,
+      explanation: `Every premise holds at the normal world 0 while ${FormulaUtils.toString(conclusion)} fails there${values ? ` (at 0: ${values})` : ''}. Add a premise that rules out this situation.`
+    };
+  }
+
+  /**
+   * Whether an entry leads to a false implication, whose counterexample needs new worlds
+   */
+  private static addsWorlds(formula: LogicFormula, sign: '+' | '-'): boolean {
+    switch (formula.operator) {
+      case 'implies':
+      case 'biconditional':
+        return sign === '-';
+      case 'not':
+        return this.addsWorlds(formula.subformulas![0], sign === '+' ? '-' : '+');
+      case 'and':
+      case 'or':
+        return formula.subformulas!.some(sub => this.addsWorlds(sub, sign));
+      default:
+        return false;
+    }
+  }
+
+  private static hasNegation(formula: LogicFormula): boolean {
+    return formula.operator === 'not' || (formula.subformulas?.some(sub => this.hasNegation(sub)) ?? false);
+  }
+
+  static star(world: string): string {
+    return world.endsWith('*') ? world.slice(0, -1) : `${world}*`;
+  }
+
+  private static expand(branch: Branch, node: TableauNode, search: Search): Outcome {
+    let changed = true;
+    while (changed) {
+      if (this.spend(search, branch.entries.size + branch.triples.size)) {
+        return { status: 'unknown' };
+      }
+      const contradiction = this.findContradiction(branch);
+      if (contradiction) {
+        node.closedBy = contradiction;
+        return { status: 'closed' };
+      }
+      changed = this.applyLinearRules(branch, node, search);
+      if (this.closeRelations(branch, search)) {
+        changed = true;
+      }
+    }
+
+    const { closing, open } = this.findSplit(branch);
+    if (closing) {
+      return this.split(branch, node, closing, search);
+    }
+
+    // A witness that lets an implication close a branch comes before splits that close nothing
+    const implications = this.implications(branch);
+    const instances = search.mode === 'proof'
+      ? this.witnessInstances(branch, search, implications, false)
+      : this.witnessInstances(branch, search, implications, true, 1);
+    if (search.mode === 'proof') {
+      const scored = instances.map(instance => ({ instance, score: this.usefulness(branch, instance, search, implications) }));
+      const useful = scored.reduce((best, next) => next.score > best.score ? next : best, { instance: instances[0], score: 0 });
+      if (useful.score > 0 && this.witnessFresh(branch, node, [useful.instance], search)) {
+        return this.expand(branch, node, search);
+      }
+    }
+
+    if (open) {
+      return this.split(branch, node, open, search);
+    }
+
+    // Frame conditions that add worlds are only worth applying once nothing else is left
+    if (search.mode === 'countermodel') {
+      if (instances.length > 0) return this.witnessExisting(branch, node, instances[0], search);
+      return branch.exhausted ? { status: 'unknown' } : { status: 'open', branch };
+    }
+    if (this.witnessFresh(branch, node, instances, search)) {
+      return this.expand(branch, node, search);
+    }
+    if (branch.exhausted) {
+      return { status: 'unknown' };
+    }
+
+    // Nothing left can make an implication fire, so the remaining frame conditions are settled
+    // with worlds already on the branch; failing that proves nothing either way
+    const outcome = this.expand(branch, node, { ...search, mode: 'countermodel' });
+    return outcome.status === 'open' ? outcome : { status: 'unknown' };
+  }
+
+  /**
+   * Spend work from the search's budget, reporting whether it has run out of work or time
+   */
+  private static spend(search: Search, work: number): boolean {
+    search.budget.spent += work;
+    return search.budget.spent > search.budget.limit || Date.now() > search.budget.deadline;
+  }
+
+  private static split(branch: Branch, node: TableauNode, split: Split, search: Search): Outcome {
+    branch.applied.add(split.key);
+    let unknown = false;
+
+    // A countermodel is found sooner down alternatives that name no new worlds
+    const alternatives = search.mode === 'countermodel'
+      ? [...split.alternatives].sort((a, b) => Number(this.addsWorlds(a.formula, a.sign)) - Number(this.addsWorlds(b.formula, b.sign)))
+      : split.alternatives;
+
+    for (const alternative of alternatives) {
+      const child: TableauNode = { entries: [], children: [] };
+      node.children.push(child);
+
+      const childBranch = this.clone(branch);
+      this.addEntry(childBranch, child, alternative);
+
+      const outcome = this.expand(childBranch, child, search);
+      // Once a proof is out of reach, the countermodel search is the better place to look for an open branch
+      if (outcome.status === 'open' || (outcome.status === 'unknown' && search.mode === 'proof')) {
+        return outcome;
+      }
+      if (outcome.status === 'unknown') {
+        unknown = true;
+      }
+    }
+
+    return unknown ? { status: 'unknown' } : { status: 'closed' };
+  }
+
+  /**
+   * Non-branching rules: ∧ true, ∨ not true, ¬ either way, → not true, and a* ≤ a for normal a
+   */
+  private static applyLinearRules(branch: Branch, node: TableauNode, search: Search): boolean {
+    let added = false;
+    const add = (entry: SignedFormula) => {
+      if (this.addEntry(branch, node, entry)) added = true;
+    };
+
+    for (const [key, entry] of Array.from(branch.entries)) {
+      const { formula, sign, world } = entry;
+
+      // Heredity from a normal world's star to the normal world
+      if (search.negation && sign === '+' && branch.normal.has(this.star(world))) add({ formula, sign, world: this.star(world) });
+      if (search.negation && sign === '-' && branch.normal.has(world)) add({ formula, sign, world: this.star(world) });
+
+      if (!formula.subformulas || branch.applied.has(key)) continue;
+      const [first, second] = formula.subformulas;
+
+      switch (formula.operator) {
+        case 'and':
+          if (sign === '+') {
+            branch.applied.add(key);
+            add({ formula: first, sign, world });
+            add({ formula: second, sign, world });
+          }
+          break;
+        case 'or':
+          if (sign === '-') {
+            branch.applied.add(key);
+            add({ formula: first, sign, world });
+            add({ formula: second, sign, world });
+          }
+          break;
+        case 'not':
+          branch.applied.add(key);
+          add({ formula: first, sign: sign === '+' ? '-' : '+', world: this.star(world) });
+          break;
+        case 'implies':
+          if (sign === '-') {
+            if (branch.nextWorld > MAX_WORLDS) {
+              branch.exhausted = true;
+              break;
+            }
+            branch.applied.add(key);
+            // At a normal world a counterexample lives in a single world
+            const normal = branch.normal.has(world);
+            const antecedentWorld = this.newWorld(branch);
+            const consequentWorld = normal ? antecedentWorld : this.newWorld(branch);
+            if (!normal) {
+              this.addTriple(branch, [world, antecedentWorld, consequentWorld]);
+              node.entries.push(`R(${world}, ${antecedentWorld}, ${consequentWorld})`);
+            }
+            add({ formula: first, sign: '+', world: antecedentWorld });
+            add({ formula: second, sign: '-', world: consequentWorld });
+          }
+          break;
+        case 'biconditional':
+          if (sign === '+') {
+            branch.applied.add(key);
+            add({ formula: FormulaBuilder.implies(first, second), sign, world });
+            add({ formula: FormulaBuilder.implies(second, first), sign, world });
+          }
+          break;
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Close the accessibility relation under the frame conditions that add no worlds
+   */
+  private static closeRelations(branch: Branch, search: Search): boolean {
+    let added = false;
+    const add = (triple: Triple) => {
+      if (this.addTriple(branch, triple)) added = true;
+    };
+
+    Array.from(branch.worlds).forEach(world => {
+      branch.normal.forEach(normal => add([normal, world, world]));
+      add([world, world, world]);
+      if (search.negation && search.frame.reductio && !branch.normal.has(world)) add([world, this.star(world), world]);
+    });
+
+    for (const [x, y, z] of Array.from(branch.triples.values())) {
+      if (search.frame.commutation) add([y, x, z]);
+      if (search.negation) add([x, this.star(z), this.star(y)]);
+    }
+
+    return added;
+  }
+
+  /**
+   * Worlds hosting a true implication, with those implications
+   */
+  private static implications(branch: Branch): Map<string, SignedFormula[]> {
+    const implications = new Map<string, SignedFormula[]>();
+    branch.entries.forEach(entry => {
+      if (entry.formula.operator === 'implies' && entry.sign === '+') {
+        implications.set(entry.world, [...(implications.get(entry.world) ?? []), entry]);
+      }
+    });
+    return implications;
+  }
+
+  /**
+   * Frame conditions that demand a witness world v, in instances no world on the branch witnesses yet:
+   *   prefixing    Rxyu ∧ Ruzw ⇒ ∃v (Ryzv ∧ Rxvw)
+   *   suffixing    Rxyu ∧ Ruzw ⇒ ∃v (Rxzv ∧ Ryvw)
+   *   contraction  Rxyz ⇒ ∃v (Rxyv ∧ Rvyz)
+   *   restricted assertion  ∃v (Rxvx) for a normal v
+   * Unless all are asked for, only instances that can place formulas on the branch count - those
+   * whose new triples start from a world hosting a true implication.
+   */
+  private static witnessInstances(
+    branch: Branch,
+    search: Search,
+    implications: Map<string, SignedFormula[]>,
+    all: boolean,
+    limit = Infinity
+  ): WitnessInstance[] {
+    const frame = search.frame;
+    const triples = Array.from(branch.triples.values());
+    const byFirst = new Map<string, Triple[]>();
+    triples.forEach(triple => {
+      const list = byFirst.get(triple[0]) || [];
+      list.push(triple);
+      byFirst.set(triple[0], list);
+    });
+
+    // The worlds completing each pair of positions, so only worlds that fit the first triple are tried as witnesses
+    const completions = [0, 1, 2].map(() => new Map<string, string[]>());
+    triples.forEach(triple => [0, 1, 2].forEach(position => {
+      const key = triple.filter((_, other) => other !== position).join(',');
+      completions[position].set(key, [...(completions[position].get(key) ?? []), triple[position]]);
+    }));
+    const witnessed = (instance: WitnessInstance) => {
+      const [first] = instance.triples;
+      const position = first.indexOf(null);
+      return (completions[position].get(first.filter((_, other) => other !== position).join(',')) ?? [])
+        .some(v => (!instance.normal || branch.normal.has(v)) && this.fill(instance, v).every(triple => this.hasTriple(branch, triple)));
+    };
+
+    // With commutation an implication also fires from the second position
+    const firingPositions = frame.commutation ? [0, 1] : [0];
+    const fires = (instance: WitnessInstance) => instance.triples.some(triple =>
+      firingPositions.some(position => triple[position] !== null && implications.has(triple[position]!)));
+
+    const instances: WitnessInstance[] = [];
+    const consider = (instance: WitnessInstance): boolean => {
+      if ((all || fires(instance)) && !witnessed(instance)) instances.push(instance);
+      return instances.length >= limit;
+    };
+
+    if (frame.restrictedAssertion) {
+      for (const x of all ? branch.worlds : implications.keys()) {
+        if (!branch.normal.has(x) && consider({ triples: [[x, null, x]], normal: true })) return instances;
+      }
+    }
+    for (const [x, y, u] of triples) {
+      // From a normal world the premises themselves are witnesses
+      if (branch.normal.has(x)) continue;
+      if (frame.witnessRules.includes('contraction') && !(x === y && y === u) &&
+        consider({ triples: [[x, y, null], [null, y, u]], normal: false })) return instances;
+      for (const [, z, w] of byFirst.get(u) || []) {
+        search.budget.spent++;
+        if (frame.witnessRules.includes('prefixing') &&
+          consider({ triples: [[y, z, null], [x, null, w]], normal: false })) return instances;
+        if (frame.witnessRules.includes('suffixing') &&
+          consider({ triples: [[x, z, null], [y, null, w]], normal: false })) return instances;
+      }
+    }
+    return instances;
+  }
+
+  /**
+   * How many of the instance's new triples let a true implication fire with one alternative
+   * contradicting the branch, counting what the other new triples first place on the witness
+   */
+  private static usefulness(branch: Branch, instance: WitnessInstance, search: Search, implications: Map<string, SignedFormula[]>): number {
+    const forced = this.forcedWitness(branch, instance, search.frame);
+    if (forced === undefined) return 0;
+
+    // A new world hosts nothing yet, so this name never matches an entry
+    const witness = forced ?? '?';
+    const views = this.fill(instance, witness).map(([x, y, z]) => [
+      [x, y, z],
+      ...(search.frame.commutation ? [[y, x, z]] : []),
+      ...(search.negation ? [[x, this.star(z), this.star(y)]] : []),
+      ...(search.negation && search.frame.commutation ? [[y, this.star(z), this.star(x)]] : [])
+    ]);
+
+    const gained = new Map<string, SignedFormula>();
+    const holds = (entry: SignedFormula) => branch.entries.has(this.entryKey(entry)) || gained.has(this.entryKey(entry));
+    const implicationsAt = (world: string) => [
+      ...(implications.get(world) ?? []),
+      ...Array.from(gained.values()).filter(entry => entry.world === world && entry.sign === '+' && entry.formula.operator === 'implies')
+    ];
+    const fire = ([x, y, z]: string[], propagate: boolean) => implicationsAt(x).some(({ formula }) => {
+      const [antecedent, consequent] = formula.subformulas!;
+      const entries = { antecedent: { formula: antecedent, sign: '-' as const, world: y }, consequent: { formula: consequent, sign: '+' as const, world: z } };
+      if (holds(this.complement(entries.antecedent))) {
+        if (propagate) gained.set(this.entryKey(entries.consequent), entries.consequent);
+        return true;
+      }
+      if (holds(this.complement(entries.consequent))) {
+        if (propagate) gained.set(this.entryKey(entries.antecedent), entries.antecedent);
+        return true;
+      }
+      return false;
+    });
+
+    views.flat().forEach(view => fire(view, true));
+    return views.filter(tripleViews => tripleViews.some(view => fire(view, false))).length;
+  }
+
+  /**
+   * Apply the first instance that can be witnessed without going past the world bound,
+   * naming a new world unless a normal world fixes the witness
+   */
+  private static witnessFresh(branch: Branch, node: TableauNode, instances: WitnessInstance[], search: Search): boolean {
+    for (const instance of instances) {
+      search.budget.spent++;
+      const forced = this.forcedWitness(branch, instance, search.frame);
+      if (forced === undefined) continue;
+
+      if (forced === null && branch.nextWorld > MAX_WORLDS) {
+        branch.exhausted = true;
+        continue;
+      }
+      const witness = forced ?? this.newWorld(branch);
+      if (forced === null && instance.normal) branch.normal.add(witness);
+
+      const triples = this.fill(instance, witness);
+      triples.forEach(triple => this.addTriple(branch, triple));
+      node.entries.push(...triples.map(triple => `R(${triple.join(', ')})`));
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Witness the instance with each world already on the branch in turn, then with a new one,
+   * stopping at the first that leaves an open branch
+   */
+  private static witnessExisting(branch: Branch, node: TableauNode, instance: WitnessInstance, search: Search): Outcome {
+    const forced = this.forcedWitness(branch, instance, search.frame);
+    if (forced === undefined) return { status: 'closed' };
+
+    const present = (v: string) => this.fill(instance, v).filter(triple => this.hasTriple(branch, triple)).length;
+    const existing = forced !== null ? [forced] : Array.from(instance.normal ? branch.normal : branch.worlds)
+      .filter(v => !this.fill(instance, v).some(triple => this.isImpossible(branch, triple, search.frame)))
+      .sort((v, w) => present(w) - present(v));
+    const witnesses: Array<string | null> = forced === null && branch.nextWorld <= MAX_WORLDS ? [...existing, null] : existing;
+
+    let unknown = false;
+    for (const witness of witnesses) {
+      if (this.spend(search, 1)) return { status: 'unknown' };
+      const child: TableauNode = { entries: [], children: [] };
+      node.children.push(child);
+
+      const childBranch = this.clone(branch);
+      const world = witness ?? this.newWorld(childBranch);
+      if (witness === null && instance.normal) childBranch.normal.add(world);
+      const triples = this.fill(instance, world);
+      triples.forEach(triple => this.addTriple(childBranch, triple));
+      child.entries.push(...triples.map(triple => `R(${triple.join(', ')})`));
+
+      const outcome = this.expand(childBranch, child, search);
+      if (outcome.status === 'open') {
+        return outcome;
+      }
+      if (outcome.status === 'unknown') {
+        unknown = true;
+      }
+    }
+
+    return unknown ? { status: 'unknown' } : { status: 'closed' };
+  }
+
+  /**
+   * A normal world relates a world only to itself, which fixes the witness when a new triple starts
+   * from one (or, with commutation, has one second): null when nothing fixes it, undefined when
+   * no witness can satisfy the instance
+   */
+  private static forcedWitness(branch: Branch, instance: WitnessInstance, frame: Frame): string | null | undefined {
+    const pairs = frame.commutation ? [[0, 1], [1, 0]] : [[0, 1]];
+    let forced: string | null = null;
+
+    for (const triple of instance.triples) {
+      for (const [first, second] of pairs) {
+        const normal = triple[first];
+        if (normal === null || !branch.normal.has(normal)) continue;
+        const [y, z] = [triple[second], triple[2]];
+        const world = y ?? z;
+        if (world === null || (y !== null && z !== null)) {
+          if (y !== z) return undefined;
+          continue;
+        }
+        if (forced !== null && forced !== world) return undefined;
+        forced = world;
+      }
+    }
+
+    if (forced !== null && instance.normal && !branch.normal.has(forced)) return undefined;
+    return forced !== null && this.fill(instance, forced).some(triple => this.isImpossible(branch, triple, frame))
+      ? undefined
+      : forced;
+  }
+
+  private static isImpossible(branch: Branch, [x, y, z]: Triple, frame: Frame): boolean {
+    return (branch.normal.has(x) && y !== z) || (frame.commutation && branch.normal.has(y) && x !== z);
+  }
+
+  private static fill(instance: WitnessInstance, witness: string): Triple[] {
+    return instance.triples.map(triple => triple.map(world => world ?? witness) as Triple);
+  }
+
+  /**
+   * Branching rules: ∧ not true, ∨ true, and → true at x for each Rxyz. A split with an alternative
+   * that contradicts the branch at once is closing; any other is open.
+   */
+  private static findSplit(branch: Branch): { closing?: Split; open?: Split } {
+    let open: Split | undefined;
+
+    for (const [key, entry] of branch.entries) {
+      const { formula, sign, world } = entry;
+      if (!formula.subformulas) continue;
+      const [first, second] = formula.subformulas;
+
+      const candidates: Split[] = [];
+
+      if ((formula.operator === 'and' && sign === '-') || (formula.operator === 'or' && sign === '+')) {
+        candidates.push({
+          key,
+          alternatives: [
+            { formula: first, sign, world },
+            { formula: second, sign, world }
+          ]
+        });
+      }
+
+      if (formula.operator === 'biconditional' && sign === '-') {
+        candidates.push({
+          key,
+          alternatives: [
+            { formula: FormulaBuilder.implies(first, second), sign, world },
+            { formula: FormulaBuilder.implies(second, first), sign, world }
+          ]
+        });
+      }
+
+      if (formula.operator === 'implies' && sign === '+') {
+        branch.triples.forEach(([x, y, z]) => {
+          if (x !== world) return;
+          candidates.push({
+            key: `${key}|${y}|${z}`,
+            alternatives: [
+              { formula: first, sign: '-', world: y },
+              { formula: second, sign: '+', world: z }
+            ]
+          });
+        });
+      }
+
+      for (const candidate of candidates) {
+        if (branch.applied.has(candidate.key)) continue;
+        // Splitting is pointless when one alternative already holds on the branch
+        if (candidate.alternatives.some(alternative => branch.entries.has(this.entryKey(alternative)))) {
+          branch.applied.add(candidate.key);
+          continue;
+        }
+        // Prefer splits where an alternative closes at once, keeping the tableau narrow
+        if (candidate.alternatives.some(alternative => branch.entries.has(this.entryKey(this.complement(alternative))))) {
+          return { closing: candidate };
+        }
+        open = open || candidate;
+      }
+    }
+
+    return { open };
+  }
+
+  private static complement(entry: SignedFormula): SignedFormula {
+    return { ...entry, sign: entry.sign === '+' ? '-' : '+' };
+  }
+
+  private static findContradiction(branch: Branch): string | null {
+    for (const entry of branch.entries.values()) {
+      // ⊤ holds and ⊥ fails at every world
+      if ((entry.formula.operator === 'top' && entry.sign === '-') || (entry.formula.operator === 'zero' && entry.sign === '+')) {
+        return `${FormulaUtils.toString(entry.formula)} at ${entry.world}`;
+      }
+      if (entry.sign === '+' && branch.entries.has(this.entryKey(this.complement(entry)))) {
+        return `${FormulaUtils.toString(entry.formula)} at ${entry.world}`;
+      }
+    }
+    return null;
+  }
+
+  private static addEntry(branch: Branch, node: TableauNode, entry: SignedFormula): boolean {
+    const key = this.entryKey(entry);
+    if (branch.entries.has(key)) return false;
+
+    branch.entries.set(key, entry);
+    branch.worlds.add(entry.world);
+    node.entries.push(this.render(entry));
+    return true;
+  }
+
+  private static addTriple(branch: Branch, triple: Triple): boolean {
+    if (this.hasTriple(branch, triple)) return false;
+
+    branch.triples.set(triple.join(','), triple);
+    triple.forEach(world => branch.worlds.add(world));
+    return true;
+  }
+
+  private static hasTriple(branch: Branch, triple: Triple): boolean {
+    return branch.triples.has(triple.join(','));
+  }
+
+  private static newWorld(branch: Branch): string {
+    const world = `${branch.nextWorld++}`;
+    branch.worlds.add(world);
+    return world;
+  }
+
+  private static clone(branch: Branch): Branch {
+    return {
+      entries: new Map(branch.entries),
+      triples: new Map(branch.triples),
+      worlds: new Set(branch.worlds),
+      applied: new Set(branch.applied),
+      normal: new Set(branch.normal),
+      nextWorld: branch.nextWorld,
+      exhausted: branch.exhausted
+    };
+  }
+
+  private static entryKey(entry: SignedFormula): string {
+    return `${entry.sign}${entry.world}|${FormulaUtils.toString(entry.formula)}`;
+  }
+
+  private static render(entry: SignedFormula): string {
+    return `${FormulaUtils.toString(entry.formula)}, ${entry.sign}${entry.world}`;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Relevant Deduction Module
+ * Goal-directed proof search in Anderson and Belnap's Fitch-style natural deduction for R and E
+ *
+ * Every line carries the set of hypotheses it rests on. Modus ponens rests on the hypotheses of
+ * both its premises, conditional proof discharges a hypothesis only from a line resting on it,
+ * and ∧-introduction needs both conjuncts to rest on the same set, so no line rests on a
+ * hypothesis it does not use. The argument's premises rest on nothing, like theorems. E also
+ * lets only entailments - implications and biconditionals - be carried into a subproof from
+ * outside it, so a contingent line cannot be used under a hypothesis.
+ *
+ * The search works backwards: an implication to prove opens a subproof, a conjunction or
+ * biconditional is proved part by part, and anything else is reached from a line in scope by
+ * modus ponens and ∧-elimination, or by cases on a disjunction. Negation is not analysed, so a
+ * negated formula only matches itself.
+ */
+
+import { FormulaBuilder, FormulaUtils } from "./formula.js";
+import { RelevantSystem } from "./relevance-tableau.js";
+import { LogicFormula, SearchBudget } from "../types.js";
+
+// Hypotheses open at once on one path of the search; each is a bit of a line's resting set
+const MAX_HYPOTHESES = 12;
+
+type Rule = 'premise' | 'hypothesis' | '→E' | '→I' | '∧E' | '∧I' | '↔E' | '↔I' | '∨I' | '∨E' | '⊤I' | '⊥E';
+
+interface Line {
+  formula: LogicFormula;
+  rests: number;                // Bitmask of the hypotheses the line rests on
+  rule: Rule;
+  from: Line[];
+  depth: number;                // Subproof the line is written in
+}
+
+interface Context {
+  lines: Line[];                // Premises, hypotheses and their conjuncts in scope
+  depth: number;
+  hypotheses: number;           // Hypotheses opened so far on this path
+  cases: Set<Line>;             // Disjunctions already split on this path
+}
+
+interface Search {
+  system: RelevantSystem;
+  memo: Map<string, Line | null>;
+  budget: SearchBudget;
+  hypotheses: number;           // Bound on hypotheses open at once in this round
+  bounded: boolean;             // Whether the bound cut off a subproof
+}
+
+export class RelevantDeduction {
+
+  /**
+   * Derive the conclusion from the premises, returning the numbered proof lines,
+   * or null when no proof turned up within the budget
+   */
+  static prove(premises: LogicFormula[], conclusion: LogicFormula, budget: SearchBudget, system: RelevantSystem = 'R'): string[] | null {
+    const context: Context = {
+      lines: premises.flatMap(formula => this.conjuncts({ formula, rests: 0, rule: 'premise', from: [], depth: 0 })),
+      depth: 0,
+      hypotheses: 0,
+      cases: new Set()
+    };
+
+    // Deepen the bound on open hypotheses one at a time, as a subproof opened too early can nest
+    // hypothesis after hypothesis without ever using them
+    for (let hypotheses = 1; hypotheses <= MAX_HYPOTHESES; hypotheses++) {
+      const search: Search = { system, memo: new Map(), budget, hypotheses, bounded: false };
+      const proof = this.derive(conclusion, 0, context, search);
+      if (proof) return this.render(proof);
+      if (!search.bounded || this.spend(search, 0)) break;
+    }
+    return null;
+  }
+
+  private static derive(goal: LogicFormula, rests: number, context: Context, search: Search): Line | null {
+    const key = `${FormulaUtils.toString(goal)}|${rests}|${context.depth}|${this.inScope(context, search).map(line => this.lineKey(line)).join(';')}`;
+    if (search.memo.has(key)) return search.memo.get(key)!;
+
+    // Assume failure while this goal is open so a repeated goal cannot recurse
+    search.memo.set(key, null);
+    const proof = this.spend(search, context.lines.length) ? null : this.proveUncached(goal, rests, context, search);
+    search.memo.set(key, proof);
+    return proof;
+  }
+
+  private static proveUncached(goal: LogicFormula, rests: number, context: Context, search: Search): Line | null {
+    const line = (rule: Rule, from: Line[]): Line => ({ formula: goal, rests, rule, from, depth: context.depth });
+    const [first, second] = goal.subformulas ?? [];
+
+    switch (goal.operator) {
+      case 'top':
+        return line('⊤I', []);
+      case 'implies': {
+        if (context.hypotheses >= search.hypotheses) {
+          search.bounded = true;
+          return null;
+        }
+        const hypothesis: Line = { formula: first, rests: 1 << context.hypotheses, rule: 'hypothesis', from: [], depth: context.depth + 1 };
+        const body = this.derive(second, rests | hypothesis.rests, {
+          lines: [...context.lines, ...this.conjuncts(hypothesis)],
+          depth: context.depth + 1,
+          hypotheses: context.hypotheses + 1,
+          cases: context.cases
+        }, search);
+        return body && line('→I', [body, hypothesis]);
+      }
+      case 'biconditional':
+      case 'and': {
+        const parts = goal.operator === 'and'
+          ? [first, second]
+          : [FormulaBuilder.implies(first, second), FormulaBuilder.implies(second, first)];
+        const proofs: Line[] = [];
+        for (const part of parts) {
+          const proof = this.derive(part, rests, context, search);
+          if (!proof) return null;
+          proofs.push(proof);
+        }
+        return line(goal.operator === 'and' ? '∧I' : '↔I', proofs);
+      }
+      case 'or':
+        for (const disjunct of [first, second]) {
+          const proof = this.derive(disjunct, rests, context, search);
+          if (proof) return line('∨I', [proof]);
+        }
+        break;
+    }
+
+    // Only lines resting on hypotheses the goal may rest on can contribute to it
+    const usable = this.inScope(context, search).filter(candidate => (candidate.rests & ~rests) === 0);
+    for (const candidate of usable) {
+      const proof = this.reach(candidate, goal, rests, context, search);
+      if (proof) return proof;
+    }
+
+    // Cases on A ∨ B resting on a: A → C and B → C resting on b give C resting on a ∪ b
+    for (const disjunction of usable.filter(candidate => candidate.formula.operator === 'or' && !context.cases.has(candidate))) {
+      const [left, right] = disjunction.formula.subformulas!;
+      const cases = { ...context, cases: new Set([...context.cases, disjunction]) };
+      for (const other of this.submasks(rests, rests & ~disjunction.rests)) {
+        const ifLeft = this.derive(FormulaBuilder.implies(left, goal), other, cases, search);
+        const ifRight = ifLeft && this.derive(FormulaBuilder.implies(right, goal), other, cases, search);
+        if (ifLeft && ifRight) return line('∨E', [disjunction, ifLeft, ifRight]);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Reach the goal resting on exactly the given hypotheses from one line,
+   * by ∧-elimination and by modus ponens on an antecedent proved along the way
+   */
+  private static reach(from: Line, goal: LogicFormula, rests: number, context: Context, search: Search): Line | null {
+    if (this.spend(search, 1)) return null;
+    if (from.rests === rests && FormulaUtils.toString(from.formula) === FormulaUtils.toString(goal)) return from;
+    if (!this.leadsTo(from.formula, goal)) return null;
+
+    const derived = (formula: LogicFormula, lineRests: number, rule: Rule, premises: Line[]): Line =>
+      ({ formula, rests: lineRests, rule, from: premises, depth: context.depth });
+    const [first, second] = from.formula.subformulas ?? [];
+
+    switch (from.formula.operator) {
+      case 'zero':
+        return from.rests === rests ? derived(goal, rests, '⊥E', [from]) : null;
+      case 'and':
+        return this.reach(derived(first, from.rests, '∧E', [from]), goal, rests, context, search)
+          ?? this.reach(derived(second, from.rests, '∧E', [from]), goal, rests, context, search);
+      case 'biconditional':
+        return this.reach(derived(FormulaBuilder.implies(first, second), from.rests, '↔E', [from]), goal, rests, context, search)
+          ?? this.reach(derived(FormulaBuilder.implies(second, first), from.rests, '↔E', [from]), goal, rests, context, search);
+      case 'implies': {
+        // Only when the consequent is the goal itself must the antecedent supply every missing hypothesis
+        const last = FormulaUtils.toString(second) === FormulaUtils.toString(goal);
+        for (const antecedentRests of this.submasks(rests, last ? rests & ~from.rests : 0)) {
+          const antecedent = this.derive(first, antecedentRests, context, search);
+          if (!antecedent) continue;
+          const proof = this.reach(derived(second, from.rests | antecedentRests, '→E', [from, antecedent]), goal, rests, context, search);
+          if (proof) return proof;
+        }
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Whether eliminating connectives from the formula can end in the goal
+   */
+  private static leadsTo(formula: LogicFormula, goal: LogicFormula): boolean {
+    if (formula.operator === 'zero' || FormulaUtils.toString(formula) === FormulaUtils.toString(goal)) return true;
+    const [first, second] = formula.subformulas ?? [];
+
+    switch (formula.operator) {
+      case 'and':
+      case 'biconditional':
+        return this.leadsTo(first, goal) || this.leadsTo(second, goal);
+      case 'implies':
+        return this.leadsTo(second, goal);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Lines the current subproof can use: in E, those written outside it only when they are entailments
+   */
+  private static inScope(context: Context, search: Search): Line[] {
+    if (search.system === 'R') return context.lines;
+    return context.lines.filter(line => line.depth === context.depth ||
+      line.formula.operator === 'implies' || line.formula.operator === 'biconditional');
+  }
+
+  /**
+   * A line with its conjuncts, so cases can be split on a disjunction inside a conjunction
+   */
+  private static conjuncts(line: Line): Line[] {
+    if (line.formula.operator !== 'and') return [line];
+    return [line, ...line.formula.subformulas!.flatMap(sub =>
+      this.conjuncts({ formula: sub, rests: line.rests, rule: '∧E', from: [line], depth: line.depth }))];
+  }
+
+  /**
+   * Every subset of the mask that contains the required bits, fewest bits first
+   */
+  private static submasks(mask: number, required: number): number[] {
+    const subsets: number[] = [];
+    for (let subset = mask; ; subset = (subset - 1) & mask) {
+      if ((subset & required) === required) subsets.push(subset);
+      if (subset === 0) break;
+    }
+    return subsets.sort((a, b) => this.countBits(a) - this.countBits(b));
+  }
+
+  private static countBits(mask: number): number {
+    let count = 0;
+    for (let bits = mask; bits > 0; bits >>= 1) {
+      count += bits & 1;
+    }
+    return count;
+  }
+
+  private static spend(search: Search, work: number): boolean {
+    search.budget.spent += work;
+    return search.budget.spent > search.budget.limit || Date.now() > search.budget.deadline;
+  }
+
+  private static lineKey(line: Line): string {
+    return `${FormulaUtils.toString(line.formula)}@${line.rests}`;
+  }
+
+  /**
+   * Number the lines of a proof, each after the lines it cites and hypotheses before their subproofs:
+   * "3. B → C {1, 3} →E 1, 2", indented by subproof
+   */
+  private static render(proof: Line): string[] {
+    const numbers = new Map<Line, number>();
+    const lines: string[] = [];
+
+    const visit = (line: Line) => {
+      if (numbers.has(line)) return;
+      // The hypothesis comes first in a subproof, before the lines that use it
+      const order = line.rule === '→I' ? [...line.from].reverse() : line.from;
+      order.forEach(visit);
+      numbers.set(line, numbers.size + 1);
+
+      const hypotheses = Array.from({ length: MAX_HYPOTHESES }, (_, bit) => bit + 1).filter(n => line.rests & (1 << (n - 1)));
+      const cites = line.from.map(premise => numbers.get(premise)!);
+      lines.push(`${'  '.repeat(line.depth)}${numbers.size}. ${FormulaUtils.toString(line.formula)} {${hypotheses.join(', ')}} ${line.rule}${cites.length ? ` ${cites.join(', ')}` : ''}`);
+    };
+
+    visit(proof);
+    return lines;
+  }
+}
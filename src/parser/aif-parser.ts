@@ -0,0 +1,209 @@
+/**
+ * AIF Parser
+ * Reads an Argument Interchange Format document (AIFdb JSON of nodes and edges) into the
+ * atom_groupings, premises and conclusion build_symbolic_argument takes, plus the evidence
+ * items evidence_gathering takes
+ *
+ * The conclusion is the I-node an RA-node concludes that feeds no further inference; the
+ * premises are the I-nodes its support rests on. Each I-node becomes an atom grouping with its
+ * text as concept_description, unless it carries the symbolic "formula" AifExport writes. An
+ * RA-node without a derivation "rule" is a defeasible step, so its inputs together implying its
+ * output is added as a warrant premise. I-nodes that carry a citation or strength, or only
+ * attack through CA-nodes, are evidence rather than premises.
+ */
+
+import { FormulaBuilder } from "../logic/formula.js";
+import { PremiseParser } from "../logic/premise-parser.js";
+import { ArgumentFormulas } from "../export/argument-formulas.js";
+import { AifDocument, AifEdge, AifNode, AifParseResult, AtomGrouping, EvidenceItem, LogicFormula } from "../types.js";
+
+export class AifParser {
+
+  static parse(input: AifDocument | string): AifParseResult {
+    let document: unknown = input;
+    if (typeof input === 'string') {
+      try {
+        document = JSON.parse(input);
+      } catch (error) {
+        return {
+          error: `UNREADABLE AIF: ${error instanceof Error ? error.message : String(error)}. ` +
+            "SPECIFIC NEXT STEP: Pass the AIF document as JSON, as AIFdb or export_aif writes it."
+        };
+      }
+    }
+    if (!this.isDocument(document)) {
+      return {
+        error: "NOT AN AIF DOCUMENT: Expected \"nodes\" and \"edges\" arrays. " +
+          "SPECIFIC NEXT STEP: Pass an object with \"nodes\" ({nodeID, text, type}) and \"edges\" ({fromID, toID}), as AIFdb exports them."
+      };
+    }
+
+    const nodes = new Map(document.nodes.map(node => [String(node.nodeID), node]));
+    const into = new Map<string, string[]>();
+    const outOf = new Map<string, string[]>();
+    document.edges.forEach(edge => {
+      const from = String(edge.fromID);
+      const to = String(edge.toID);
+      if (!nodes.has(from) || !nodes.has(to)) return;
+      outOf.set(from, [...(outOf.get(from) ?? []), to]);
+      into.set(to, [...(into.get(to) ?? []), from]);
+    });
+    const sources = (id: string) => into.get(id) ?? [];
+    const targets = (id: string) => outOf.get(id) ?? [];
+    const typeOf = (id: string) => nodes.get(id)?.type;
+    const problems: string[] = [];
+
+    // Evidence and the applications that only carry evidence
+    const evidence = new Set(document.nodes
+      .filter(node => node.type === 'I' && (node.citation !== undefined || node.strength !== undefined || (
+        sources(String(node.nodeID)).length === 0 &&
+        targets(String(node.nodeID)).length > 0 &&
+        targets(String(node.nodeID)).every(id => typeOf(id) === 'CA'))))
+      .map(node => String(node.nodeID)));
+    const applications = new Set(document.nodes
+      .filter(node => (node.type === 'RA' || node.type === 'CA') &&
+        sources(String(node.nodeID)).length > 0 &&
+        sources(String(node.nodeID)).every(id => evidence.has(id)))
+      .map(node => String(node.nodeID)));
+    const inferences = new Set(document.nodes
+      .filter(node => node.type === 'RA' && !applications.has(String(node.nodeID)))
+      .map(node => String(node.nodeID)));
+    const isClaim = (id: string) => typeOf(id) === 'I' && !evidence.has(id);
+
+    // The conclusion concludes an inference and feeds none
+    const conclusions = document.nodes
+      .map(node => String(node.nodeID))
+      .filter(id => isClaim(id) &&
+        sources(id).some(source => inferences.has(source)) &&
+        !targets(id).some(target => inferences.has(target)));
+    if (conclusions.length === 0) {
+      return {
+        error: "NO INFERENCE: No RA-node concludes an I-node, so the document has no conclusion to check. " +
+          "SPECIFIC NEXT STEP: Connect the premise I-nodes to an RA-node and the RA-node to the conclusion I-node."
+      };
+    }
+
+    const support = (conclusion: string) => {
+      const claims: string[] = [];
+      const used: string[] = [];
+      const visit = (id: string) => {
+        if (claims.includes(id)) return;
+        claims.push(id);
+        sources(id).filter(source => inferences.has(source) && !used.includes(source)).forEach(inference => {
+          used.push(inference);
+          sources(inference).filter(isClaim).forEach(visit);
+        });
+      };
+      visit(conclusion);
+      return { claims, used };
+    };
+    const supports = conclusions.map(support);
+    const chosen = supports.reduce((best, next, index) =>
+      next.claims.length > supports[best].claims.length ? index : best, 0);
+    const conclusionId = conclusions[chosen];
+    const { claims, used } = supports[chosen];
+    conclusions.filter(id => id !== conclusionId).forEach(id => {
+      problems.push(`SEVERAL CONCLUSIONS: I-node ${id} ("${nodes.get(id)!.text}") is also concluded and was left out; import it separately to check it.`);
+    });
+
+    // Atoms first, so formulas can be read over their symbols; I-nodes with a symbol are atoms even outside the support
+    const atoms: AtomGrouping[] = [];
+    const symbolFormulas = new Map<string, LogicFormula>();
+    const premiseText = new Map<string, string>();
+    const order = (ids: string[]) => document.nodes.map(node => String(node.nodeID)).filter(id => ids.includes(id));
+    document.nodes
+      .filter(node => isClaim(String(node.nodeID)) && node.formula === undefined &&
+        (node.symbol !== undefined || claims.includes(String(node.nodeID))))
+      .forEach(node => premiseText.set(String(node.nodeID), this.atom(node, atoms, symbolFormulas)));
+    order(claims).filter(id => nodes.get(id)!.formula !== undefined).forEach(id => {
+      const node = nodes.get(id)!;
+      const { formula, error } = PremiseParser.parse(node.formula!, symbolFormulas);
+      if (formula) {
+        premiseText.set(id, ArgumentFormulas.symbolic(formula));
+      } else {
+        problems.push(`UNREADABLE FORMULA: I-node ${id} "${node.formula}" does not parse (${error?.message}); it was read as an atom.`);
+        premiseText.set(id, this.atom({ ...node, formula: undefined }, atoms, symbolFormulas));
+      }
+    });
+
+    const premises = order(claims)
+      .filter(id => !sources(id).some(source => used.includes(source)))
+      .map(id => premiseText.get(id)!);
+
+    // Defeasible steps need their warrant stated to be checked deductively
+    const operand = (id: string) => {
+      const text = premiseText.get(id)!;
+      return symbolFormulas.has(text) ? text : `(${text})`;
+    };
+    used.filter(id => nodes.get(id)!.rule === undefined).forEach(id => {
+      const inputs = sources(id).filter(isClaim);
+      const output = targets(id).find(isClaim);
+      if (inputs.length === 0 || output === undefined) return;
+      const warrant = `${inputs.map(operand).join(' ∧ ')} → ${operand(output)}`;
+      premises.push(warrant);
+      problems.push(`WARRANT ADDED: RA-node ${id} ("${nodes.get(id)!.text}") is not a deductive rule, so "${warrant}" was added as a premise.`);
+    });
+
+    document.nodes
+      .filter(node => node.type === 'CA' && !applications.has(String(node.nodeID)))
+      .forEach(node => {
+        problems.push(`CONFLICT IGNORED: CA-node ${node.nodeID} is between claims of the argument; only conflicts from evidence I-nodes are imported.`);
+      });
+
+    const targetText = (id: string) => premiseText.get(id) ?? nodes.get(id)!.symbol ?? nodes.get(id)!.formula ?? nodes.get(id)!.text;
+    const items: EvidenceItem[] = [];
+    document.nodes.filter(node => evidence.has(String(node.nodeID))).forEach(node => {
+      targets(String(node.nodeID)).filter(id => applications.has(id)).forEach(application => {
+        targets(application).filter(id => typeOf(id) === 'I').forEach(target => {
+          items.push({
+            target: targetText(target),
+            summary: node.text,
+            strength: node.strength ?? (typeOf(application) === 'CA' ? -1 : 1),
+            citation: node.citation ?? ''
+          });
+        });
+      });
+    });
+
+    return {
+      argument: {
+        atom_groupings: atoms,
+        premises,
+        conclusion: premiseText.get(conclusionId)!,
+        evidence: items,
+        problems
+      }
+    };
+  }
+
+  private static isDocument(document: unknown): document is { nodes: AifNode[]; edges: AifEdge[] } {
+    if (typeof document !== 'object' || document === null) return false;
+    const { nodes, edges } = document as { nodes?: unknown; edges?: unknown };
+    return Array.isArray(nodes) && Array.isArray(edges) &&
+      nodes.every(node => typeof node === 'object' && node !== null && 'nodeID' in node && typeof (node as AifNode).type === 'string') &&
+      edges.every(edge => typeof edge === 'object' && edge !== null && 'fromID' in edge && 'toID' in edge);
+  }
+
+  /**
+   * The symbol for an I-node read as an atom; I-nodes with the same text share one
+   */
+  private static atom(node: AifNode, atoms: AtomGrouping[], symbolFormulas: Map<string, LogicFormula>): string {
+    const description = (node.text ?? '').replace(/\s+/g, ' ').trim();
+    const existing = atoms.find(atom => atom.concept_description.toLowerCase() === description.toLowerCase());
+    if (existing) return existing.symbol;
+
+    let stem: string;
+    if (node.symbol && /^[A-Za-z_][A-Za-z0-9_]*$/.test(node.symbol)) {
+      stem = node.symbol;
+    } else {
+      const base = (description.toUpperCase().match(/[A-Z0-9]+/g) ?? []).slice(0, 3).join('_') || 'STATEMENT';
+      stem = /^[0-9]/.test(base) ? `S_${base}` : base;
+    }
+    let symbol = stem;
+    for (let n = 2; symbolFormulas.has(symbol); n++) symbol = `${stem}_${n}`;
+
+    atoms.push({ symbol, concept_description: description, text_variants: [description] });
+    symbolFormulas.set(symbol, FormulaBuilder.atomic(symbol, [], description));
+    return symbol;
+  }
+}
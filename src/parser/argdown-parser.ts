@@ -0,0 +1,353 @@
+/**
+ * Argdown Parser
+ * Reads Argdown premise-conclusion structures into the atom_groupings, premises, conclusion and
+ * lemmas build_symbolic_argument takes
+ *
+ * Numbered statements "(1) ..." are premises until an inference line ("----", or a "--" block
+ * naming the rule, optionally with {uses: [1, 2]}); the statement after it is that step's
+ * conclusion. A statement is an atom, named by its [Title] or by its first words, unless it
+ * mentions other statements with @[Title] - then its connectives ("if ... then", "and", "or",
+ * "not", "iff" or the symbolic spellings) make it a compound premise over them. "[Title]" alone
+ * refers to a statement defined elsewhere in the document, as "[Title]: text" does at top level.
+ * A statement's data may give its symbol and text_variants exactly, as ArgdownExport writes them:
+ * {"symbol": "Auth", "text_variants": ["auth works"]}.
+ *
+ * Every conclusion before the last becomes a lemma, so multi-step arguments and earlier
+ * arguments in the document are checked step by step. A step without {uses} rests on the
+ * statements since the previous inference line and on the previous conclusion.
+ */
+
+import { FormulaBuilder } from "../logic/formula.js";
+import { PremiseParser } from "../logic/premise-parser.js";
+import { ArgdownImport, ArgdownParseResult, ArgumentLemma, AtomGrouping, LogicFormula } from "../types.js";
+
+interface Statement {
+  number: number;               // 0 for top-level definitions
+  title?: string;
+  text: string;
+  data?: StatementData;
+}
+
+// What a statement's JSON data can say about the atom it becomes
+interface StatementData {
+  symbol?: string;
+  text_variants?: string[];
+}
+
+type PcsItem =
+  | { kind: 'statement'; statement: Statement }
+  | { kind: 'inference'; uses?: number[] };
+
+interface Pcs {
+  title?: string;
+  items: PcsItem[];
+}
+
+interface Step {
+  premises: Statement[];
+  conclusion: Statement;
+}
+
+interface ReadState {
+  definitions: Map<string, Statement>;
+  resolved: Map<string, string>;            // Title -> premise text
+  atoms: AtomGrouping[];
+  symbolFormulas: Map<string, LogicFormula>;
+  problems: string[];
+}
+
+export class ArgdownParser {
+
+  static parse(source: string): ArgdownParseResult {
+    const { definitions, structures } = this.scan(source);
+    const state: ReadState = { definitions, resolved: new Map(), atoms: [], symbolFormulas: new Map(), problems: [] };
+
+    const steps: Step[] = [];
+    let title: string | undefined;
+    structures.forEach(pcs => {
+      const pcsSteps = this.steps(pcs, state.problems);
+      if (pcsSteps.length > 0) {
+        steps.push(...pcsSteps);
+        title = pcs.title;
+      }
+    });
+
+    if (steps.length === 0) {
+      return {
+        error: "NO PREMISE-CONCLUSION STRUCTURE: The Argdown has no numbered premises followed by an inference line and a conclusion. " +
+          "SPECIFIC NEXT STEP: Number the premises \"(1) ...\", put a \"----\" line under them and the numbered conclusion after it."
+      };
+    }
+
+    // Top-level statements are the document's glossary, so their symbols come first and in order
+    definitions.forEach(definition => {
+      if (definition.number === 0) this.premiseText(definition, state);
+    });
+
+    // Then statements in document order so generated symbols follow the text
+    const read = (step: Step) => ({
+      premises: step.premises.map(statement => this.premiseText(statement, state)),
+      conclusion: this.premiseText(step.conclusion, state)
+    });
+    const readSteps = steps.map(read);
+    const main = readSteps[readSteps.length - 1];
+    const lemmas: ArgumentLemma[] = readSteps.slice(0, -1).map((step, index) => ({ name: `L${index + 1}`, ...step }));
+
+    const argument: ArgdownImport = {
+      ...(title && { title }),
+      atom_groupings: state.atoms,
+      premises: main.premises,
+      conclusion: main.conclusion,
+      lemmas,
+      problems: state.problems
+    };
+    return { argument };
+  }
+
+  /**
+   * Top-level statement definitions and premise-conclusion structures, in document order
+   */
+  private static scan(source: string): { definitions: Map<string, Statement>; structures: Pcs[] } {
+    const definitions = new Map<string, Statement>();
+    const structures: Pcs[] = [];
+    let current: Pcs | undefined;
+    let last: Statement | undefined;
+    let ruleBlock: string[] | undefined;
+
+    const lines = source
+      .replace(/\/\*[\s\S]*?\*\//g, '')
+      .replace(/(^|\s)\/\/.*$/gm, '$1')
+      .split('\n');
+
+    lines.forEach(line => {
+      const trimmed = line.trim();
+      let match: RegExpMatchArray | null;
+
+      if (ruleBlock) {
+        if (/^-{2,}$/.test(trimmed)) {
+          current?.items.push({ kind: 'inference', uses: this.uses(ruleBlock.join(' ')) });
+          ruleBlock = undefined;
+        } else {
+          ruleBlock.push(trimmed);
+        }
+        return;
+      }
+
+      if (!trimmed) {
+        last = undefined;
+      } else if ((match = trimmed.match(/^<([^>]+)>:?/))) {
+        current = { title: match[1].trim(), items: [] };
+        structures.push(current);
+        last = undefined;
+      } else if ((match = trimmed.match(/^\((\d+)\)\s*(.*)$/))) {
+        if (!current) {
+          current = { items: [] };
+          structures.push(current);
+        }
+        last = this.statement(match[2], Number(match[1]));
+        current.items.push({ kind: 'statement', statement: last });
+        if (last.title && last.text && !definitions.has(last.title)) definitions.set(last.title, last);
+      } else if (/^-{2,}/.test(trimmed) && current) {
+        if (trimmed === '--') {
+          ruleBlock = [];
+        } else {
+          // "----" or a one-line "-- Modus ponens {uses: [1, 2]} --"
+          current.items.push({ kind: 'inference', uses: this.uses(trimmed) });
+        }
+        last = undefined;
+      } else if ((match = trimmed.match(/^\[([^\]]+)\]:\s*(.*)$/))) {
+        last = this.statement(trimmed, 0);
+        if (!definitions.has(last.title!)) definitions.set(last.title!, last);
+        current = undefined;
+      } else if (last) {
+        // A statement continues on the lines after it until a blank line
+        last.text = `${last.text} ${this.clean(trimmed)}`.trim();
+      }
+    });
+
+    return { definitions, structures };
+  }
+
+  private static statement(text: string, number: number): Statement {
+    const { data, rest } = this.data(text);
+    const titled = rest.match(/^\[([^\]]+)\](?::\s*(.*))?$/);
+    return {
+      number,
+      ...(titled ? { title: titled[1].trim(), text: this.clean(titled[2] ?? '') } : { text: this.clean(rest) }),
+      ...(data && { data })
+    };
+  }
+
+  /**
+   * The symbol and text variants in a statement's trailing JSON data, and the text before it;
+   * other Argdown data is left in the text for clean() to drop
+   */
+  private static data(text: string): { data?: StatementData; rest: string } {
+    const json = text.match(/\s*(\{".*\})\s*$/);
+    if (!json) return { rest: text };
+    try {
+      const { symbol, text_variants } = JSON.parse(json[1]);
+      const data: StatementData = {
+        ...(typeof symbol === 'string' && /^[A-Za-z_][A-Za-z0-9_]*$/.test(symbol) && { symbol }),
+        ...(Array.isArray(text_variants) && text_variants.every(variant => typeof variant === 'string') && { text_variants })
+      };
+      return { data, rest: text.slice(0, json.index) };
+    } catch {
+      return { rest: text };
+    }
+  }
+
+  /**
+   * Statement text without Argdown tags and data
+   */
+  private static clean(text: string): string {
+    return text
+      .replace(/\{[^}]*\}\s*$/, '')
+      .replace(/(^|\s)#(\([^)]*\)|[\w-]+)/g, '$1')
+      .trim();
+  }
+
+  private static uses(text: string): number[] | undefined {
+    const match = text.match(/uses:\s*\[([^\]]*)\]/);
+    return match ? match[1].split(',').map(n => Number(n.trim())).filter(n => Number.isInteger(n)) : undefined;
+  }
+
+  private static steps(pcs: Pcs, problems: string[]): Step[] {
+    const name = pcs.title ? `<${pcs.title}>` : 'the argument';
+    const byNumber = new Map<number, Statement>();
+    const steps: Step[] = [];
+    let pending: Statement[] = [];
+    let previous: Statement | undefined;
+    let inference: { uses?: number[] } | undefined;
+
+    pcs.items.forEach(item => {
+      if (item.kind === 'inference') {
+        if (inference) problems.push(`EMPTY INFERENCE: ${name} has two inference lines with no conclusion between them; the first was ignored.`);
+        inference = item;
+        return;
+      }
+
+      const statement = item.statement;
+      byNumber.set(statement.number, statement);
+      if (!inference) {
+        pending.push(statement);
+        return;
+      }
+
+      let premises = [...(previous ? [previous] : []), ...pending];
+      if (inference.uses) {
+        const missing = inference.uses.filter(n => !byNumber.has(n) || n === statement.number);
+        if (missing.length > 0) {
+          problems.push(`UNKNOWN STATEMENT: The inference to (${statement.number}) in ${name} uses (${missing.join('), (')}), which come${missing.length === 1 ? 's' : ''} no earlier; they were left out.`);
+        }
+        premises = inference.uses.filter(n => !missing.includes(n)).map(n => byNumber.get(n)!);
+      }
+      steps.push({ premises, conclusion: statement });
+      previous = statement;
+      pending = [];
+      inference = undefined;
+    });
+
+    if (inference) {
+      problems.push(`MISSING CONCLUSION: The last inference line in ${name} has no numbered conclusion after it; it was ignored.`);
+    }
+    if (steps.length === 0 && pcs.items.length > 0) {
+      problems.push(`NO INFERENCE: ${name} has no "----" line between its premises and its conclusion, so it was left out.`);
+    }
+    if (steps.length > 0 && pending.length > 0) {
+      problems.push(`STATEMENTS AFTER CONCLUSION: (${pending.map(s => s.number).join('), (')}) in ${name} come after its last conclusion and were ignored.`);
+    }
+    return steps;
+  }
+
+  /**
+   * The premise text build_symbolic_argument reads for a statement
+   */
+  private static premiseText(statement: Statement, state: ReadState): string {
+    const { title } = statement;
+    if (title && state.resolved.has(title)) return state.resolved.get(title)!;
+
+    let text = statement.text;
+    if (title && !text) {
+      // A bare [Title] refers to the statement defined under that title
+      const definition = state.definitions.get(title);
+      if (definition?.text) return this.premiseText(definition, state);
+      text = title;
+    }
+
+    const premise = /@\[[^\]]+\]/.test(text)
+      ? this.compound(statement, text, state)
+      : this.atom(title, text, state, statement.data);
+    if (title) state.resolved.set(title, premise);
+    return premise;
+  }
+
+  private static compound(statement: Statement, text: string, state: ReadState): string {
+    const operands: string[] = [];
+    const masked = text.replace(/@\[([^\]]+)\]/g, (_, title: string) => {
+      const operand = this.premiseText({ number: 0, title: title.trim(), text: '' }, state);
+      operands.push(state.symbolFormulas.has(operand) ? operand : `(${operand})`);
+      return `§${operands.length - 1}§`;
+    });
+    const premise = this.connectives(masked).replace(/§(\d+)§/g, (_, index: string) => operands[Number(index)]);
+
+    const { error } = PremiseParser.parse(premise, state.symbolFormulas);
+    if (!error) return premise;
+
+    const label = statement.number > 0 ? `(${statement.number})` : `[${statement.title}]`;
+    state.problems.push(`UNREADABLE STATEMENT: ${label} "${text}" was read as "${premise}", which does not parse (${error.message}); it was kept as a single atom.`);
+    return this.atom(statement.title, text.replace(/@\[([^\]]+)\]/g, '$1'), state);
+  }
+
+  /**
+   * Spell the English connectives the way PremiseParser reads them
+   */
+  private static connectives(text: string): string {
+    let premise = text.trim().replace(/[.;]+$/, '');
+    const conditional = premise.match(/^if\s+(.+?),?\s+then\s+(.+)$/i);
+    if (conditional) {
+      const group = (part: string) => /\s/.test(part.trim()) ? `(${part.trim()})` : part.trim();
+      premise = `${group(conditional[1])} -> ${group(conditional[2])}`;
+    }
+
+    return premise
+      .replace(/\s*,?\s*\b(?:if and only if|iff)\b\s*/gi, ' <-> ')
+      .replace(/\bit is not the case that\b\s*/gi, 'not ')
+      .replace(/\b(?:either|both)\b\s*/gi, '')
+      .replace(/\s*,?\s*\band\b\s*/gi, ' && ')
+      .replace(/\s*,?\s*\bor\b\s*/gi, ' || ')
+      .replace(/\bnot\b/gi, 'not')
+      .replace(/,/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * The symbol for a statement read as an atom; statements with the same text share one
+   */
+  private static atom(title: string | undefined, text: string, state: ReadState, data: StatementData = {}): string {
+    const description = text.replace(/[.;]+$/, '').trim();
+    const normalized = description.toLowerCase();
+    const existing = state.atoms.find(atom => atom.concept_description.toLowerCase() === normalized);
+    if (existing) {
+      if (title && !existing.text_variants.includes(title)) existing.text_variants.push(title);
+      return existing.symbol;
+    }
+
+    // The data names the symbol as it was; otherwise titles name it in full and untitled
+    // statements by their first three words
+    const words = (title ?? description).toUpperCase().match(/[A-Z0-9]+/g) ?? [];
+    const base = data.symbol ?? ((title ? words : words.slice(0, 3)).join('_') || 'STATEMENT');
+    const stem = /^[0-9]/.test(base) ? `S_${base}` : base;
+    let symbol = stem;
+    for (let n = 2; state.symbolFormulas.has(symbol); n++) symbol = `${stem}_${n}`;
+
+    state.atoms.push({
+      symbol,
+      concept_description: description,
+      text_variants: data.text_variants ?? (title && title !== description ? [title, description] : [description])
+    });
+    state.symbolFormulas.set(symbol, FormulaBuilder.atomic(symbol, [], description));
+    return symbol;
+  }
+}
@@ -18,6 +18,16 @@ export class NaturalLanguageParser {
   private initializePatterns(): void {
     // Initialize base patterns first
     this.patterns = [
+      {
+        pattern: /^(.+?) (?:if and only if|iff) (.+)$/i,
+        builder: (match, vars) => {
+          const left = this.parseLogicalExpression(match[1], vars);
+          const right = this.parseLogicalExpression(match[2], vars);
+          return FormulaBuilder.iff(left, right, match[0]);
+        },
+        description: "Biconditional: 'P if and only if Q'"
+      },
+
       {
         pattern: /^all (\w+) (?:are|can|will|have) (.+)$/i,
         builder: (match, vars) => {
@@ -440,6 +450,17 @@ confidence: 1.0
       description: "Formal existential quantification: ∃x(P(x))"
     });
 
+    // Formal biconditional: P(x) ↔ Q(y), binding loosest of the connectives
+    this.patterns.push({
+      pattern: /^(.+?)\s*(?:↔|<->)\s*(.+)$/,
+      builder: (match, vars) => {
+        const left = this.parseLogicalExpression(match[1].trim(), vars);
+        const right = this.parseLogicalExpression(match[2].trim(), vars);
+        return FormulaBuilder.iff(left, right, match[0]);
+      },
+      description: "Formal biconditional: P(x) ↔ Q(y)"
+    });
+
     // Formal logical conjunction: P(x) ∧ Q(y) 
     this.patterns.push({
       pattern: /^(.+)\s*∧\s*(.+)$/,
@@ -502,6 +523,14 @@ confidence: 1.0
       return this.parseLogicalExpression(inner, vars);
     }
     
+    // Biconditionals bind loosest, so split on them before any other connective
+    const iffMatch = trimmed.match(/^(.+?)\s*(?:↔|<->)\s*(.+)$/) || trimmed.match(/^(.+?)\s+(?:if and only if|iff)\s+(.+)$/i);
+    if (iffMatch) {
+      const left = this.parseLogicalExpression(iffMatch[1].trim(), vars);
+      const right = this.parseLogicalExpression(iffMatch[2].trim(), vars);
+      return FormulaBuilder.iff(left, right, trimmed);
+    }
+
     // Try natural language patterns first - conjunction with "and"
     const andMatch = trimmed.match(/^(.+)\s+and\s+(.+)$/i);
     if (andMatch) {
@@ -542,6 +571,13 @@ confidence: 1.0
       return FormulaBuilder.or(left, right, trimmed);
     }
     
+    if (trimmed === '⊤') {
+      return FormulaBuilder.top(trimmed);
+    }
+    if (trimmed === '⊥') {
+      return FormulaBuilder.zero(trimmed);
+    }
+    
     // Try to parse as predicate: Predicate(term1, term2, ...)
     const predicateMatch = trimmed.match(/^(\w+)\s*\(\s*([^)]+)\s*\)$/);
     if (predicateMatch) {
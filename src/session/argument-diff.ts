@@ -0,0 +1,122 @@
+/**
+ * Argument Diff
+ * Compares two revisions of a stored argument: symbols added, removed, renamed or redescribed,
+ * premises added or removed, evidence changes and how validity moved between them
+ *
+ * A symbol that disappears while a new one with the same description or text variants appears
+ * counts as renamed, and the older revision's premises and evidence targets are rewritten with
+ * the new name before comparing, so a rename alone changes no premise. Premises are compared by
+ * their parsed form, so "A -> B" and "A → B" are the same premise.
+ */
+
+import { FormulaBuilder, FormulaUtils } from "../logic/formula.js";
+import { PremiseParser } from "../logic/premise-parser.js";
+import { ArgumentRevision, AtomGrouping, EvidenceItem, LogicFormula, RevisionDiff } from "../types.js";
+
+export class ArgumentDiff {
+
+  static compare(from: ArgumentRevision, to: ArgumentRevision): RevisionDiff {
+    const symbols = this.compareSymbols(from.atomGroupings, to.atomGroupings);
+    const renames = new Map(symbols.renamed.map(({ from, to }) => [from, to]));
+    const rename = (text: string) => this.applyRenames(text, renames);
+
+    const symbolFormulas = new Map<string, LogicFormula>(
+      to.atomGroupings.map(group => [group.symbol, FormulaBuilder.atomic(group.symbol)])
+    );
+    const key = (premise: string) => {
+      const { formula } = PremiseParser.parse(premise.trim(), symbolFormulas);
+      return formula ? FormulaUtils.toString(formula) : premise.trim();
+    };
+    const before = new Set(from.premises.map(premise => key(rename(premise))));
+    const after = new Set(to.premises.map(key));
+
+    // Between INVALID and ERROR the argument is invalid either way, but the status still moved
+    const transition = from.validationResult === to.validationResult
+      ? 'unchanged'
+      : to.validationResult === 'VALID' ? 'became_valid'
+      : from.validationResult === 'VALID' ? 'became_invalid'
+      : 'changed';
+
+    return {
+      from: from.revision,
+      to: to.revision,
+      validity: { from: from.validationResult, to: to.validationResult, transition },
+      ...(rename(from.conclusion).trim() !== to.conclusion.trim() && {
+        conclusion: { from: from.conclusion, to: to.conclusion }
+      }),
+      ...(from.logic !== to.logic && { logic: { from: from.logic, to: to.logic } }),
+      symbols,
+      premises: {
+        added: to.premises.filter(premise => !before.has(key(premise))),
+        removed: from.premises.filter(premise => !after.has(key(rename(premise))))
+      },
+      evidence: this.compareEvidence(
+        from.evidence.map(item => ({ ...item, target: rename(item.target) })),
+        to.evidence
+      ),
+      violations: {
+        resolved: from.violations.filter(violation => !to.violations.includes(violation)),
+        introduced: to.violations.filter(violation => !from.violations.includes(violation))
+      }
+    };
+  }
+
+  private static compareSymbols(from: AtomGrouping[], to: AtomGrouping[]): RevisionDiff['symbols'] {
+    const fromSymbols = new Set(from.map(g => g.symbol));
+    const toSymbols = new Set(to.map(g => g.symbol));
+    const removed = from.filter(g => !toSymbols.has(g.symbol));
+    const added = to.filter(g => !fromSymbols.has(g.symbol));
+
+    // Pair each removed symbol with the first unclaimed added symbol that means the same thing
+    const renamed: Array<{ from: string; to: string }> = [];
+    removed.forEach(old => {
+      const match = added.find(candidate =>
+        !renamed.some(r => r.to === candidate.symbol) && this.sameConcept(old, candidate));
+      if (match) renamed.push({ from: old.symbol, to: match.symbol });
+    });
+
+    const redescribed: Array<{ symbol: string; from: string; to: string }> = [];
+    from.forEach(old => {
+      const current = to.find(g => g.symbol === old.symbol);
+      if (current && current.concept_description !== old.concept_description) {
+        redescribed.push({ symbol: old.symbol, from: old.concept_description, to: current.concept_description });
+      }
+    });
+
+    return {
+      added: added.map(g => g.symbol).filter(symbol => !renamed.some(r => r.to === symbol)),
+      removed: removed.map(g => g.symbol).filter(symbol => !renamed.some(r => r.from === symbol)),
+      renamed,
+      redescribed
+    };
+  }
+
+  private static sameConcept(a: AtomGrouping, b: AtomGrouping): boolean {
+    const normalize = (text: string) => text.trim().toLowerCase();
+    if (normalize(a.concept_description) === normalize(b.concept_description)) return true;
+
+    const variants = (g: AtomGrouping) => (g.text_variants ?? []).map(normalize).sort().join('\n');
+    return (a.text_variants ?? []).length > 0 && variants(a) === variants(b);
+  }
+
+  private static compareEvidence(from: EvidenceItem[], to: EvidenceItem[]): RevisionDiff['evidence'] {
+    const describe = (items: EvidenceItem[], target: string) => JSON.stringify(
+      items.filter(item => item.target === target).map(({ summary, strength, citation }) => ({ summary, strength, citation }))
+    );
+    const fromTargets = Array.from(new Set(from.map(item => item.target)));
+    const toTargets = Array.from(new Set(to.map(item => item.target)));
+
+    return {
+      added: toTargets.filter(target => !fromTargets.includes(target)),
+      removed: fromTargets.filter(target => !toTargets.includes(target)),
+      changed: toTargets.filter(target => fromTargets.includes(target) && describe(from, target) !== describe(to, target))
+    };
+  }
+
+  private static applyRenames(text: string, renames: Map<string, string>): string {
+    if (renames.size === 0) return text;
+    const escaped = Array.from(renames.keys()).map(symbol => symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`(?<![\\w])(${escaped.join('|')})(?![\\w])`, 'g');
+    return text.replace(pattern, symbol => renames.get(symbol)!);
+  }
+}
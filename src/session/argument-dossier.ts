@@ -0,0 +1,156 @@
+/**
+ * Argument Dossier
+ * Renders a stored argument and its evidence as the Markdown to present once evidence_gathering
+ * succeeds: the symbol glossary, the numbered premises in symbols and in words, the derivation,
+ * a table of the evidence for each premise, the contradicting evidence, what still lacks
+ * evidence and the overall verdict
+ *
+ * Evidence is shown under the first premise whose formula or atoms it targets, in the order
+ * evidence_gathering presents it; evidence for nothing in the premises is listed after them.
+ */
+
+import { FormulaBuilder, FormulaUtils } from "../logic/formula.js";
+import { PremiseParser } from "../logic/premise-parser.js";
+import { ArgumentFormulas } from "../export/argument-formulas.js";
+import { ArgumentReport } from "./argument-report.js";
+import { ArgumentBuild, ArgumentRecord, EvidenceItem } from "../types.js";
+
+export class ArgumentDossier {
+
+  static toMarkdown(record: ArgumentRecord): string {
+    const result = record.result ?? {};
+    const argument = ArgumentFormulas.fromRecord(record);
+    const meaning = new Map(record.atomGroupings.map(group => [group.symbol, group.concept_description]));
+    const validity: string = result.validation_result ?? 'NOT VALIDATED';
+    const lines: string[] = [];
+
+    const conclusion = argument.conclusion
+      ? ArgumentFormulas.naturalLanguage(argument.conclusion.formula, argument.symbols)
+      : record.conclusion;
+    lines.push(`# Dossier: ${conclusion}`, '');
+    lines.push(`- Argument: \`${record.id}\``);
+    lines.push(`- Logic: ${record.logic}`);
+    lines.push(`- Updated: ${record.updatedAt}`, '');
+
+    lines.push('## Glossary', '', '| Symbol | Meaning |', '|--------|---------|');
+    record.atomGroupings.forEach(group => lines.push(`| ${group.symbol} | ${ArgumentReport.cell(group.concept_description)} |`));
+    lines.push('');
+
+    lines.push('## Premises', '');
+    argument.premises.forEach((premise, index) => {
+      lines.push(`${index + 1}. \`${premise.text}\` - ${ArgumentFormulas.naturalLanguage(premise.formula, argument.symbols)}`);
+    });
+    if (argument.conclusion) {
+      lines.push('', `**Conclusion:** \`${argument.conclusion.text}\` - ${conclusion}`);
+    }
+    lines.push('');
+
+    lines.push('## Derivation', '');
+    const derivation: string[] | undefined = result.argument_for_presentation?.derivation;
+    if (derivation) {
+      lines.push('```', ...derivation, '```', '');
+    } else {
+      lines.push(`No derivation: the argument is ${validity}.`, '');
+    }
+
+    // Evidence under the first premise that mentions its target
+    lines.push('## Evidence', '');
+    const shown = new Set<string>();
+    argument.premises.forEach((premise, index) => {
+      const targets = [premise.text, ...FormulaUtils.extractAtomicFormulas(premise.formula).map(atom => atom.predicate ?? '')]
+        .filter(target => !shown.has(target));
+      targets.forEach(target => shown.add(target));
+      const items = record.evidence.filter(item => targets.includes(item.target));
+
+      lines.push(`### Premise ${index + 1}: \`${premise.text}\``, '');
+      lines.push(...(items.length > 0 ? this.table(items) : ['No evidence recorded.']), '');
+    });
+    const other = record.evidence.filter(item => !shown.has(item.target));
+    if (other.length > 0) {
+      lines.push('### Other evidence', '', ...this.table(other), '');
+    }
+
+    lines.push('## Contradicting Evidence', '');
+    const contradicting = record.evidence.filter(item => item.strength < 0);
+    if (contradicting.length > 0) {
+      contradicting.forEach(item => {
+        lines.push(`- \`${item.target}\`: ${item.summary} (strength ${item.strength}, ${item.citation || 'no citation'})`);
+      });
+    } else {
+      lines.push('None recorded.');
+    }
+    lines.push('');
+
+    lines.push('## Missing Evidence', '');
+    const { required, missing } = this.evidenceRequirements(result, record.evidence);
+    if (missing.length > 0) {
+      missing.forEach(target => lines.push(meaning.has(target) ? `- \`${target}\` - ${meaning.get(target)}` : `- \`${target}\``));
+    } else {
+      lines.push(required.length > 0
+        ? `None: all ${required.length} atoms and compound premises have a summary, strength and citation.`
+        : 'None required.');
+    }
+    lines.push('');
+
+    lines.push('## Verdict', '', this.verdict(validity, missing.length, contradicting.length));
+    const supporting = record.evidence.filter(item => item.strength > 0);
+    if (supporting.length > 0) {
+      const average = supporting.reduce((sum, item) => sum + item.strength, 0) / supporting.length;
+      lines.push('', `${supporting.length} supporting and ${contradicting.length} contradicting pieces of evidence; average supporting strength ${average.toFixed(2)}.`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * The targets evidence_gathering requires evidence for - every symbol but the conclusion and
+   * every compound premise - and those without a summary, strength and citation
+   */
+  static evidenceRequirements(result: ArgumentBuild['result'], evidence: EvidenceItem[]): { required: string[]; missing: string[] } {
+    const symbolic = result?.symbolic_argument ?? {};
+    const conclusion = symbolic.conclusion?.replace(/^C:\s*/, '');
+
+    const symbols = Object.keys(result?.symbol_definitions ?? {});
+    const atoms = symbols.filter(atom => atom !== conclusion);
+    const compounds = (symbolic.premises ?? [])
+      .map((premise: string) => premise.replace(/^P\d+:\s*/, ''))
+      .filter((premise: string) => this.isCompound(premise, symbols));
+    const required: string[] = Array.from(new Set([...atoms, ...compounds]));
+
+    const missing = required.filter(target => {
+      const item = evidence.find(e => e.target === target);
+      return !item || !item.summary || item.strength === undefined || !item.citation;
+    });
+    return { required, missing };
+  }
+
+  /**
+   * Whether a premise as atomic_reason prints it applies a connective, read from its parsed formula
+   */
+  static isCompound(premise: string, symbols: string[]): boolean {
+    const symbolFormulas = new Map(symbols.map(symbol => [symbol, FormulaBuilder.atomic(symbol)]));
+    const { formula } = PremiseParser.parse(premise, symbolFormulas);
+    return (formula?.subformulas?.length ?? 0) > 0;
+  }
+
+  private static verdict(validity: string, missing: number, contradicting: number): string {
+    if (validity !== 'VALID') {
+      return `**NOT ESTABLISHED** - The argument is ${validity}, so its evidence cannot carry the conclusion.`;
+    }
+    if (missing > 0) {
+      return `**VALID, EVIDENCE INCOMPLETE** - The conclusion follows, but ${missing} ${missing === 1 ? 'target lacks' : 'targets lack'} evidence.`;
+    }
+    if (contradicting > 0) {
+      return `**VALID, CONTESTED** - The conclusion follows and every premise has evidence, but ${contradicting} ${contradicting === 1 ? 'piece of it contradicts' : 'pieces of it contradict'} a premise.`;
+    }
+    return '**SUPPORTED** - The conclusion follows and every premise has evidence, none of it contradicting.';
+  }
+
+  private static table(items: EvidenceItem[]): string[] {
+    return [
+      '| Target | Summary | Strength | Citation |',
+      '|--------|---------|----------|----------|',
+      ...items.map(item => `| \`${item.target}\` | ${ArgumentReport.cell(item.summary)} | ${item.strength} | ${ArgumentReport.cell(item.citation)} |`)
+    ];
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Argument Report
+ * Renders a stored argument as a Markdown report: the symbolic argument and its validation,
+ * the derivation when it is valid, the evidence for each target and the sub-arguments
+ */
+
+import { ArgumentRecord } from "../types.js";
+
+export class ArgumentReport {
+
+  static toMarkdown(record: ArgumentRecord, lookup: (id: string) => ArgumentRecord | undefined = () => undefined): string {
+    const result = record.result ?? {};
+    const symbolic = result.symbolic_argument ?? {};
+    const details = result.validation_details ?? {};
+    const lines: string[] = [];
+
+    lines.push(`# ${record.conclusion}`, '');
+    lines.push(`**${result.validation_result ?? 'NOT VALIDATED'}** in ${record.logic} logic`, '');
+    lines.push(`- Argument: \`${record.id}\``);
+    lines.push(`- Updated: ${record.updatedAt}`);
+    if (record.parentId) {
+      lines.push(`- Strengthens: \`${record.parentId}\``);
+    }
+    lines.push('');
+
+    lines.push('## Symbols', '', '| Symbol | Meaning |', '|--------|---------|');
+    record.atomGroupings.forEach(group => lines.push(`| ${group.symbol} | ${this.cell(group.concept_description)} |`));
+    lines.push('');
+
+    lines.push('## Argument', '');
+    (symbolic.premises ?? record.premises).forEach((premise: string) => lines.push(`- ${premise}`));
+    (symbolic.exclusions ?? []).forEach((exclusion: string) => lines.push(`- ${exclusion}`));
+    (symbolic.assumptions ?? []).forEach((assumption: string) => lines.push(`- ${assumption}`));
+    lines.push(`- ${symbolic.conclusion ?? `C: ${record.conclusion}`}`, '');
+
+    const derivation: string[] | undefined = result.argument_for_presentation?.derivation;
+    if (derivation) {
+      lines.push('## Derivation', '', '```', ...derivation, '```', '');
+    }
+
+    const violations: string[] = details.violations ?? (result.message ? [result.message] : []);
+    if (result.validation_result !== 'VALID' && violations.length > 0) {
+      lines.push('## Problems', '');
+      violations.forEach(violation => lines.push(`- ${violation}`));
+      lines.push('');
+    }
+
+    if (result.warnings?.length) {
+      lines.push('## Warnings', '');
+      result.warnings.forEach((warning: string) => lines.push(`- ${warning}`));
+      lines.push('');
+    }
+
+    lines.push('## Evidence', '');
+    if (record.evidence.length === 0) {
+      lines.push('No evidence recorded yet.', '');
+    } else {
+      const targets = Array.from(new Set(record.evidence.map(item => item.target)));
+      targets.forEach(target => {
+        lines.push(`### ${target}`, '');
+        record.evidence
+          .filter(item => item.target === target)
+          .forEach(item => lines.push(`- ${item.summary} (strength ${item.strength}, ${item.citation})`));
+        lines.push('');
+      });
+    }
+
+    if (record.subArguments.length > 0) {
+      lines.push('## Sub-arguments', '');
+      record.subArguments.forEach(id => {
+        const child = lookup(id);
+        lines.push(child
+          ? `- \`${id}\`: ${child.conclusion} - ${child.result?.validation_result ?? 'NOT VALIDATED'}`
+          : `- \`${id}\``);
+      });
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Text for a Markdown table cell, which cannot contain pipes or line breaks
+   */
+  static cell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Argument Store
+ * Keeps every argument built with atomic_reason, together with its evidence and dig_in
+ * sub-arguments, so later tools can refer to it by argument_id instead of its JSON output
+ *
+ * Given a directory, the store also writes each argument there as one JSON document,
+ * {"schema_version": 2, "argument": {...}}, and reads them all back when it is created,
+ * so arguments survive server restarts.
+ *
+ * Every build and every round of evidence adds a revision, so the history of an argument
+ * can be compared revision by revision.
+ *
+ * Changes are written to disk before they are made in memory, so when a write fails the
+ * error reaches the caller and the store still holds what it held before.
+ */
+
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ArgumentBuild, ArgumentRecord, ArgumentRevision, EvidenceItem } from "../types.js";
+
+// Version of the stored document layout; older versions are upgraded when read, newer ones skipped
+export const SCHEMA_VERSION = 2;
+
+// The ids create() gives out; ids read back from disk must have this shape, as they name files
+const ID_PATTERN = /^arg-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export class ArgumentStore {
+  private records = new Map<string, ArgumentRecord>();
+
+  constructor(private directory?: string) {
+    if (directory) {
+      this.load(directory);
+    }
+  }
+
+  /**
+   * Store a newly built argument; a sub-argument is linked to the argument it strengthens
+   */
+  create(build: ArgumentBuild, parentId?: string): ArgumentRecord {
+    const now = new Date().toISOString();
+    const record: ArgumentRecord = {
+      id: `arg-${randomUUID()}`,
+      createdAt: now,
+      updatedAt: now,
+      ...build,
+      evidence: [],
+      ...(parentId !== undefined && { parentId }),
+      subArguments: [],
+      revisions: []
+    };
+    this.addRevision(record, 'build');
+
+    const parent = parentId !== undefined ? this.records.get(parentId) : undefined;
+    this.commit([
+      record,
+      ...(parent ? [{ ...parent, subArguments: [...parent.subArguments, record.id], updatedAt: now }] : [])
+    ]);
+    return record;
+  }
+
+  /**
+   * Replace an argument with a new build of it, keeping its evidence and sub-arguments
+   */
+  revise(id: string, build: ArgumentBuild): ArgumentRecord | undefined {
+    const record = this.records.get(id);
+    if (!record) return undefined;
+
+    const revised: ArgumentRecord = { ...record, ...build, updatedAt: new Date().toISOString(), revisions: [...record.revisions] };
+    this.addRevision(revised, 'build');
+    this.commit([revised]);
+    return revised;
+  }
+
+  get(id: string): ArgumentRecord | undefined {
+    return this.records.get(id);
+  }
+
+  list(): ArgumentRecord[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Merge evidence into an argument: new items replace the stored items for the same target,
+   * so evidence can be supplied a few targets at a time
+   */
+  recordEvidence(id: string, items: EvidenceItem[]): ArgumentRecord | undefined {
+    const record = this.records.get(id);
+    if (!record) return undefined;
+
+    const targets = new Set(items.map(item => item.target));
+    const updated: ArgumentRecord = {
+      ...record,
+      evidence: [...record.evidence.filter(item => !targets.has(item.target)), ...items],
+      updatedAt: new Date().toISOString(),
+      revisions: [...record.revisions]
+    };
+    this.addRevision(updated, 'evidence');
+    this.commit([updated]);
+    return updated;
+  }
+
+  /**
+   * Remove an argument; its parent forgets it and its sub-arguments become top-level arguments
+   */
+  delete(id: string): boolean {
+    const record = this.records.get(id);
+    if (!record) return false;
+
+    const parent = record.parentId !== undefined ? this.records.get(record.parentId) : undefined;
+    const children = record.subArguments
+      .map(childId => this.records.get(childId))
+      .filter((child): child is ArgumentRecord => child !== undefined)
+      .map(({ parentId: _parentId, ...child }) => child);
+    this.commit([
+      ...(parent ? [{ ...parent, subArguments: parent.subArguments.filter(child => child !== id) }] : []),
+      ...children
+    ]);
+
+    if (this.directory) {
+      fs.rmSync(this.fileFor(id), { force: true });
+    }
+    this.records.delete(id);
+    return true;
+  }
+
+  /**
+   * A revision by number, or the latest one when no number is given
+   */
+  getRevision(id: string, revision?: number): ArgumentRevision | undefined {
+    const revisions = this.records.get(id)?.revisions ?? [];
+    return revision === undefined
+      ? revisions[revisions.length - 1]
+      : revisions.find(r => r.revision === revision);
+  }
+
+  private addRevision(record: ArgumentRecord, cause: ArgumentRevision['cause']): void {
+    record.revisions.push({
+      revision: record.revisions.length + 1,
+      createdAt: record.updatedAt,
+      cause,
+      atomGroupings: record.atomGroupings,
+      premises: record.premises,
+      conclusion: record.conclusion,
+      logic: record.logic,
+      validationResult: record.result?.validation_result ?? 'ERROR',
+      violations: record.result?.validation_details?.violations ?? (record.result?.message ? [record.result.message] : []),
+      evidence: [...record.evidence]
+    });
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.directory!, `${id}.json`);
+  }
+
+  /**
+   * Write every changed record, then replace them in memory; a failed write throws
+   * before memory changes
+   */
+  private commit(changed: ArgumentRecord[]): void {
+    changed.forEach(record => this.persist(record));
+    changed.forEach(record => this.records.set(record.id, record));
+  }
+
+  /**
+   * Write the document next to its final name first, so a crash never leaves half a document
+   */
+  private persist(record: ArgumentRecord): void {
+    if (!this.directory) return;
+
+    fs.mkdirSync(this.directory, { recursive: true });
+    const file = this.fileFor(record.id);
+    const document = { schema_version: SCHEMA_VERSION, argument: record };
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(document, null, 2));
+    fs.renameSync(`${file}.tmp`, file);
+  }
+
+  private load(directory: string): void {
+    if (!fs.existsSync(directory)) return;
+
+    fs.readdirSync(directory)
+      .filter(name => name.endsWith('.json'))
+      .forEach(name => {
+        try {
+          const document = JSON.parse(fs.readFileSync(path.join(directory, name), 'utf8'));
+          if (!(document.schema_version <= SCHEMA_VERSION) || typeof document.argument?.id !== 'string') {
+            console.error(`[ArgumentStore] Skipping ${name}: not a schema version ${SCHEMA_VERSION} argument document`);
+            return;
+          }
+          if (!ID_PATTERN.test(document.argument.id)) {
+            console.error(`[ArgumentStore] Skipping ${name}: argument id is not of the form arg-<uuid>`);
+            return;
+          }
+          // Writes and deletes go to the file the id names, so a document under another name would be orphaned
+          if (name !== `${document.argument.id}.json`) {
+            console.error(`[ArgumentStore] Skipping ${name}: it holds argument ${document.argument.id}, whose document is ${document.argument.id}.json`);
+            return;
+          }
+
+          // Version 1 kept no history, so its arguments start from their current state
+          const record: ArgumentRecord = document.argument;
+          if (document.schema_version === 1) {
+            record.revisions = [];
+            this.addRevision(record, 'build');
+          }
+          this.records.set(record.id, record);
+        } catch (error) {
+          console.error(`[ArgumentStore] Skipping ${name}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      });
+  }
+}
@@ -7,7 +7,7 @@ export type LogicalOperator =
   | 'biconditional'     // ↔ (biconditional)
   // Units
   | 'top'               // ⊤ (additive truth)
-  | 'zero'              // 0 (additive falsity)
+  | 'zero'              // ⊥ (additive falsity, 0 in relevant logics)
   // Quantifiers
   | 'forall'            // ∀ (universal quantification)
   | 'exists';           // ∃ (existential quantification)
@@ -56,6 +56,11 @@ export interface ParsedStatement {
 export interface ValidationResult {
   isValid: boolean;
   violatedConstraints: string[];
+  logic?: LogicSystem;                  // Consequence relation checked after the structural checks
+  structurallyValid?: boolean;          // Circularity and connectivity checks passed
+  derivation?: DerivationResult;        // chaining
+  tableau?: TableauResult;              // relevant, entailment
+  countermodel?: Countermodel;
 }
 
 // Step 4: Quantifier Scope Handling
@@ -71,4 +76,355 @@ export interface DistributionRule {
   pattern: LogicFormula;
   distributed: LogicFormula;
   conditions: string[];
-}
\ No newline at end of file
+}
+
+// Derivation
+
+export type InferenceRule =
+  | 'premise'           // given premise
+  | 'hypothesis'        // case assumption opened by proof by cases
+  | '→E'                // modus ponens
+  | '∧I'                // adjunction
+  | '∧E'                // simplification
+  | '∨I'                // addition
+  | '∨E'                // proof by cases
+  | '↔I'                // biconditional from both implications
+  | '↔E'                // biconditional modus ponens, in either direction
+  | '⊤I'                // ⊤ holds unconditionally
+  | '⊥E'                // anything follows from ⊥
+  | '→I'                // conditional proof, discharging a hypothesis
+  | '¬E'                // contradiction: from A and ¬A conclude ⊥
+  | '¬I';               // reductio, discharging a hypothesis that led to ⊥
+
+export interface DerivationStep {
+  formula: LogicFormula;
+  rule: InferenceRule;
+  from: DerivationStep[];
+  premiseIndex?: number;
+  cases?: Array<{ hypothesis: DerivationStep; result: DerivationStep }>;
+}
+
+export interface DerivationResult {
+  derivable: boolean;
+  conclusion?: DerivationStep;
+  established: LogicFormula[];
+}
+
+export interface ProofLine {
+  line: number;
+  formula: LogicFormula;
+  rule: InferenceRule;
+  cites: number[];
+  depth: number;              // Nesting of hypothetical subproofs
+  premiseIndex?: number;
+}
+
+
+// Relevant Logic Tableaux
+
+export type LogicSystem =
+  | 'chaining'                  // modus ponens, adjunction, simplification, addition, proof by cases
+  | 'classical'                 // truth tables
+  | 'intuitionistic'            // contraction-free sequent calculus G4ip
+  | 'relevant'                  // relevance logic R
+  | 'entailment'                // Anderson and Belnap's E
+  | 'first_degree_entailment';  // Belnap–Dunn four-valued logic FDE
+
+export interface SignedFormula {
+  formula: LogicFormula;
+  sign: '+' | '-';              // + true at world, - not true at world
+  world: string;
+}
+
+export interface TableauNode {
+  entries: string[];
+  children: TableauNode[];
+  closedBy?: string;            // Formula that is both true and not true at one world
+}
+
+export interface TableauResult {
+  status: 'proved' | 'refuted' | 'unknown';
+  tableau: TableauNode;
+  naturalDeduction?: string[];  // Proof lines when natural deduction proved what the tableau could not, which is then left open
+  openBranch?: {
+    formulas: string[];
+    relations: string[];
+  };
+  countermodel?: Countermodel;
+}
+
+// Work a proof search may spend before giving up with no verdict, shared by the searches one check runs
+export interface SearchBudget {
+  spent: number;
+  limit: number;
+  deadline: number;             // Epoch milliseconds
+}
+
+// Minimal premise sets found by the redundancy check
+export interface MinimalPremiseSets {
+  sets: number[][];             // Indices into the premises, smallest sets first
+  complete: boolean;            // False when a check went undecided or the work ran out, so sets may be missing or not minimal
+}
+
+
+// Countermodels
+
+export type FourValue = 'true' | 'false' | 'both' | 'neither';
+
+export interface Countermodel {
+  logic: 'classical' | 'relevant' | 'entailment' | 'first_degree_entailment';
+  assignment?: Record<string, boolean>;              // Classical truth assignment
+  worlds?: string[];                                 // Routley–Meyer worlds
+  relations?: string[];                              // Triples of the ternary relation R
+  valuation?: Record<string, string[]>;              // Atoms true at each world
+  normalWorld?: Record<string, FourValue>;           // Belnap–Dunn value of each atom at world 0
+  explanation: string;
+}
+
+
+// Implication Graph
+
+export interface ImplicationEdge {
+  from: string;                 // Atom in the antecedent
+  to: string;                   // Atom in the consequent
+  premiseIndex: number;
+}
+
+export interface ReachabilityReport {
+  edges: ImplicationEdge[];
+  asserted: string[];           // Atoms the premises assert outright or as a case of a disjunction
+  reachingConclusion: string[]; // Asserted atoms with a directed path to a conclusion atom
+  conclusionReachable: boolean;
+  wrongDirection: Array<{
+    premiseIndex: number;
+    implication: LogicFormula;  // Would connect an asserted atom to the conclusion if it were reversed
+  }>;
+  deadEnds: string[];           // Reached from asserted atoms, but with no path to the conclusion
+}
+
+
+// Bridge Suggestions
+
+export interface BridgeLink {
+  implication: LogicFormula;
+  fromPremise?: number;         // Index of the premise the antecedent repeats
+}
+
+export interface BridgeSuggestion {
+  links: BridgeLink[];          // Implications that together make the conclusion derivable
+}
+
+
+// Fallacies
+
+export type FallacyKind =
+  | 'affirming_the_consequent'  // A → B, B ⊢ A
+  | 'denying_the_antecedent'    // A → B, ¬A ⊢ ¬B
+  | 'undistributed_middle'      // All A are M, all B are M ⊢ all A are B
+  | 'conversion';               // A → B ⊢ B → A
+
+export interface Fallacy {
+  kind: FallacyKind;
+  premises: number[];           // Indices of the premises that form the pattern
+  message: string;
+}
+
+
+// Hypothetical Reasoning
+
+export interface HypotheticalAssumption {
+  assume: string;               // Hypothesis opened for the block
+  derive: string;               // What follows under it; ⊥ (or 'false') discharges the hypothesis as a negation
+}
+
+
+// Lemmas
+
+export interface ArgumentLemma {
+  name?: string;                // How later premises cite it, L1, L2, ... when omitted
+  premises: string[];
+  conclusion: string;
+}
+
+
+// Argument Sessions
+
+export interface AtomGrouping {
+  symbol: string;
+  concept_description: string;
+  text_variants: string[];
+}
+
+export interface EvidenceItem {
+  target: string;               // Atom or premise formula the evidence is for
+  summary: string;
+  strength: number;             // -1 contradicts to 1 supports
+  citation: string;
+}
+
+export interface ArgumentRecord {
+  id: string;
+  createdAt: string;            // ISO timestamps
+  updatedAt: string;
+  atomGroupings: AtomGrouping[];
+  premises: string[];
+  conclusion: string;
+  logic: LogicSystem;
+  exclusions: string[][];
+  assumptions: HypotheticalAssumption[];
+  lemmas: ArgumentLemma[];
+  result: any;                  // Latest build_symbolic_argument output
+  evidence: EvidenceItem[];
+  parentId?: string;            // Argument a dig_in sub-argument strengthens
+  subArguments: string[];       // Ids of the dig_in sub-arguments built for this argument
+  revisions: ArgumentRevision[];
+}
+
+// What build_symbolic_argument was given and what it returned
+export type ArgumentBuild = Pick<ArgumentRecord,
+  'atomGroupings' | 'premises' | 'conclusion' | 'logic' | 'exclusions' | 'assumptions' | 'lemmas' | 'result'>;
+
+// The argument as it stood after one build or one round of evidence
+export interface ArgumentRevision {
+  revision: number;             // 1 for the first build
+  createdAt: string;
+  cause: 'build' | 'evidence';
+  atomGroupings: AtomGrouping[];
+  premises: string[];
+  conclusion: string;
+  logic: LogicSystem;
+  validationResult: string;     // VALID, INVALID or ERROR
+  violations: string[];
+  evidence: EvidenceItem[];
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  validity: {
+    from: string;
+    to: string;
+    transition: 'became_valid' | 'became_invalid' | 'changed' | 'unchanged';
+  };
+  conclusion?: { from: string; to: string };
+  logic?: { from: LogicSystem; to: LogicSystem };
+  symbols: {
+    added: string[];
+    removed: string[];
+    renamed: Array<{ from: string; to: string }>;
+    redescribed: Array<{ symbol: string; from: string; to: string }>;
+  };
+  premises: { added: string[]; removed: string[] };
+  evidence: { added: string[]; removed: string[]; changed: string[] };  // Evidence targets
+  violations: { resolved: string[]; introduced: string[] };
+}
+
+
+// Argument Export
+
+export interface ArgumentFormula {
+  formula: LogicFormula;
+  text: string;                 // Symbolic form as atomic_reason shows it, e.g. "AUTH → ACCESS"
+}
+
+// A stored argument's formulas; premises that do not parse are left out, as atomic_reason leaves them out
+export interface ParsedArgument {
+  symbols: AtomGrouping[];
+  premises: ArgumentFormula[];
+  conclusion?: ArgumentFormula;
+}
+
+export type LatexProofStyle =
+  | 'fitch'                     // Line-numbered derivation with subproof bars (fitch.sty)
+  | 'bussproofs';               // Gentzen-style proof tree (bussproofs.sty)
+
+export type ProblemFormat =
+  | 'tptp_fof'                  // TPTP first-order form: premises as axioms, the conclusion as conjecture
+  | 'tptp_cnf'                  // TPTP clause normal form, with the conclusion negated and Skolemized
+  | 'smtlib';                   // SMT-LIB 2: premises asserted with the negated conclusion, unsat when valid
+
+
+// Argdown
+
+// A premise-conclusion structure read from Argdown, in the shape build_symbolic_argument takes
+export interface ArgdownImport {
+  title?: string;               // <Title> of the main argument
+  atom_groupings: AtomGrouping[];
+  premises: string[];
+  conclusion: string;
+  lemmas: ArgumentLemma[];      // Intermediate conclusions and earlier arguments, L1, L2, ...
+  problems: string[];           // Statements that could not be read as written, and how they were read instead
+}
+
+export interface ArgdownParseResult {
+  argument?: ArgdownImport;
+  error?: string;
+}
+
+
+// Argument Interchange Format
+
+export type AifNodeType =
+  | 'I'                         // Information: an atom, premise, derived formula or piece of evidence
+  | 'RA'                        // Rule application: an inference from the I-nodes into it to the I-node out of it
+  | 'CA';                       // Conflict application: the I-node into it attacks the I-node out of it
+
+export interface AifNode {
+  nodeID: string;
+  text: string;
+  type: AifNodeType | string;   // Other AIF node types (TA, YA, L, ...) are carried but not read
+  timestamp?: string;
+  symbol?: string;              // Extensions atomic_reason writes and reads back
+  formula?: string;             // Symbolic form of a compound premise or derived formula
+  rule?: string;                // Inference rule of an RA-node from a derivation
+  strength?: number;            // Evidence strength, -1 contradicts to 1 supports
+  citation?: string;
+}
+
+export interface AifEdge {
+  edgeID: string;
+  fromID: string;
+  toID: string;
+}
+
+export interface AifDocument {
+  nodes: AifNode[];
+  edges: AifEdge[];
+  locutions: unknown[];
+}
+
+export interface AifImport {
+  atom_groupings: AtomGrouping[];
+  premises: string[];
+  conclusion: string;
+  evidence: EvidenceItem[];     // From I-nodes that carry a citation or attack through a CA-node
+  problems: string[];
+}
+
+export interface AifParseResult {
+  argument?: AifImport;
+  error?: string;
+}
+
+
+// Premise Parsing
+
+export type PremiseParseErrorCode =
+  | 'UNDEFINED_SYMBOL'          // identifier not among the atom_groupings symbols
+  | 'UNEXPECTED_TOKEN'          // token that cannot appear at this point
+  | 'UNBALANCED_PAREN';         // "(" never closed or ")" never opened
+
+export interface PremiseParseError {
+  code: PremiseParseErrorCode;
+  premise: string;
+  offset: number;               // Character offset of the offending token
+  token: string;                // Offending token, or "" at the end of the premise
+  expected: string[];
+  snippet: string;              // Premise with a caret under the offset
+  message: string;
+}
+
+export interface PremiseParseResult {
+  formula?: LogicFormula;
+  error?: PremiseParseError;
+}
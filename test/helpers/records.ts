@@ -0,0 +1,33 @@
+/**
+ * TEST HELPERS - Argument Records
+ * Builds a stored argument the way atomic_reason would, validating its premises in its logic
+ */
+
+import { AtomicReasonModule } from '../../src/logic/atomic-reason';
+import { ArgumentRecord, AtomGrouping } from '../../src/types';
+
+export const argumentRecord = (
+  atomGroupings: AtomGrouping[],
+  premises: string[],
+  conclusion: string,
+  overrides: Partial<ArgumentRecord> = {}
+): ArgumentRecord => {
+  const { logic = 'chaining', exclusions = [], assumptions = [], lemmas = [] } = overrides;
+  return {
+    id: 'arg-1',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-02T00:00:00.000Z',
+    atomGroupings,
+    premises,
+    conclusion,
+    logic,
+    exclusions,
+    assumptions,
+    lemmas,
+    result: new AtomicReasonModule().validateSymbolicArgument(atomGroupings, premises, conclusion, logic, exclusions, assumptions, lemmas),
+    evidence: [],
+    subArguments: [],
+    revisions: [],
+    ...overrides
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * UNIT TESTS - AIF Export
+ * Tests writing a stored argument as AIF I-, RA- and CA-nodes
+ */
+
+import { AifExport } from '../../src/export/aif-export';
+import { AifDocument, EvidenceItem } from '../../src/types';
+import { argumentRecord } from '../helpers/records';
+
+describe('AifExport.toAif', () => {
+  const atomGroupings = [
+    { symbol: 'TESTS', concept_description: 'Tests pass', text_variants: [] },
+    { symbol: 'REVIEW', concept_description: 'Review is approved', text_variants: [] },
+    { symbol: 'SHIP', concept_description: 'The release ships', text_variants: [] }
+  ];
+
+  const record = (premises: string[], evidence: EvidenceItem[] = []) => argumentRecord(atomGroupings, premises, 'SHIP', { evidence });
+
+  const node = (document: AifDocument, text: string) => document.nodes.find(n => n.text === text)!;
+  const sources = (document: AifDocument, id: string) =>
+    document.edges.filter(edge => edge.toID === id).map(edge => document.nodes.find(n => n.nodeID === edge.fromID)!.text);
+  const targets = (document: AifDocument, id: string) =>
+    document.edges.filter(edge => edge.fromID === id).map(edge => document.nodes.find(n => n.nodeID === edge.toID)!.text);
+
+  test('writes atoms and premises as I-nodes and each derivation step as an RA-node', () => {
+    const document = AifExport.toAif(record(['TESTS', 'REVIEW', 'TESTS && REVIEW -> SHIP']));
+
+    expect(node(document, 'Tests pass')).toMatchObject({ type: 'I', symbol: 'TESTS', timestamp: '2026-01-02T00:00:00.000Z' });
+    expect(node(document, '(Tests pass and Review is approved) implies The release ships'))
+      .toMatchObject({ type: 'I', formula: '(TESTS ∧ REVIEW) → SHIP' });
+
+    const conjunction = document.nodes.find(n => n.rule === '∧I')!;
+    const modusPonens = document.nodes.find(n => n.rule === '→E')!;
+    expect(conjunction).toMatchObject({ type: 'RA', text: 'Conjunction Introduction' });
+    expect(sources(document, conjunction.nodeID)).toEqual(['Tests pass', 'Review is approved']);
+    expect(targets(document, conjunction.nodeID)).toEqual(['Tests pass and Review is approved']);
+    expect(modusPonens.text).toBe('Modus Ponens');
+    expect(targets(document, modusPonens.nodeID)).toEqual(['The release ships']);
+    expect(document.locutions).toEqual([]);
+  });
+
+  test('closes subproofs over the inputs they take from outside', () => {
+    const document = AifExport.toAif(record(['TESTS || REVIEW', 'TESTS -> SHIP', 'REVIEW -> SHIP']));
+    const cases = document.nodes.filter(n => n.type === 'RA');
+
+    expect(cases).toHaveLength(1);
+    expect(cases[0]).toMatchObject({ text: 'Proof by Cases', rule: '∨E' });
+    expect(sources(document, cases[0].nodeID)).toHaveLength(3);
+    expect(targets(document, cases[0].nodeID)).toEqual(['The release ships']);
+  });
+
+  test('supports through RA-nodes and attacks through CA-nodes', () => {
+    const document = AifExport.toAif(record(['TESTS', 'TESTS -> SHIP'], [
+      { target: 'TESTS', summary: 'CI is green', strength: 0.8, citation: 'CI run 42' },
+      { target: 'TESTS → SHIP', summary: 'Release freeze', strength: -0.6, citation: 'Memo' },
+      { target: 'REVIEW', summary: 'No opinion', strength: 0, citation: 'Chat' }
+    ]));
+
+    const support = node(document, 'CI is green');
+    expect(support).toMatchObject({ type: 'I', strength: 0.8, citation: 'CI run 42' });
+    expect(targets(document, support.nodeID)).toEqual(['Default Inference']);
+    expect(targets(document, document.edges.find(edge => edge.fromID === support.nodeID)!.toID)).toEqual(['Tests pass']);
+
+    const attack = node(document, 'Release freeze');
+    const conflict = document.nodes.find(n => n.nodeID === document.edges.find(edge => edge.fromID === attack.nodeID)!.toID)!;
+    expect(conflict).toMatchObject({ type: 'CA', text: 'Default Conflict' });
+    expect(targets(document, conflict.nodeID)).toEqual(['Tests pass implies The release ships']);
+    expect(document.nodes.some(n => n.text === 'No opinion')).toBe(false);
+  });
+
+  test('writes an argument without a derivation as one default inference', () => {
+    const document = AifExport.toAif(record(['REVIEW', 'TESTS -> SHIP']));
+    const inferences = document.nodes.filter(n => n.type === 'RA');
+
+    expect(inferences).toEqual([expect.objectContaining({ text: 'Default Inference' })]);
+    expect(inferences[0].rule).toBeUndefined();
+    expect(sources(document, inferences[0].nodeID)).toEqual(['Review is approved', 'Tests pass implies The release ships']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * UNIT TESTS - AIF Parser
+ * Tests reading AIF documents into build_symbolic_argument input and evidence items
+ */
+
+import { AifParser } from '../../src/parser/aif-parser';
+import { AifExport } from '../../src/export/aif-export';
+import { AtomicReasonModule } from '../../src/logic/atomic-reason';
+import { argumentRecord } from '../helpers/records';
+
+describe('AifParser.parse', () => {
+  test('reads a plain AIFdb document, adding the warrant of a default inference', () => {
+    const { argument } = AifParser.parse({
+      nodes: [
+        { nodeID: '1', text: 'Tests pass', type: 'I' },
+        { nodeID: '2', text: 'Review is approved', type: 'I' },
+        { nodeID: '3', text: 'The release ships', type: 'I' },
+        { nodeID: '4', text: 'Default Inference', type: 'RA' },
+        { nodeID: '5', text: 'A release freeze is in place', type: 'I' },
+        { nodeID: '6', text: 'Default Conflict', type: 'CA' },
+        { nodeID: '7', text: 'Speaker: tests pass', type: 'L' }
+      ],
+      edges: [
+        { edgeID: '1', fromID: '1', toID: '4' },
+        { edgeID: '2', fromID: '2', toID: '4' },
+        { edgeID: '3', fromID: '4', toID: '3' },
+        { edgeID: '4', fromID: '5', toID: '6' },
+        { edgeID: '5', fromID: '6', toID: '3' }
+      ],
+      locutions: []
+    });
+
+    expect(argument!.atom_groupings).toEqual([
+      { symbol: 'TESTS_PASS', concept_description: 'Tests pass', text_variants: ['Tests pass'] },
+      { symbol: 'REVIEW_IS_APPROVED', concept_description: 'Review is approved', text_variants: ['Review is approved'] },
+      { symbol: 'THE_RELEASE_SHIPS', concept_description: 'The release ships', text_variants: ['The release ships'] }
+    ]);
+    expect(argument!.premises).toEqual(['TESTS_PASS', 'REVIEW_IS_APPROVED', 'TESTS_PASS ∧ REVIEW_IS_APPROVED → THE_RELEASE_SHIPS']);
+    expect(argument!.conclusion).toBe('THE_RELEASE_SHIPS');
+    expect(argument!.evidence).toEqual([
+      { target: 'THE_RELEASE_SHIPS', summary: 'A release freeze is in place', strength: -1, citation: '' }
+    ]);
+    expect(argument!.problems).toEqual([
+      'WARRANT ADDED: RA-node 4 ("Default Inference") is not a deductive rule, so "TESTS_PASS ∧ REVIEW_IS_APPROVED → THE_RELEASE_SHIPS" was added as a premise.'
+    ]);
+
+    const result = new AtomicReasonModule().validateSymbolicArgument(argument!.atom_groupings, argument!.premises, argument!.conclusion);
+    expect(result.validation_result).toBe('VALID');
+  });
+
+  test('reads back an exported argument with its evidence', () => {
+    const atomGroupings = [
+      { symbol: 'A', concept_description: 'Tests pass', text_variants: [] },
+      { symbol: 'B', concept_description: 'Review is approved', text_variants: [] },
+      { symbol: 'C', concept_description: 'The release ships', text_variants: [] }
+    ];
+    const record = argumentRecord(atomGroupings, ['A || B', 'A -> C', 'B -> C'], 'C', {
+      evidence: [
+        { target: 'A', summary: 'CI is green', strength: 0.8, citation: 'CI run 42' },
+        { target: 'B → C', summary: 'Approvals are skipped', strength: -0.4, citation: 'Audit' }
+      ]
+    });
+
+    const { argument } = AifParser.parse(JSON.stringify(AifExport.toAif(record)));
+
+    expect(argument!.atom_groupings.map(group => [group.symbol, group.concept_description]))
+      .toEqual(atomGroupings.map(group => [group.symbol, group.concept_description]));
+    expect(argument!.premises).toEqual(['A ∨ B', 'A → C', 'B → C']);
+    expect(argument!.conclusion).toBe('C');
+    expect(argument!.evidence).toEqual(record.evidence);
+    expect(argument!.problems).toEqual([]);
+  });
+
+  test('reports a second conclusion and conflicts between claims', () => {
+    const { argument } = AifParser.parse({
+      nodes: [
+        { nodeID: '1', text: 'Tests pass', type: 'I' },
+        { nodeID: '2', text: 'The release ships', type: 'I' },
+        { nodeID: '3', text: 'Default Inference', type: 'RA' },
+        { nodeID: '4', text: 'Docs are stale', type: 'I' },
+        { nodeID: '5', text: 'Default Inference', type: 'RA' },
+        { nodeID: '6', text: 'Default Conflict', type: 'CA' }
+      ],
+      edges: [
+        { edgeID: '1', fromID: '1', toID: '3' },
+        { edgeID: '2', fromID: '3', toID: '2' },
+        { edgeID: '3', fromID: '2', toID: '6' },
+        { edgeID: '4', fromID: '6', toID: '1' },
+        { edgeID: '5', fromID: '1', toID: '5' },
+        { edgeID: '6', fromID: '5', toID: '4' }
+      ],
+      locutions: []
+    });
+
+    expect(argument!.conclusion).toBe('THE_RELEASE_SHIPS');
+    expect(argument!.problems).toContain('SEVERAL CONCLUSIONS: I-node 4 ("Docs are stale") is also concluded and was left out; import it separately to check it.');
+    expect(argument!.problems).toContain('CONFLICT IGNORED: CA-node 6 is between claims of the argument; only conflicts from evidence I-nodes are imported.');
+  });
+
+  test('fails on documents without nodes and edges or without an inference', () => {
+    expect(AifParser.parse('{"nodes": [')).toEqual({ error: expect.stringMatching(/^UNREADABLE AIF: .* SPECIFIC NEXT STEP:/) });
+    expect(AifParser.parse('{"claims": []}').error).toMatch(/^NOT AN AIF DOCUMENT: .* SPECIFIC NEXT STEP:/);
+    expect(AifParser.parse({ nodes: [{ nodeID: '1', text: 'Tests pass', type: 'I' }], edges: [], locutions: [] }).error)
+      .toMatch(/^NO INFERENCE: .* SPECIFIC NEXT STEP:/);
+  });
+});
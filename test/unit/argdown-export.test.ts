@@ -0,0 +1,91 @@
+/**
+ * UNIT TESTS - Argdown Export
+ * Tests writing a stored argument as Argdown with its evidence as comments
+ */
+
+import { ArgdownExport } from '../../src/export/argdown-export';
+import { ArgdownParser } from '../../src/parser/argdown-parser';
+import { AtomicReasonModule } from '../../src/logic/atomic-reason';
+import { ArgumentLemma, EvidenceItem } from '../../src/types';
+import { argumentRecord } from '../helpers/records';
+
+describe('ArgdownExport.toArgdown', () => {
+  const atomGroupings = [
+    { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: [] },
+    { symbol: 'ROLE', concept_description: 'Roles are assigned', text_variants: [] },
+    { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: [] }
+  ];
+
+  const record = (premises: string[], evidence: EvidenceItem[] = [], lemmas: ArgumentLemma[] = []) =>
+    argumentRecord(atomGroupings, premises, 'ACCESS', { evidence, lemmas });
+
+  test('writes statements, the premise-conclusion structure and evidence comments', () => {
+    const argdown = ArgdownExport.toArgdown(record(['AUTH', 'ROLE', 'AUTH && ROLE -> ACCESS'], [
+      { target: 'AUTH', summary: 'Login flow ships', strength: 0.9, citation: 'PR 12' },
+      { target: '(AUTH ∧ ROLE) → ACCESS', summary: 'RBAC design', strength: 0.7, citation: 'doc' },
+      { target: 'AUDIT', summary: 'Audit log', strength: 0.5, citation: 'PR 3' }
+    ]));
+
+    expect(argdown).toContain('// arg-1: VALID in chaining logic');
+    expect(argdown).toContain('[AUTH]: Authentication is implemented {"symbol":"AUTH","text_variants":[]}\n  // evidence: Login flow ships (strength 0.9, PR 12)');
+    expect(argdown).toContain([
+      '<arg-1>',
+      '',
+      '(1) [AUTH]',
+      '(2) [ROLE]',
+      '(3) (@[AUTH] ∧ @[ROLE]) → @[ACCESS]',
+      '    // evidence: RBAC design (strength 0.7, doc)',
+      '----',
+      '(4) [ACCESS]'
+    ].join('\n'));
+    expect(argdown).toContain('// Evidence for AUDIT:\n// evidence: Audit log (strength 0.5, PR 3)');
+    expect(argdown.match(/Login flow ships/g)).toHaveLength(1);
+  });
+
+  test('writes lemmas as their own premise-conclusion structures', () => {
+    const argdown = ArgdownExport.toArgdown(record(
+      ['L1', 'ROLE', 'AUTH && ROLE -> ACCESS'],
+      [],
+      [{ name: 'L1', premises: ['ROLE', 'ROLE -> AUTH'], conclusion: 'AUTH' }]
+    ));
+
+    expect(argdown).toContain('<L1>\n\n(1) [ROLE]\n(2) @[ROLE] → @[AUTH]\n----\n(3) [AUTH]');
+    expect(argdown).toContain('<arg-1>\n\n(1) [AUTH]\n(2) [ROLE]');
+  });
+
+  test('reads back as the same argument', () => {
+    const exported = record(
+      ['L1', 'ROLE', 'AUTH && ROLE -> ACCESS'],
+      [],
+      [{ name: 'L1', premises: ['ROLE', 'ROLE -> AUTH'], conclusion: 'AUTH' }]
+    );
+    const { argument } = ArgdownParser.parse(ArgdownExport.toArgdown(exported));
+
+    expect(argument!.title).toBe('arg-1');
+    expect(argument!.atom_groupings).toEqual(atomGroupings);
+    expect(argument!.lemmas).toEqual([{ name: 'L1', premises: ['ROLE', 'ROLE → AUTH'], conclusion: 'AUTH' }]);
+    expect(argument!.premises).toEqual(['AUTH', 'ROLE', '(AUTH ∧ ROLE) → ACCESS']);
+    expect(argument!.problems).toEqual([]);
+
+    const revalidated = new AtomicReasonModule().validateSymbolicArgument(
+      argument!.atom_groupings, argument!.premises, argument!.conclusion, 'chaining', [], [], argument!.lemmas
+    );
+    expect(revalidated.validation_result).toBe('VALID');
+  });
+
+  test('reads back symbols in their own case with their text variants', () => {
+    const groupings = [
+      { symbol: 'Auth', concept_description: 'Authentication is implemented', text_variants: ['auth works', 'login {sso}, "2fa"'] },
+      { symbol: 'roleSeeded', concept_description: 'Roles are assigned', text_variants: [] },
+      { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: ['access'] }
+    ];
+    const exported = argumentRecord(groupings, ['Auth', 'roleSeeded', 'Auth && roleSeeded -> ACCESS'], 'ACCESS');
+
+    const { argument } = ArgdownParser.parse(ArgdownExport.toArgdown(exported));
+
+    expect(argument!.atom_groupings).toEqual(groupings);
+    expect(argument!.premises).toEqual(['Auth', 'roleSeeded', '(Auth ∧ roleSeeded) → ACCESS']);
+    expect(argument!.conclusion).toBe('ACCESS');
+    expect(argument!.problems).toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * UNIT TESTS - Argdown Parser
+ * Tests reading Argdown premise-conclusion structures into build_symbolic_argument input
+ */
+
+import { ArgdownParser } from '../../src/parser/argdown-parser';
+import { AtomicReasonModule } from '../../src/logic/atomic-reason';
+
+describe('ArgdownParser.parse', () => {
+  test('reads titled statements, mentions and the conclusion', () => {
+    const { argument } = ArgdownParser.parse([
+      '<Access works>',
+      '',
+      '(1) [Auth]: Authentication is implemented.',
+      '(2) [Roles]: Roles are assigned. #reviewed',
+      '(3) If @[Auth] and @[Roles], then @[Access].',
+      '----',
+      '(4) [Access]: Access control is working.'
+    ].join('\n'));
+
+    expect(argument!.title).toBe('Access works');
+    expect(argument!.atom_groupings).toEqual([
+      { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['Auth', 'Authentication is implemented'] },
+      { symbol: 'ROLES', concept_description: 'Roles are assigned', text_variants: ['Roles', 'Roles are assigned'] },
+      { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: ['Access', 'Access control is working'] }
+    ]);
+    expect(argument!.premises).toEqual(['AUTH', 'ROLES', '(AUTH && ROLES) -> ACCESS']);
+    expect(argument!.conclusion).toBe('ACCESS');
+    expect(argument!.lemmas).toEqual([]);
+    expect(argument!.problems).toEqual([]);
+  });
+
+  test('produces input atomic_reason validates', () => {
+    const { argument } = ArgdownParser.parse([
+      '[Auth]: Authentication is implemented',
+      '[Access]: Access control is working',
+      '',
+      '(1) [Auth]',
+      '(2) @[Auth] → @[Access]',
+      '----',
+      '(3) [Access]'
+    ].join('\n'));
+
+    const result = new AtomicReasonModule().validateSymbolicArgument(
+      argument!.atom_groupings, argument!.premises, argument!.conclusion
+    );
+    expect(argument!.premises).toEqual(['AUTH', 'AUTH → ACCESS']);
+    expect(result.validation_result).toBe('VALID');
+  });
+
+  test('turns intermediate conclusions into lemmas, honoring uses', () => {
+    const { argument } = ArgdownParser.parse([
+      '(1) [A]: Tests pass',
+      '(2) If @[A] then @[B]',
+      '-- Modus ponens {uses: [1, 2]} --',
+      '(3) [B]: The build is green',
+      '(4) @[B] implies @[C]',
+      '--',
+      'Modus ponens',
+      '--',
+      '(5) [C]: The release can ship'
+    ].join('\n'));
+
+    expect(argument!.lemmas).toEqual([{ name: 'L1', premises: ['A', 'A -> B'], conclusion: 'B' }]);
+    expect(argument!.premises).toEqual(['B', 'B implies C']);
+    expect(argument!.conclusion).toBe('C');
+  });
+
+  test('names untitled statements by their first words and shares repeated ones', () => {
+    const { argument } = ArgdownParser.parse([
+      '// premises from the review',
+      '(1) The service is deployed.',
+      '/* a second',
+      '   comment */',
+      '(2) The service is deployed',
+      '----',
+      '(3) Users can log in'
+    ].join('\n'));
+
+    expect(argument!.atom_groupings.map(group => group.symbol)).toEqual(['THE_SERVICE_IS', 'USERS_CAN_LOG']);
+    expect(argument!.premises).toEqual(['THE_SERVICE_IS', 'THE_SERVICE_IS']);
+  });
+
+  test('reports statements it cannot read as written', () => {
+    const { argument } = ArgdownParser.parse([
+      '<Shaky>',
+      '(1) [A]: Tests pass',
+      '(2) @[A] because @[B]',
+      '----',
+      '(3) [B]: Docs are published',
+      '(4) [C]: Nobody reads them'
+    ].join('\n'));
+
+    expect(argument!.premises[1]).toBe('A_BECAUSE_B');
+    expect(argument!.problems.some(p => p.startsWith('UNREADABLE STATEMENT: (2)'))).toBe(true);
+    expect(argument!.problems).toContain('STATEMENTS AFTER CONCLUSION: (4) in <Shaky> come after its last conclusion and were ignored.');
+  });
+
+  test('fails without an inference line', () => {
+    const result = ArgdownParser.parse('(1) Tests pass\n(2) The build is green');
+
+    expect(result.argument).toBeUndefined();
+    expect(result.error).toMatch(/^NO PREMISE-CONCLUSION STRUCTURE: .* SPECIFIC NEXT STEP:/);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * UNIT TESTS - Argument Diff
+ * Tests comparing revisions of a stored argument
+ */
+
+import { ArgumentDiff } from '../../src/session/argument-diff';
+import { ArgumentRevision, AtomGrouping } from '../../src/types';
+
+describe('ArgumentDiff.compare', () => {
+  const group = (symbol: string, concept_description: string, text_variants: string[] = []): AtomGrouping =>
+    ({ symbol, concept_description, text_variants });
+
+  const revision = (revision: number, overrides: Partial<ArgumentRevision> = {}): ArgumentRevision => ({
+    revision,
+    createdAt: `2026-01-0${revision}T00:00:00.000Z`,
+    cause: 'build',
+    atomGroupings: [group('AUTH', 'Authentication is implemented'), group('ACCESS', 'Access control is working')],
+    premises: ['AUTH -> ACCESS'],
+    conclusion: 'ACCESS',
+    logic: 'chaining',
+    validationResult: 'INVALID',
+    violations: ['UNDERIVABLE: Conclusion ACCESS cannot be derived'],
+    evidence: [],
+    ...overrides
+  });
+
+  test('reports premises added on the way from INVALID to VALID', () => {
+    const diff = ArgumentDiff.compare(
+      revision(1),
+      revision(2, { premises: ['AUTH', 'AUTH → ACCESS'], validationResult: 'VALID', violations: [] })
+    );
+
+    expect(diff.validity).toEqual({ from: 'INVALID', to: 'VALID', transition: 'became_valid' });
+    expect(diff.premises).toEqual({ added: ['AUTH'], removed: [] });
+    expect(diff.violations.resolved).toHaveLength(1);
+    expect(diff.violations.introduced).toEqual([]);
+    expect(diff.conclusion).toBeUndefined();
+  });
+
+  test('reports a move between INVALID and ERROR as changed', () => {
+    const error = revision(2, { validationResult: 'ERROR', violations: ['PARSE ERROR: Unknown symbol AUDIT'] });
+
+    expect(ArgumentDiff.compare(revision(1), error).validity).toEqual({ from: 'INVALID', to: 'ERROR', transition: 'changed' });
+    expect(ArgumentDiff.compare(error, revision(3)).validity).toEqual({ from: 'ERROR', to: 'INVALID', transition: 'changed' });
+  });
+
+  test('a rename alone changes no premise, evidence target or conclusion', () => {
+    const diff = ArgumentDiff.compare(
+      revision(1, { evidence: [{ target: 'AUTH → ACCESS', summary: 'policy', strength: 0.8, citation: 'doc' }] }),
+      revision(2, {
+        atomGroupings: [group('LOGIN', 'authentication is implemented'), group('ACCESS', 'Access control is working')],
+        premises: ['LOGIN -> ACCESS'],
+        evidence: [{ target: 'LOGIN → ACCESS', summary: 'policy', strength: 0.8, citation: 'doc' }]
+      })
+    );
+
+    expect(diff.symbols).toEqual({ added: [], removed: [], renamed: [{ from: 'AUTH', to: 'LOGIN' }], redescribed: [] });
+    expect(diff.premises).toEqual({ added: [], removed: [] });
+    expect(diff.evidence).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.validity.transition).toBe('unchanged');
+  });
+
+  test('reports symbols, conclusion, logic and evidence changes', () => {
+    const diff = ArgumentDiff.compare(
+      revision(1, {
+        validationResult: 'VALID',
+        evidence: [
+          { target: 'AUTH', summary: 'Login ships', strength: 0.9, citation: 'PR 1' },
+          { target: 'ACCESS', summary: 'RBAC', strength: 0.5, citation: 'PR 2' }
+        ]
+      }),
+      revision(2, {
+        atomGroupings: [group('AUTH', 'Login works'), group('AUDIT', 'Audit log is written')],
+        premises: ['AUTH -> AUDIT'],
+        conclusion: 'AUDIT',
+        logic: 'classical',
+        evidence: [
+          { target: 'AUTH', summary: 'Login ships', strength: 0.4, citation: 'PR 1' },
+          { target: 'AUDIT', summary: 'Logged', strength: 0.7, citation: 'PR 3' }
+        ]
+      })
+    );
+
+    expect(diff.symbols.added).toEqual(['AUDIT']);
+    expect(diff.symbols.removed).toEqual(['ACCESS']);
+    expect(diff.symbols.redescribed).toEqual([{ symbol: 'AUTH', from: 'Authentication is implemented', to: 'Login works' }]);
+    expect(diff.premises).toEqual({ added: ['AUTH -> AUDIT'], removed: ['AUTH -> ACCESS'] });
+    expect(diff.conclusion).toEqual({ from: 'ACCESS', to: 'AUDIT' });
+    expect(diff.logic).toEqual({ from: 'chaining', to: 'classical' });
+    expect(diff.evidence).toEqual({ added: ['AUDIT'], removed: ['ACCESS'], changed: ['AUTH'] });
+    expect(diff.validity.transition).toBe('became_invalid');
+  });
+});
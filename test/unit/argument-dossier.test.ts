@@ -0,0 +1,104 @@
+/**
+ * UNIT TESTS - Argument Dossier
+ * Tests the Markdown dossier of a stored argument and its evidence
+ */
+
+import { ArgumentDossier } from '../../src/session/argument-dossier';
+import { EvidenceItem } from '../../src/types';
+import { argumentRecord } from '../helpers/records';
+
+describe('ArgumentDossier.toMarkdown', () => {
+  const atomGroupings = [
+    { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: [] },
+    { symbol: 'ROLE', concept_description: 'Roles are assigned', text_variants: [] },
+    { symbol: 'ACCESS', concept_description: 'Access control | RBAC is working', text_variants: [] }
+  ];
+
+  const record = (premises: string[], evidence: EvidenceItem[] = []) => argumentRecord(atomGroupings, premises, 'ACCESS', { evidence });
+
+  const complete: EvidenceItem[] = [
+    { target: 'AUTH', summary: 'Login flow ships', strength: 0.9, citation: 'PR 12' },
+    { target: 'ROLE', summary: 'Role table seeded', strength: 0.7, citation: 'Migration 7' },
+    { target: '(AUTH ∧ ROLE) → ACCESS', summary: 'RBAC design', strength: 0.8, citation: 'Design doc' }
+  ];
+
+  test('writes the glossary, premises, derivation and evidence table of each premise', () => {
+    const markdown = ArgumentDossier.toMarkdown(record(['AUTH', 'ROLE', 'AUTH && ROLE -> ACCESS'], complete));
+
+    expect(markdown).toContain('# Dossier: Access control | RBAC is working');
+    expect(markdown).toContain('| ACCESS | Access control \\| RBAC is working |');
+    expect(markdown).toContain('3. `(AUTH ∧ ROLE) → ACCESS` - (Authentication is implemented and Roles are assigned) implies Access control | RBAC is working');
+    expect(markdown).toContain('**Conclusion:** `ACCESS` - Access control | RBAC is working');
+    expect(markdown).toMatch(/## Derivation\n\n```\n1\. AUTH/);
+    expect(markdown).toContain([
+      '### Premise 3: `(AUTH ∧ ROLE) → ACCESS`',
+      '',
+      '| Target | Summary | Strength | Citation |',
+      '|--------|---------|----------|----------|',
+      '| `(AUTH ∧ ROLE) → ACCESS` | RBAC design | 0.8 | Design doc |'
+    ].join('\n'));
+    expect(markdown).toContain('## Contradicting Evidence\n\nNone recorded.');
+    expect(markdown).toContain('None: all 3 atoms and compound premises have a summary, strength and citation.');
+    expect(markdown).toContain('**SUPPORTED**');
+    expect(markdown).toContain('3 supporting and 0 contradicting pieces of evidence; average supporting strength 0.80.');
+  });
+
+  test('lists contradicting and missing evidence in the verdict', () => {
+    const contested = ArgumentDossier.toMarkdown(record(['AUTH', 'ROLE', 'AUTH && ROLE -> ACCESS'], [
+      ...complete,
+      { target: 'ROLE', summary: 'Admins share one role', strength: -0.5, citation: 'Audit' },
+      { target: 'AUDIT', summary: 'Audit log enabled', strength: 0.6, citation: 'Report' }
+    ]));
+
+    expect(contested).toContain('## Contradicting Evidence\n\n- `ROLE`: Admins share one role (strength -0.5, Audit)');
+    expect(contested).toContain('### Other evidence\n\n| Target | Summary | Strength | Citation |\n|--------|---------|----------|----------|\n| `AUDIT` | Audit log enabled | 0.6 | Report |');
+    expect(contested).toContain('**VALID, CONTESTED** - The conclusion follows and every premise has evidence, but 1 piece of it contradicts a premise.');
+
+    const incomplete = ArgumentDossier.toMarkdown(record(['AUTH', 'ROLE', 'AUTH && ROLE -> ACCESS'], complete.slice(0, 1)));
+    expect(incomplete).toContain('## Missing Evidence\n\n- `ROLE` - Roles are assigned\n- `(AUTH ∧ ROLE) → ACCESS`');
+    expect(incomplete).toContain('### Premise 2: `ROLE`\n\nNo evidence recorded.');
+    expect(incomplete).toContain('**VALID, EVIDENCE INCOMPLETE** - The conclusion follows, but 2 targets lack evidence.');
+  });
+
+  test('does not establish an invalid argument', () => {
+    const markdown = ArgumentDossier.toMarkdown(record(['AUTH -> ACCESS'], complete));
+
+    expect(markdown).toContain('No derivation: the argument is INVALID.');
+    expect(markdown).toContain('**NOT ESTABLISHED** - The argument is INVALID, so its evidence cannot carry the conclusion.');
+  });
+});
+
+describe('ArgumentDossier.isCompound', () => {
+  const symbols = ['AUTH', 'ROLE'];
+
+  test('reads the connective from the parsed premise', () => {
+    expect(ArgumentDossier.isCompound('AUTH ↔ ROLE', symbols)).toBe(true);
+    expect(ArgumentDossier.isCompound('¬AUTH', symbols)).toBe(true);
+    expect(ArgumentDossier.isCompound('AUTH ∧ ROLE', symbols)).toBe(true);
+    expect(ArgumentDossier.isCompound('AUTH', symbols)).toBe(false);
+    expect(ArgumentDossier.isCompound('(ROLE)', symbols)).toBe(false);
+  });
+});
+
+describe('ArgumentDossier.evidenceRequirements', () => {
+  test('requires every symbol but the conclusion and every compound premise', () => {
+    const result = {
+      symbol_definitions: { AUTH: 'Authentication is implemented', ACCESS: 'Access control is working' },
+      symbolic_argument: { premises: ['P1: AUTH', 'P2: AUTH → ACCESS'], conclusion: 'C: ACCESS' }
+    };
+
+    expect(ArgumentDossier.evidenceRequirements(result, [
+      { target: 'AUTH', summary: 'Login flow ships', strength: 0.9, citation: '' }
+    ])).toEqual({ required: ['AUTH', 'AUTH → ACCESS'], missing: ['AUTH', 'AUTH → ACCESS'] });
+  });
+
+  test('counts biconditional and negated premises as compound', () => {
+    const result = {
+      symbol_definitions: { AUTH: 'Authentication is implemented', ROLE: 'Roles are assigned', ACCESS: 'Access control is working' },
+      symbolic_argument: { premises: ['P1: AUTH ↔ ROLE', 'P2: ¬ROLE', 'P3: (¬AUTH) → ACCESS'], conclusion: 'C: ACCESS' }
+    };
+
+    expect(ArgumentDossier.evidenceRequirements(result, []).required)
+      .toEqual(['AUTH', 'ROLE', 'AUTH ↔ ROLE', '¬ROLE', '(¬AUTH) → ACCESS']);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * UNIT TESTS - Argument Report
+ * Tests the Markdown report of a stored argument
+ */
+
+import { ArgumentReport } from '../../src/session/argument-report';
+import { ArgumentRecord } from '../../src/types';
+import { argumentRecord } from '../helpers/records';
+
+describe('ArgumentReport.toMarkdown', () => {
+  const atomGroupings = [
+    { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['auth'] },
+    { symbol: 'ACCESS', concept_description: 'Access control | RBAC is working', text_variants: ['access'] }
+  ];
+
+  const record = (premises: string[], overrides: Partial<ArgumentRecord> = {}) => argumentRecord(atomGroupings, premises, 'ACCESS', overrides);
+
+  test('reports a valid argument with its derivation and evidence', () => {
+    const markdown = ArgumentReport.toMarkdown(record(['AUTH', 'AUTH -> ACCESS'], {
+      evidence: [{ target: 'AUTH', summary: 'Login flow ships', strength: 0.9, citation: 'PR 12' }]
+    }));
+
+    expect(markdown).toContain('# ACCESS');
+    expect(markdown).toContain('**VALID** in chaining logic');
+    expect(markdown).toContain('| ACCESS | Access control \\| RBAC is working |');
+    expect(markdown).toContain('- P2: AUTH → ACCESS');
+    expect(markdown).toContain('3. ACCESS    →E 2, 1');
+    expect(markdown).toContain('### AUTH\n\n- Login flow ships (strength 0.9, PR 12)');
+    expect(markdown).not.toContain('## Problems');
+  });
+
+  test('lists the problems of an invalid argument', () => {
+    const markdown = ArgumentReport.toMarkdown(record(['AUTH -> ACCESS']));
+
+    expect(markdown).toContain('**INVALID**');
+    expect(markdown).toContain('## Problems');
+    expect(markdown).not.toContain('## Derivation');
+    expect(markdown).toContain('No evidence recorded yet.');
+  });
+
+  test('names sub-arguments with their conclusion and result', () => {
+    const child = record(['AUTH', 'AUTH -> ACCESS'], { id: 'arg-2', parentId: 'arg-1' });
+    const markdown = ArgumentReport.toMarkdown(
+      record(['AUTH', 'AUTH -> ACCESS'], { subArguments: ['arg-2', 'arg-gone'] }),
+      id => (id === 'arg-2' ? child : undefined)
+    );
+
+    expect(markdown).toContain('- `arg-2`: ACCESS - VALID');
+    expect(markdown).toContain('- `arg-gone`');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * UNIT TESTS - Argument Store
+ * Tests storing, revising and linking arguments, merging their evidence and persisting them
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ArgumentStore, SCHEMA_VERSION } from '../../src/session/argument-store';
+import { ArgumentBuild } from '../../src/types';
+
+describe('ArgumentStore', () => {
+  let store: ArgumentStore;
+
+  const build = (conclusion: string, result: any = { validation_result: 'VALID' }): ArgumentBuild => ({
+    atomGroupings: [{ symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['auth'] }],
+    premises: ['AUTH', `AUTH -> ${conclusion}`],
+    conclusion,
+    logic: 'chaining',
+    exclusions: [],
+    assumptions: [],
+    lemmas: [],
+    result
+  });
+
+  const evidence = (target: string, summary: string) => ({ target, summary, strength: 0.8, citation: 'design doc' });
+
+  beforeEach(() => {
+    store = new ArgumentStore();
+  });
+
+  test('stores a new argument under a fresh id', () => {
+    const first = store.create(build('ACCESS'));
+    const second = store.create(build('ACCESS'));
+
+    expect(first.id).toMatch(/^arg-/);
+    expect(second.id).not.toBe(first.id);
+    expect(store.get(first.id)).toMatchObject({ conclusion: 'ACCESS', evidence: [], subArguments: [] });
+    expect(store.list()).toHaveLength(2);
+  });
+
+  test('revises an argument and keeps its evidence', () => {
+    const { id } = store.create(build('ACCESS', { validation_result: 'INVALID' }));
+    store.recordEvidence(id, [evidence('AUTH', 'Login flow ships')]);
+
+    const revised = store.revise(id, build('LOGIN'));
+
+    expect(revised!.id).toBe(id);
+    expect(revised!.conclusion).toBe('LOGIN');
+    expect(revised!.result.validation_result).toBe('VALID');
+    expect(revised!.evidence).toHaveLength(1);
+  });
+
+  test('merges evidence by target', () => {
+    const { id } = store.create(build('ACCESS'));
+    store.recordEvidence(id, [evidence('AUTH', 'first'), evidence('AUTH → ACCESS', 'policy')]);
+    const record = store.recordEvidence(id, [evidence('AUTH', 'second')]);
+
+    expect(record!.evidence.map(e => `${e.target}: ${e.summary}`)).toEqual(['AUTH → ACCESS: policy', 'AUTH: second']);
+  });
+
+  test('links a sub-argument to the argument it strengthens', () => {
+    const parent = store.create(build('ACCESS'));
+    const child = store.create(build('AUTH'), parent.id);
+
+    expect(child.parentId).toBe(parent.id);
+    expect(store.get(parent.id)!.subArguments).toEqual([child.id]);
+  });
+
+  test('records a revision for every build and round of evidence', () => {
+    const { id } = store.create(build('ACCESS', { validation_result: 'INVALID', validation_details: { violations: ['UNDERIVABLE'] } }));
+    store.recordEvidence(id, [evidence('AUTH', 'Login flow ships')]);
+    store.revise(id, build('ACCESS'));
+
+    const revisions = store.get(id)!.revisions;
+    expect(revisions.map(r => `${r.revision}:${r.cause}:${r.validationResult}`)).toEqual([
+      '1:build:INVALID', '2:evidence:INVALID', '3:build:VALID'
+    ]);
+    expect(revisions[0].violations).toEqual(['UNDERIVABLE']);
+    expect(revisions[0].evidence).toEqual([]);
+    expect(revisions[1].evidence).toHaveLength(1);
+    expect(store.getRevision(id)!.revision).toBe(3);
+    expect(store.getRevision(id, 2)!.cause).toBe('evidence');
+    expect(store.getRevision(id, 4)).toBeUndefined();
+  });
+
+  test('deleting detaches the argument from its parent and children', () => {
+    const parent = store.create(build('ACCESS'));
+    const child = store.create(build('AUTH'), parent.id);
+    const grandchild = store.create(build('TOKEN'), child.id);
+
+    expect(store.delete(child.id)).toBe(true);
+    expect(store.get(child.id)).toBeUndefined();
+    expect(store.get(parent.id)!.subArguments).toEqual([]);
+    expect(store.get(grandchild.id)!.parentId).toBeUndefined();
+    expect(store.delete(child.id)).toBe(false);
+  });
+
+  test('unknown ids come back undefined', () => {
+    expect(store.get('arg-missing')).toBeUndefined();
+    expect(store.revise('arg-missing', build('ACCESS'))).toBeUndefined();
+    expect(store.recordEvidence('arg-missing', [])).toBeUndefined();
+  });
+
+  describe('with a directory', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'argument-store-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('writes one versioned document per argument and reads them back', () => {
+      const first = new ArgumentStore(directory);
+      const { id } = first.create(build('ACCESS'));
+      first.recordEvidence(id, [evidence('AUTH', 'Login flow ships')]);
+
+      const document = JSON.parse(fs.readFileSync(path.join(directory, `${id}.json`), 'utf8'));
+      expect(document.schema_version).toBe(SCHEMA_VERSION);
+      expect(document.argument.id).toBe(id);
+
+      const restarted = new ArgumentStore(directory);
+      expect(restarted.get(id)!.evidence).toHaveLength(1);
+      expect(restarted.get(id)!.conclusion).toBe('ACCESS');
+    });
+
+    test('removes the document of a deleted argument', () => {
+      const persistent = new ArgumentStore(directory);
+      const { id } = persistent.create(build('ACCESS'));
+      persistent.delete(id);
+
+      expect(fs.readdirSync(directory)).toEqual([]);
+      expect(new ArgumentStore(directory).list()).toEqual([]);
+    });
+
+    test('upgrades version 1 documents with a first revision', () => {
+      const { revisions, ...argument } = store.create(build('ACCESS'));
+      fs.writeFileSync(path.join(directory, `${argument.id}.json`), JSON.stringify({ schema_version: 1, argument }));
+
+      const upgraded = new ArgumentStore(directory).get(argument.id)!;
+      expect(upgraded.revisions).toHaveLength(1);
+      expect(upgraded.revisions[0]).toMatchObject({ revision: 1, cause: 'build', validationResult: 'VALID' });
+    });
+
+    test('skips documents it cannot read', () => {
+      fs.writeFileSync(path.join(directory, 'broken.json'), '{ not json');
+      fs.writeFileSync(path.join(directory, 'future.json'), JSON.stringify({ schema_version: SCHEMA_VERSION + 1, argument: { id: 'arg-future' } }));
+      const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(new ArgumentStore(directory).list()).toEqual([]);
+      expect(errors).toHaveBeenCalledTimes(2);
+      errors.mockRestore();
+    });
+
+    test('skips documents whose id would name a file outside the directory', () => {
+      const outside = path.join(directory, '..', 'outside.json');
+      fs.writeFileSync(outside, '{}');
+      const argument = { ...store.create(build('ACCESS')), id: '../outside' };
+      fs.writeFileSync(path.join(directory, 'malicious.json'), JSON.stringify({ schema_version: SCHEMA_VERSION, argument }));
+      const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const loaded = new ArgumentStore(directory);
+      expect(loaded.get('../outside')).toBeUndefined();
+      expect(loaded.delete('../outside')).toBe(false);
+      expect(fs.existsSync(outside)).toBe(true);
+      expect(errors).toHaveBeenCalledTimes(1);
+      errors.mockRestore();
+      fs.rmSync(outside);
+    });
+
+    test('skips documents stored under a name other than their id', () => {
+      const { id } = new ArgumentStore(directory).create(build('ACCESS'));
+      fs.renameSync(path.join(directory, `${id}.json`), path.join(directory, 'copy.json'));
+      const errors = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(new ArgumentStore(directory).get(id)).toBeUndefined();
+      expect(errors).toHaveBeenCalledTimes(1);
+      errors.mockRestore();
+    });
+
+    test('leaves memory unchanged when a document cannot be written', () => {
+      const persistent = new ArgumentStore(directory);
+      const parent = persistent.create(build('ACCESS'));
+      fs.rmSync(directory, { recursive: true });
+      fs.writeFileSync(directory, 'not a directory');
+
+      expect(() => persistent.create(build('AUTH'), parent.id)).toThrow();
+      expect(() => persistent.recordEvidence(parent.id, [evidence('AUTH', 'Login flow ships')])).toThrow();
+      expect(() => persistent.revise(parent.id, build('LOGIN'))).toThrow();
+      expect(persistent.list()).toHaveLength(1);
+      expect(persistent.get(parent.id)).toMatchObject({ conclusion: 'ACCESS', evidence: [], subArguments: [] });
+      expect(persistent.get(parent.id)!.revisions).toHaveLength(1);
+    });
+  });
+});
@@ -4,7 +4,7 @@
  */
 
 import { AtomicReasonModule } from '../../src/logic/atomic-reason';
-import { FormulaBuilder } from '../../src/logic/formula';
+import { FormulaBuilder, FormulaUtils } from '../../src/logic/formula';
 import { NaturalLanguageParser } from '../../src/parser/nlp-parser';
 
 describe('Atomic Reason - Unit Tests', () => {
@@ -200,6 +200,12 @@ describe('Atomic Reason - Unit Tests', () => {
 
       expect(result).toBe('X ∨ Y');
     });
+
+    test('converts units without parentheses', () => {
+      const formula = FormulaBuilder.implies(FormulaBuilder.atomic('A'), FormulaBuilder.zero());
+
+      expect(atomicReason.formulaToSymbolicString(formula)).toBe('A → ⊥');
+    });
   });
 
   describe('validateSymbolicArgument', () => {
@@ -227,6 +233,26 @@ describe('Atomic Reason - Unit Tests', () => {
       expect(result.symbolic_argument.conclusion).toBe('C: ACCESS');
     });
 
+    test('includes numbered derivation for valid argument', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['auth'] },
+        { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: ['access'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', 'AUTH -> ACCESS'], 'ACCESS');
+
+      expect(result.derivation).toEqual([
+        { line: 1, formula: 'AUTH', rule: 'premise', cites: [], depth: 0 },
+        { line: 2, formula: 'AUTH → ACCESS', rule: 'premise', cites: [], depth: 0 },
+        { line: 3, formula: 'ACCESS', rule: '→E', cites: [2, 1], depth: 0 }
+      ]);
+      expect(result.argument_for_presentation.derivation).toEqual([
+        '1. AUTH    premise P1',
+        '2. AUTH → ACCESS    premise P2',
+        '3. ACCESS    →E 2, 1'
+      ]);
+    });
+
     test('returns error for missing conclusion symbol', () => {
       const atomGroupings = [
         {
@@ -323,14 +349,447 @@ describe('Atomic Reason - Unit Tests', () => {
           text_variants: ['access granted']
         }
       ];
-      // Valid structure: ACCESS → AUTH with conclusion AUTH
+      const logicalRelationships = ['ACCESS', 'ACCESS → AUTH'];
+      const conclusionSymbol = 'AUTH';
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, logicalRelationships, conclusionSymbol);
+
+      // ACCESS is asserted and ACCESS implies AUTH, so AUTH follows by modus ponens
+      expect(result.validation_result).toBe('VALID');
+      expect(result.validation_details.derivable).toBe(true);
+    });
+
+    test('rejects connected but underivable conclusion', () => {
+      const atomGroupings = [
+        {
+          symbol: 'AUTH',
+          concept_description: 'Authentication works',
+          text_variants: ['auth works']
+        },
+        {
+          symbol: 'ACCESS',
+          concept_description: 'Access granted',
+          text_variants: ['access granted']
+        }
+      ];
+      // ACCESS is never asserted, so the implication never fires
       const logicalRelationships = ['ACCESS → AUTH'];
       const conclusionSymbol = 'AUTH';
 
       const result = atomicReason.validateSymbolicArgument(atomGroupings, logicalRelationships, conclusionSymbol);
 
-      // This should be VALID - ACCESS implies AUTH, conclude AUTH is valid modus ponens
+      expect(result.validation_result).toBe('INVALID');
+      expect(result.validation_details.connected_components).toBe(1);
+      expect(result.validation_details.derivable).toBe(false);
+      expect(result.validation_details.violations[0]).toContain('UNDERIVABLE');
+      expect(result.validation_details.violations[0]).toContain('Nothing establishes ACCESS');
+      expect(result.validation_details.countermodel.assignment).toEqual({ ACCESS: false, AUTH: false });
+      expect(result.argument_for_presentation).toBeUndefined();
+    });
+
+    test('validates with relevance tableau when logic is relevant', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', 'AUTH -> ACCESS'], 'ACCESS', 'relevant');
+
       expect(result.validation_result).toBe('VALID');
+      expect(result.validation_details.logic).toBe('relevant');
+      expect(result.validation_details.relevance_tableau.status).toBe('proved');
+      expect(result.validation_details.relevance_tableau.closed_tableau).toBeDefined();
+    });
+
+    test('reports open branch when relevant consequence fails', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH -> ACCESS'], 'ACCESS', 'relevant');
+
+      expect(result.validation_result).toBe('INVALID');
+      expect(result.validation_details.violations[0]).toContain('NOT RELEVANTLY VALID');
+      expect(result.validation_details.relevance_tableau.status).toBe('refuted');
+      expect(result.validation_details.relevance_tableau.open_branch.formulas).toContain('ACCESS, -0');
+      expect(result.validation_details.countermodel.logic).toBe('relevant');
+      expect(result.validation_details.countermodel.normalWorld.AUTH).toBe('false');
+    });
+
+    test('accepts nested premises', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'SSO', concept_description: 'Single sign-on works', text_variants: ['sso works'] },
+        { symbol: 'CONFIG', concept_description: 'Configuration is loaded', text_variants: ['config loaded'] },
+        { symbol: 'READY', concept_description: 'System is ready', text_variants: ['ready'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['AUTH', 'CONFIG', '(AUTH || SSO) && CONFIG -> READY'],
+        'READY'
+      );
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.ignored_premises).toBeUndefined();
+      expect(result.symbolic_argument.premises[2]).toBe('P3: ((AUTH ∨ SSO) ∧ CONFIG) → READY');
+      expect(result.argument_for_presentation.premises[2]).toContain('((Authentication works or Single sign-on works) and Configuration is loaded) implies System is ready');
+    });
+
+    test('reports structured parse errors for ignored premises', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', '(AUTH -> ACCESS', 'AUTH -> ACCESS'], 'ACCESS');
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.parse_errors).toHaveLength(1);
+      expect(result.parse_errors[0].code).toBe('UNBALANCED_PAREN');
+      expect(result.parse_errors[0].offset).toBe(0);
+      expect(result.ignored_premises[0]).toContain('UNBALANCED_PAREN at offset 0');
+    });
+
+    test('accepts negated premises', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'LOCKED', concept_description: 'Account is locked', text_variants: ['locked'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['AUTH', 'not LOCKED', 'AUTH && !LOCKED -> ACCESS'],
+        'ACCESS'
+      );
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.symbolic_argument.premises[1]).toBe('P2: ¬LOCKED');
+      expect(result.argument_for_presentation.premises[1]).toContain('it is not the case that Account is locked');
+    });
+
+    test('reports directed reachability to the conclusion', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'LOGS', concept_description: 'Logins are logged', text_variants: ['logs'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['AUTH', 'AUTH -> LOGS', 'ACCESS -> AUTH'],
+        'ACCESS'
+      );
+      const reachability = result.validation_details.reachability;
+
+      expect(reachability.edges).toEqual(['AUTH → LOGS', 'ACCESS → AUTH']);
+      expect(reachability.conclusion_reachable).toBe(false);
+      expect(reachability.wrong_direction).toEqual(['P3: ACCESS → AUTH points away from ACCESS - did you mean AUTH → ACCESS?']);
+      expect(reachability.dead_ends).toEqual(['AUTH', 'LOGS']);
+    });
+
+    test('warns about redundant premises and alternative paths', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'SSO', concept_description: 'Single sign-on works', text_variants: ['sso works'] },
+        { symbol: 'LOGS', concept_description: 'Logins are logged', text_variants: ['logs'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['AUTH', 'AUTH -> ACCESS', 'SSO', 'SSO -> ACCESS', 'AUTH -> LOGS'],
+        'ACCESS'
+      );
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.validation_details.minimal_premise_sets).toEqual([['P1', 'P2'], ['P3', 'P4']]);
+      expect(result.validation_details.redundant_premises).toEqual(['P5']);
+      expect(result.warnings[0]).toContain('REDUNDANT PREMISE: P5 (AUTH → LOGS)');
+      expect(result.warnings[1]).toContain('REDUNDANT PATH: P1, P2 and P3, P4 each establish ACCESS');
+    });
+
+    test('calls no premise redundant when the search for minimal sets is incomplete', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'LOGS', concept_description: 'Logins are logged', text_variants: ['logs'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+      const search = jest.spyOn(FormulaUtils, 'findMinimalPremiseSets').mockReturnValue({ sets: [[0, 1]], complete: false });
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', 'AUTH -> ACCESS', 'AUTH -> LOGS'], 'ACCESS');
+      search.mockRestore();
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.validation_details.minimal_premise_sets).toEqual([['P1', 'P2']]);
+      expect(result.validation_details.redundant_premises).toBe('not computed');
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toMatch(/^INCOMPLETE REDUNDANCY CHECK:/);
+    });
+
+    test('names affirming the consequent', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH -> ACCESS', 'ACCESS'], 'AUTH');
+
+      expect(result.validation_result).toBe('INVALID');
+      expect(result.validation_details.violations[0]).toMatch(/^AFFIRMING THE CONSEQUENT in P1, P2:/);
+      expect(result.validation_details.fallacies).toEqual([{ kind: 'affirming_the_consequent', premises: ['P1', 'P2'] }]);
+    });
+
+    test('accepts biconditional premises', () => {
+      const atomGroupings = [
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] },
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['ACCESS', 'AUTH <-> ACCESS'], 'AUTH');
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.symbolic_argument.premises[1]).toBe('P2: AUTH ↔ ACCESS');
+      expect(result.argument_for_presentation.premises[1]).toContain('Authentication works if and only if Access granted');
+      expect(result.argument_for_presentation.derivation[2]).toBe('3. AUTH    ↔E 2, 1');
+    });
+
+    test('reports contradictory premises', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', 'AUTH -> ACCESS', '!AUTH'], 'ACCESS');
+
+      expect(result.validation_result).toBe('INVALID');
+      expect(result.validation_details.violations[0]).toContain('INCONSISTENT PREMISES: P1 (AUTH), P3 (¬AUTH)');
+      expect(result.validation_details.inconsistent_premises).toEqual({ premises: [1, 3], exclusions: [] });
+    });
+
+    test('keeps the verdict of a paraconsistent logic on contradictory premises', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication works', text_variants: ['auth works'] },
+        { symbol: 'ACCESS', concept_description: 'Access granted', text_variants: ['access granted'] }
+      ];
+
+      const relevant = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', '!AUTH', 'AUTH -> ACCESS'], 'ACCESS', 'relevant');
+
+      expect(relevant.validation_result).toBe('VALID');
+      expect(relevant.validation_details.violations).toEqual([]);
+      expect(relevant.validation_details.inconsistent_premises).toEqual({ premises: [1, 2], exclusions: [] });
+      expect(relevant.warnings[0]).toMatch(/^INCONSISTENT PREMISES: P1 \(AUTH\), P2 \(¬AUTH\) cannot all hold at once classically - relevant logic/);
+
+      const entailment = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', '!AUTH', 'AUTH -> ACCESS'], 'ACCESS', 'entailment');
+
+      expect(entailment.validation_result).toBe('VALID');
+      expect(entailment.warnings[0]).toMatch(/^INCONSISTENT PREMISES:/);
+
+      const classical = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH', '!AUTH', 'AUTH -> ACCESS'], 'ACCESS', 'classical');
+
+      expect(classical.validation_result).toBe('INVALID');
+      expect(classical.validation_details.violations[0]).toMatch(/^INCONSISTENT PREMISES:/);
+    });
+
+    test('reports premises that violate an exclusion', () => {
+      const atomGroupings = [
+        { symbol: 'CACHE_WARM', concept_description: 'Cache is warm', text_variants: ['warm cache'] },
+        { symbol: 'CACHE_COLD', concept_description: 'Cache is cold', text_variants: ['cold cache'] },
+        { symbol: 'FAST', concept_description: 'Responses are fast', text_variants: ['fast'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['CACHE_WARM', 'CACHE_COLD', 'CACHE_WARM -> FAST'],
+        'FAST',
+        'chaining',
+        [['CACHE_WARM', 'CACHE_COLD']]
+      );
+
+      expect(result.validation_result).toBe('INVALID');
+      expect(result.symbolic_argument.exclusions).toEqual(['X1: at most one of CACHE_WARM, CACHE_COLD']);
+      expect(result.validation_details.inconsistent_premises).toEqual({ premises: [1, 2], exclusions: [1] });
+    });
+
+    test('consistent premises pass with exclusions', () => {
+      const atomGroupings = [
+        { symbol: 'CACHE_WARM', concept_description: 'Cache is warm', text_variants: ['warm cache'] },
+        { symbol: 'CACHE_COLD', concept_description: 'Cache is cold', text_variants: ['cold cache'] },
+        { symbol: 'FAST', concept_description: 'Responses are fast', text_variants: ['fast'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['CACHE_WARM', 'CACHE_WARM -> FAST'],
+        'FAST',
+        'chaining',
+        [['CACHE_WARM', 'CACHE_COLD'], ['CACHE_WARM', 'MISSING']]
+      );
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.validation_details.inconsistent_premises).toBeUndefined();
+      expect(result.ignored_exclusions[0]).toContain("'MISSING' is not a defined atom");
+    });
+
+    test('accepts a compound conclusion proved by conditional proof', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['auth'] },
+        { symbol: 'SESSION', concept_description: 'Sessions are issued', text_variants: ['sessions'] },
+        { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: ['access'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH -> SESSION', 'SESSION -> ACCESS'], 'AUTH -> ACCESS');
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.symbolic_argument.conclusion).toBe('C: AUTH → ACCESS');
+      expect(result.argument_for_presentation.derivation).toEqual([
+        '1. AUTH → SESSION    premise P1',
+        '2. SESSION → ACCESS    premise P2',
+        '3. | AUTH    hypothesis',
+        '4. | SESSION    →E 1, 3',
+        '5. | ACCESS    →E 2, 4',
+        '6. AUTH → ACCESS    →I 3-5'
+      ]);
+    });
+
+    test('reports an unparseable conclusion', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication', text_variants: ['auth'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(atomGroupings, ['AUTH'], 'AUTH ->');
+
+      expect(result.validation_result).toBe('ERROR');
+      expect(result.message).toContain("Conclusion 'AUTH ->' could not be parsed");
+    });
+
+    test('discharges assumption blocks as implications and negations', () => {
+      const atomGroupings = [
+        { symbol: 'BREACH', concept_description: 'There was a breach', text_variants: ['breach'] },
+        { symbol: 'ALERT', concept_description: 'An alert fired', text_variants: ['alert'] },
+        { symbol: 'PAGED', concept_description: 'On-call was paged', text_variants: ['paged'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings,
+        ['BREACH -> ALERT', 'ALERT -> PAGED', '!PAGED'],
+        '!BREACH',
+        'chaining',
+        [],
+        [{ assume: 'BREACH', derive: 'PAGED' }, { assume: 'BREACH', derive: '⊥' }]
+      );
+
+      expect(result.validation_result).toBe('VALID');
+      expect(result.symbolic_argument.assumptions).toEqual([
+        'A1: assume BREACH ⊢ PAGED, discharged as BREACH → PAGED',
+        'A2: assume BREACH ⊢ ⊥, discharged as ¬BREACH'
+      ]);
+      const [conditional, reductio] = result.validation_details.assumptions;
+      expect(conditional).toMatchObject({ rule: '→I', holds: true });
+      expect(conditional.derivation[conditional.derivation.length - 1]).toMatch(/→I \d+-\d+$/);
+      expect(reductio).toMatchObject({ rule: '¬I', holds: true });
+      expect(reductio.derivation).toContain('7. | ⊥    ¬E 6, 3');
+      expect(reductio.derivation[reductio.derivation.length - 1]).toBe('8. ¬BREACH    ¬I 4-7');
+    });
+
+    test('rejects an assumption block that does not discharge', () => {
+      const atomGroupings = [
+        { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['auth'] },
+        { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: ['access'] }
+      ];
+
+      const result = atomicReason.validateSymbolicArgument(
+        atomGroupings, ['AUTH', 'AUTH -> ACCESS'], 'ACCESS', 'chaining', [],
+        [{ assume: 'AUTH', derive: '⊥' }, { assume: 'MISSING', derive: 'AUTH' }]
+      );
+
+      expect(result.validation_result).toBe('INVALID');
+      expect(result.validation_details.violations[0]).toMatch(/^UNDISCHARGED ASSUMPTION A1:/);
+      expect(result.validation_details.assumptions).toHaveLength(1);
+      expect(result.ignored_assumptions[0]).toContain('Ignored assumption A2');
+    });
+
+    describe('lemmas', () => {
+      const atomGroupings = [
+        { symbol: 'TOKEN', concept_description: 'A token is issued', text_variants: ['token'] },
+        { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: ['auth'] },
+        { symbol: 'ROLE', concept_description: 'Roles are assigned', text_variants: ['roles'] },
+        { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: ['access'] }
+      ];
+
+      test('validates lemmas first and renders the argument tree', () => {
+        const result = atomicReason.validateSymbolicArgument(
+          atomGroupings, ['L1', 'ROLE', 'AUTH && ROLE -> ACCESS'], 'ACCESS', 'chaining', [], [],
+          [{ premises: ['TOKEN', 'TOKEN -> AUTH'], conclusion: 'AUTH' }]
+        );
+
+        expect(result.validation_result).toBe('VALID');
+        expect(result.validation_details.cited_lemmas).toEqual({ P1: 'L1' });
+        expect(result.lemmas).toHaveLength(1);
+        expect(result.lemmas[0]).toMatchObject({ name: 'L1', validation_result: 'VALID' });
+        expect(result.argument_for_presentation.tree).toEqual([
+          'C: ACCESS',
+          '├── P1: AUTH    [L1]',
+          '│   ├── P1: TOKEN',
+          '│   └── P2: TOKEN → AUTH',
+          '├── P2: ROLE',
+          '└── P3: (AUTH ∧ ROLE) → ACCESS'
+        ]);
+      });
+
+      test('later lemmas cite earlier ones by restating their conclusion', () => {
+        const result = atomicReason.validateSymbolicArgument(
+          atomGroupings, ['GRANTED', 'ROLE -> ACCESS'], 'ACCESS', 'chaining', [], [],
+          [
+            { name: 'AUTHED', premises: ['TOKEN', 'TOKEN -> AUTH'], conclusion: 'AUTH' },
+            { name: 'GRANTED', premises: ['AUTH', 'AUTH -> ROLE'], conclusion: 'ROLE' }
+          ]
+        );
+
+        expect(result.validation_result).toBe('VALID');
+        expect(result.lemmas.map((l: any) => l.validation_result)).toEqual(['VALID', 'VALID']);
+        expect(result.warnings).toBeUndefined();
+        expect(result.argument_for_presentation.tree).toEqual([
+          'C: ACCESS',
+          '├── P1: ROLE    [GRANTED]',
+          '│   ├── P1: AUTH    [AUTHED]',
+          '│   │   ├── P1: TOKEN',
+          '│   │   └── P2: TOKEN → AUTH',
+          '│   └── P2: AUTH → ROLE',
+          '└── P2: ROLE → ACCESS'
+        ]);
+      });
+
+      test('rejects a premise that cites a lemma that does not hold', () => {
+        const result = atomicReason.validateSymbolicArgument(
+          atomGroupings, ['L1', 'AUTH -> ACCESS'], 'ACCESS', 'chaining', [], [],
+          [{ premises: ['TOKEN', 'AUTH -> TOKEN'], conclusion: 'AUTH' }, { premises: ['ROLE'], conclusion: 'ROLE || TOKEN' }]
+        );
+
+        expect(result.validation_result).toBe('INVALID');
+        expect(result.validation_details.violations[0]).toMatch(/^UNPROVEN LEMMA: P1 cites lemma L1 \(AUTH\), which is INVALID/);
+        expect(result.lemmas[0].violations.length).toBeGreaterThan(0);
+        expect(result.warnings).toEqual([expect.stringMatching(/^UNUSED LEMMA: L2/)]);
+      });
+    });
+
+    test('checks consequence in the selected logic', () => {
+      const atomGroupings = [
+        { symbol: 'CACHE', concept_description: 'Cache is warm', text_variants: ['cache warm'] },
+        { symbol: 'FAST', concept_description: 'Responses are fast', text_variants: ['fast responses'] }
+      ];
+      const premises = ['CACHE', 'CACHE -> FAST'];
+
+      const classical = atomicReason.validateSymbolicArgument(atomGroupings, premises, 'FAST', 'classical');
+      const firstDegree = atomicReason.validateSymbolicArgument(atomGroupings, premises, 'FAST', 'first_degree_entailment');
+
+      expect(classical.validation_result).toBe('VALID');
+      expect(classical.validation_details.logic).toBe('classical');
+      expect(classical.derivation).toBeUndefined();
+      expect(firstDegree.validation_result).toBe('INVALID');
+      expect(firstDegree.validation_details.violations[0]).toContain('UNSUPPORTED');
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,55 @@
+/**
+ * UNIT TESTS - Bridge Finder
+ * Tests the smallest sets of implications proposed to repair an argument
+ */
+
+import { BridgeFinder } from '../../src/logic/bridge-finder';
+import { FormulaUtils, FormulaBuilder } from '../../src/logic/formula';
+import { BridgeSuggestion } from '../../src/types';
+
+describe('BridgeFinder.suggest', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+  const D = FormulaBuilder.atomic('D');
+
+  const render = (suggestions: BridgeSuggestion[]) =>
+    suggestions.map(s => s.links.map(link => FormulaUtils.toString(link.implication)));
+
+  test('suggests nothing for a valid argument', () => {
+    expect(BridgeFinder.suggest([A, FormulaBuilder.implies(A, B)], B)).toEqual([]);
+  });
+
+  test('links an asserted premise straight to the conclusion', () => {
+    const suggestions = BridgeFinder.suggest([A], B);
+
+    expect(render(suggestions)).toEqual([['(A → B)']]);
+    expect(suggestions[0].links[0].fromPremise).toBe(0);
+  });
+
+  test('unlocks an implication whose antecedent is never established', () => {
+    const suggestions = BridgeFinder.suggest([A, FormulaBuilder.implies(B, C)], C);
+
+    expect(render(suggestions)).toEqual(expect.arrayContaining([['(A → C)'], ['(A → B)']]));
+    expect(suggestions.every(s => s.links.length === 1)).toBe(true);
+  });
+
+  test('needs no link from a premise the conclusion does not rest on', () => {
+    const suggestions = BridgeFinder.suggest([A, D, FormulaBuilder.implies(A, B)], C);
+
+    expect(render(suggestions)).toEqual(expect.arrayContaining([['(A → C)'], ['(D → C)'], ['(B → C)']]));
+    expect(suggestions.every(s => s.links.length === 1)).toBe(true);
+  });
+
+  test('checks bridges in the selected logic', () => {
+    // Conditional proof gives B ⊢ A → B in chaining, but R rejects it as a paradox
+    const conclusion = FormulaBuilder.implies(A, B);
+
+    expect(BridgeFinder.suggest([B], conclusion, 'chaining')).toEqual([]);
+    expect(render(BridgeFinder.suggest([B], conclusion, 'relevant'))).toContainEqual(['(B → (A → B))']);
+  });
+
+  test('first-degree entailment gets no implication bridges', () => {
+    expect(BridgeFinder.suggest([A], B, 'first_degree_entailment')).toEqual([]);
+  });
+});
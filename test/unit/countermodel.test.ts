@@ -0,0 +1,140 @@
+/**
+ * UNIT TESTS - Countermodels
+ * Tests classical, four-valued, Sugihara and relevant countermodels for invalid arguments
+ */
+
+import { CountermodelFinder } from '../../src/logic/countermodel';
+import { FormulaUtils, FormulaBuilder } from '../../src/logic/formula';
+import { LogicFormula } from '../../src/types';
+
+describe('Countermodel generation', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+
+  describe('CountermodelFinder.classical', () => {
+    test('finds assignment with premises true and conclusion false', () => {
+      const countermodel = CountermodelFinder.classical([FormulaBuilder.implies(A, B)], B);
+
+      expect(countermodel).not.toBeNull();
+      expect(countermodel!.logic).toBe('classical');
+      expect(countermodel!.assignment).toEqual({ A: false, B: false });
+      expect(countermodel!.explanation).toContain('A is false');
+    });
+
+    test('prefers assignments with fewest true atoms', () => {
+      const countermodel = CountermodelFinder.classical([A, FormulaBuilder.implies(B, C)], C);
+
+      expect(countermodel!.assignment).toEqual({ A: true, B: false, C: false });
+    });
+
+    test('returns null for classically valid argument', () => {
+      const countermodel = CountermodelFinder.classical([A, FormulaBuilder.implies(A, B)], B);
+
+      expect(countermodel).toBeNull();
+    });
+
+    test('evaluate treats implication materially', () => {
+      const assignment = new Map([['A', false], ['B', false]]);
+
+      expect(CountermodelFinder.evaluate(FormulaBuilder.implies(A, B), assignment)).toBe(true);
+      expect(CountermodelFinder.evaluate(FormulaBuilder.and(A, FormulaBuilder.not(B)), assignment)).toBe(false);
+    });
+
+    test('evaluate reads biconditionals and units', () => {
+      const assignment = new Map([['A', false], ['B', false]]);
+
+      expect(CountermodelFinder.evaluate(FormulaBuilder.iff(A, B), assignment)).toBe(true);
+      expect(CountermodelFinder.evaluate(FormulaBuilder.top(), assignment)).toBe(true);
+      expect(CountermodelFinder.evaluate(FormulaBuilder.zero(), assignment)).toBe(false);
+    });
+
+    test('finds the missing direction of a biconditional', () => {
+      const countermodel = CountermodelFinder.classical([FormulaBuilder.implies(A, B)], FormulaBuilder.iff(A, B));
+
+      expect(countermodel!.assignment).toEqual({ A: false, B: true });
+    });
+  });
+
+  describe('firstDegree', () => {
+    test('explosion fails when A is both true and false', () => {
+      const countermodel = CountermodelFinder.firstDegree([A, FormulaBuilder.not(A)], B);
+
+      expect(countermodel!.logic).toBe('first_degree_entailment');
+      expect(countermodel!.normalWorld!.A).toBe('both');
+      expect(countermodel!.normalWorld!.B).not.toBe('true');
+    });
+
+    test('excluded middle fails when A is neither', () => {
+      const countermodel = CountermodelFinder.firstDegree([], FormulaBuilder.or(A, FormulaBuilder.not(A)));
+
+      expect(countermodel!.normalWorld!.A).toBe('neither');
+    });
+
+    test('no countermodel for De Morgan', () => {
+      const countermodel = CountermodelFinder.firstDegree(
+        [FormulaBuilder.not(FormulaBuilder.and(A, B))],
+        FormulaBuilder.or(FormulaBuilder.not(A), FormulaBuilder.not(B))
+      );
+
+      expect(countermodel).toBeNull();
+    });
+
+    test('disjunctive syllogism fails', () => {
+      const countermodel = CountermodelFinder.firstDegree([FormulaBuilder.or(A, B), FormulaBuilder.not(A)], B);
+
+      expect(countermodel).not.toBeNull();
+    });
+  });
+
+  describe('sugihara', () => {
+    test('ex falso fails when A is both and B is false', () => {
+      const conclusion = FormulaBuilder.implies(FormulaBuilder.and(A, FormulaBuilder.not(A)), B);
+      const countermodel = CountermodelFinder.sugihara([], conclusion, 'relevant');
+
+      expect(countermodel!.logic).toBe('relevant');
+      expect(countermodel!.normalWorld).toEqual({ A: 'both', B: 'false' });
+      expect(countermodel!.worlds).toEqual(['0', '0*']);
+    });
+
+    test('reads the valuation off the prime filters of the chain', () => {
+      const countermodel = CountermodelFinder.sugihara([FormulaBuilder.or(FormulaBuilder.not(A), B)], FormulaBuilder.implies(A, B), 'entailment');
+
+      expect(countermodel!.logic).toBe('entailment');
+      expect(countermodel!.valuation!['0']).toContain('A');
+      expect(countermodel!.valuation!['0']).not.toContain('B');
+      expect(countermodel!.relations).toContain('R(0, 0, 0)');
+    });
+
+    test('no countermodel for self-distribution', () => {
+      const imp = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.implies(x, y);
+      const countermodel = CountermodelFinder.sugihara([], imp(imp(A, imp(B, C)), imp(imp(A, B), imp(A, C))), 'relevant');
+
+      expect(countermodel).toBeNull();
+    });
+  });
+
+  describe('FormulaUtils.findCountermodel', () => {
+    test('relevant countermodel for explosion is inconsistent at the normal world', () => {
+      const countermodel = FormulaUtils.findCountermodel([A, FormulaBuilder.not(A)], B, 'relevant');
+
+      expect(countermodel!.logic).toBe('relevant');
+      expect(countermodel!.normalWorld!.A).toBe('both');
+      expect(countermodel!.valuation!['0']).toContain('A');
+      expect(countermodel!.valuation!['0']).not.toContain('B');
+    });
+
+    test('relevant countermodel for positive paradox has extra worlds', () => {
+      const countermodel = FormulaUtils.findCountermodel([], FormulaBuilder.implies(A, FormulaBuilder.implies(B, A)), 'relevant');
+
+      expect(countermodel!.worlds!.length).toBeGreaterThan(2);
+      expect(countermodel!.relations!.length).toBeGreaterThan(0);
+    });
+
+    test('no countermodel for relevantly valid argument', () => {
+      const countermodel = FormulaUtils.findCountermodel([A, FormulaBuilder.implies(A, B)], B, 'relevant');
+
+      expect(countermodel).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * UNIT TESTS - Derivation
+ * Tests proof search over premises and conclusion
+ */
+
+import { Derivation } from '../../src/logic/derivation';
+import { FormulaBuilder } from '../../src/logic/formula';
+
+describe('Derivation - Proof Search', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+  const D = FormulaBuilder.atomic('D');
+
+  describe('derive', () => {
+    test('derives conclusion by modus ponens', () => {
+      const result = Derivation.derive([A, FormulaBuilder.implies(A, B)], B);
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.rule).toBe('→E');
+    });
+
+    test('REJECTS implication whose antecedent is never asserted', () => {
+      const result = Derivation.derive([FormulaBuilder.implies(A, B)], B);
+
+      expect(result.derivable).toBe(false);
+      expect(result.conclusion).toBeUndefined();
+    });
+
+    test('chains implications', () => {
+      const result = Derivation.derive([
+        A,
+        FormulaBuilder.implies(A, B),
+        FormulaBuilder.implies(B, C)
+      ], C);
+
+      expect(result.derivable).toBe(true);
+    });
+
+    test('derives conjunct by simplification', () => {
+      const result = Derivation.derive([FormulaBuilder.and(A, B), FormulaBuilder.implies(B, C)], C);
+
+      expect(result.derivable).toBe(true);
+    });
+
+    test('derives conjunctive antecedent by adjunction', () => {
+      const result = Derivation.derive([
+        A,
+        B,
+        FormulaBuilder.implies(FormulaBuilder.and(A, B), C)
+      ], C);
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.from[1].rule).toBe('∧I');
+    });
+
+    test('derives disjunctive antecedent by addition', () => {
+      const result = Derivation.derive([
+        A,
+        FormulaBuilder.implies(FormulaBuilder.or(A, B), C)
+      ], C);
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.from[1].rule).toBe('∨I');
+    });
+
+    test('derives conclusion by proof by cases', () => {
+      const result = Derivation.derive([
+        FormulaBuilder.or(A, B),
+        FormulaBuilder.implies(A, C),
+        FormulaBuilder.implies(B, C)
+      ], C);
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.rule).toBe('∨E');
+      expect(result.conclusion!.cases).toHaveLength(2);
+    });
+
+    test('REJECTS proof by cases when one case fails', () => {
+      const result = Derivation.derive([
+        FormulaBuilder.or(A, B),
+        FormulaBuilder.implies(A, C),
+        FormulaBuilder.implies(B, D)
+      ], C);
+
+      expect(result.derivable).toBe(false);
+    });
+
+    test('does not derive from a disjunction alone', () => {
+      const result = Derivation.derive([FormulaBuilder.or(A, B)], A);
+
+      expect(result.derivable).toBe(false);
+    });
+
+    test('uses a biconditional in either direction', () => {
+      const iff = FormulaBuilder.iff(A, B);
+
+      expect(Derivation.derive([iff, A], B).conclusion!.rule).toBe('↔E');
+      expect(Derivation.derive([iff, B], A).conclusion!.rule).toBe('↔E');
+    });
+
+    test('introduces a biconditional from both implications', () => {
+      const result = Derivation.derive([FormulaBuilder.implies(A, B), FormulaBuilder.implies(B, A)], FormulaBuilder.iff(A, B));
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.rule).toBe('↔I');
+    });
+
+    test('derives anything from ⊥ and ⊤ from nothing', () => {
+      expect(Derivation.derive([FormulaBuilder.zero()], C).conclusion!.rule).toBe('⊥E');
+      expect(Derivation.derive([A], FormulaBuilder.top()).conclusion!.rule).toBe('⊤I');
+    });
+
+    test('derives an implication by conditional proof', () => {
+      const result = Derivation.derive([FormulaBuilder.implies(A, B), FormulaBuilder.implies(B, C)], FormulaBuilder.implies(A, C));
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.rule).toBe('→I');
+    });
+
+    test('derives a negation by reductio', () => {
+      const result = Derivation.derive([FormulaBuilder.implies(A, B), FormulaBuilder.not(B)], FormulaBuilder.not(A));
+
+      expect(result.derivable).toBe(true);
+      expect(result.conclusion!.rule).toBe('¬I');
+      expect(result.conclusion!.cases![0].result.rule).toBe('¬E');
+    });
+
+    test('REJECTS conditional proof when the consequent does not follow', () => {
+      expect(Derivation.derive([FormulaBuilder.implies(A, B)], FormulaBuilder.implies(B, A)).derivable).toBe(false);
+      expect(Derivation.derive([FormulaBuilder.implies(A, B), B], FormulaBuilder.not(A)).derivable).toBe(false);
+    });
+
+    test('reports established formulas', () => {
+      const result = Derivation.derive([A, FormulaBuilder.implies(A, B)], C);
+
+      const established = result.established.map(f => f.predicate).filter(Boolean);
+      expect(established).toEqual(expect.arrayContaining(['A', 'B']));
+      expect(established).not.toContain('C');
+    });
+  });
+
+  describe('toProofLines', () => {
+    test('numbers premises first and ends in the conclusion', () => {
+      const result = Derivation.derive([A, FormulaBuilder.implies(A, B), FormulaBuilder.implies(B, C)], C);
+      const lines = Derivation.toProofLines(result.conclusion!);
+
+      expect(lines.map(l => l.rule)).toEqual(['premise', 'premise', 'premise', '→E', '→E']);
+      expect(lines[3]).toMatchObject({ line: 4, cites: [2, 1] });
+      expect(lines[4]).toMatchObject({ line: 5, cites: [3, 4] });
+      expect(lines[4].formula.predicate).toBe('C');
+    });
+
+    test('omits premises the proof does not use', () => {
+      const result = Derivation.derive([D, A, FormulaBuilder.implies(A, B)], B);
+      const lines = Derivation.toProofLines(result.conclusion!);
+
+      expect(lines.filter(l => l.rule === 'premise').map(l => l.premiseIndex)).toEqual([1, 2]);
+    });
+
+    test('nests case hypotheses inside proof by cases', () => {
+      const result = Derivation.derive([
+        FormulaBuilder.or(A, B),
+        FormulaBuilder.implies(A, C),
+        FormulaBuilder.implies(B, C)
+      ], C);
+      const lines = Derivation.toProofLines(result.conclusion!);
+      const last = lines[lines.length - 1];
+
+      expect(last.rule).toBe('∨E');
+      expect(last.depth).toBe(0);
+      expect(last.cites).toHaveLength(5);
+      expect(lines.filter(l => l.rule === 'hypothesis').every(l => l.depth === 1)).toBe(true);
+    });
+
+    test('opens the hypothesis of a conditional proof and closes it at →I', () => {
+      const result = Derivation.derive([FormulaBuilder.implies(A, B), FormulaBuilder.implies(B, C)], FormulaBuilder.implies(A, C));
+      const lines = Derivation.toProofLines(result.conclusion!);
+
+      expect(lines.map(l => `${l.rule}@${l.depth}`)).toEqual([
+        'premise@0', 'premise@0', 'hypothesis@1', '→E@1', '→E@1', '→I@0'
+      ]);
+      expect(lines[5].cites).toEqual([3, 5]);
+    });
+  });
+});
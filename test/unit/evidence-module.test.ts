@@ -178,6 +178,29 @@ describe('EvidenceModule', () => {
       expect(implicationRequirements.length).toBe(1); // mammal(x) → warm_blooded(x)
     });
 
+    it('should require evidence for both directions of a biconditional', () => {
+      const A = FormulaBuilder.atomic('A');
+      const B = FormulaBuilder.atomic('B');
+
+      const report = evidenceModule.enforceEvidenceCompliance({
+        premises: [{ formula: FormulaBuilder.iff(A, B) }, { formula: A }],
+        conclusion: { formula: B }
+      });
+
+      const targets = report.requirements.filter(r => r.type === 'implication').map(r => r.target);
+      expect(targets).toEqual(expect.arrayContaining(['A → B', 'B → A']));
+    });
+
+    it('should flag ⊥ premises and require nothing for ⊤', () => {
+      const report = evidenceModule.enforceEvidenceCompliance({
+        premises: [{ formula: FormulaBuilder.top() }, { formula: FormulaBuilder.zero() }],
+        conclusion: { formula: FormulaBuilder.atomic('A') }
+      });
+
+      expect(report.requirements.filter(r => r.type === 'implication')).toHaveLength(0);
+      expect(report.invalidEvidence[0]).toContain('absurdity');
+    });
+
     it('should handle multiple premises with shared atoms', () => {
       const premise1 = {
         formula: FormulaBuilder.atomic('mammal', [{ type: 'variable', name: 'x' }])
@@ -0,0 +1,65 @@
+/**
+ * UNIT TESTS - Fallacy Checker
+ * Tests detection of affirming the consequent, denying the antecedent, undistributed middle and conversion
+ */
+
+import { FallacyChecker } from '../../src/logic/fallacy-checker';
+import { FormulaBuilder } from '../../src/logic/formula';
+import { LogicFormula } from '../../src/types';
+
+describe('FallacyChecker.detect', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+
+  // "All S are P" as ∀x(S(x) → P(x))
+  const all = (subject: string, predicate: string): LogicFormula => {
+    const x = [{ type: 'variable' as const, name: 'x' }];
+    return FormulaBuilder.forall('x', FormulaBuilder.implies(FormulaBuilder.atomic(subject, x), FormulaBuilder.atomic(predicate, x)));
+  };
+  const of = (predicate: string, name: string) => FormulaBuilder.atomic(predicate, [{ type: 'constant', name }]);
+
+  test('affirming the consequent', () => {
+    const [fallacy] = FallacyChecker.detect([FormulaBuilder.implies(A, B), B], A);
+
+    expect(fallacy.kind).toBe('affirming_the_consequent');
+    expect(fallacy.premises).toEqual([0, 1]);
+    expect(fallacy.message).toMatch(/^AFFIRMING THE CONSEQUENT in P1, P2:/);
+  });
+
+  test('affirming the consequent in categorical form', () => {
+    const [fallacy] = FallacyChecker.detect([all('man', 'mortal'), of('mortal', 'socrates')], of('man', 'socrates'));
+
+    expect(fallacy.kind).toBe('affirming_the_consequent');
+  });
+
+  test('denying the antecedent', () => {
+    const [fallacy] = FallacyChecker.detect([B, FormulaBuilder.not(A), FormulaBuilder.implies(A, B)], FormulaBuilder.not(B));
+
+    expect(fallacy.kind).toBe('denying_the_antecedent');
+    expect(fallacy.premises).toEqual([2, 1]);
+  });
+
+  test('conversion of an implication', () => {
+    const [fallacy] = FallacyChecker.detect([FormulaBuilder.implies(A, B)], FormulaBuilder.implies(B, A));
+
+    expect(fallacy.kind).toBe('conversion');
+    expect(fallacy.premises).toEqual([0]);
+  });
+
+  test('undistributed middle', () => {
+    const fallacies = FallacyChecker.detect([all('cat', 'mammal'), all('dog', 'mammal')], all('cat', 'dog'));
+
+    expect(fallacies.map(f => f.kind)).toEqual(['undistributed_middle']);
+    expect(fallacies[0].premises).toEqual([0, 1]);
+  });
+
+  test('reports nothing for valid forms', () => {
+    expect(FallacyChecker.detect([FormulaBuilder.implies(A, B), A], B)).toEqual([]);
+    expect(FallacyChecker.detect([all('cat', 'mammal'), all('mammal', 'animal')], all('cat', 'animal'))).toEqual([]);
+  });
+
+  test('reports nothing when the conclusion follows another way', () => {
+    expect(FallacyChecker.detect([FormulaBuilder.implies(A, B), B, C, FormulaBuilder.implies(C, A)], A)).toEqual([]);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import { FormulaUtils, FormulaBuilder } from '../../src/logic/formula';
+import { LogicFormula } from '../../src/types';
 
 describe('FormulaUtils - Core Functions', () => {
   describe('Connected Components Validation', () => {
@@ -109,6 +110,196 @@ describe('FormulaUtils - Core Functions', () => {
     });
   });
 
+  describe('validate with a selected logic', () => {
+    const A = FormulaBuilder.atomic('A');
+    const B = FormulaBuilder.atomic('B');
+    const excludedMiddle = FormulaBuilder.or(A, FormulaBuilder.not(A));
+    const byCases = [FormulaBuilder.implies(A, B), FormulaBuilder.implies(FormulaBuilder.not(A), B)];
+
+    test('first-degree entailment rejects biconditionals but accepts units', () => {
+      const iff = FormulaUtils.validate([FormulaBuilder.iff(A, B), A], B, 'first_degree_entailment');
+      const unit = FormulaUtils.validate([FormulaBuilder.or(A, FormulaBuilder.zero())], A, 'first_degree_entailment');
+
+      expect(iff.violatedConstraints[0]).toContain('UNSUPPORTED');
+      expect(unit.isValid).toBe(true);
+    });
+
+    test('without a logic only the structural checks run', () => {
+      const result = FormulaUtils.validate([FormulaBuilder.implies(A, B)], B);
+
+      expect(result.isValid).toBe(true);
+      expect(result.logic).toBeUndefined();
+    });
+
+    test('chaining attaches the derivation', () => {
+      const result = FormulaUtils.validate([A, FormulaBuilder.implies(A, B)], B, 'chaining');
+
+      expect(result.isValid).toBe(true);
+      expect(result.derivation!.derivable).toBe(true);
+    });
+
+    test('chaining rejects an implication that never fires', () => {
+      const result = FormulaUtils.validate([FormulaBuilder.implies(A, B)], B, 'chaining');
+
+      expect(result.isValid).toBe(false);
+      expect(result.violatedConstraints[0]).toContain('UNDERIVABLE');
+      expect(result.violatedConstraints[0]).toContain('Nothing establishes A');
+    });
+
+    test('classical logic accepts proof by cases on excluded middle', () => {
+      const result = FormulaUtils.validate(byCases, B, 'classical');
+
+      expect(result.isValid).toBe(true);
+    });
+
+    test('intuitionistic logic rejects proof by cases on excluded middle', () => {
+      const result = FormulaUtils.validate(byCases, B, 'intuitionistic');
+
+      expect(result.isValid).toBe(false);
+      expect(result.violatedConstraints[0]).toContain('NOT INTUITIONISTICALLY VALID');
+    });
+
+    test('classical logic rejects with a countermodel', () => {
+      const result = FormulaUtils.validate([FormulaBuilder.implies(A, B), B], A, 'classical');
+
+      expect(result.isValid).toBe(false);
+      expect(result.violatedConstraints[0]).toContain('CLASSICALLY INVALID');
+      expect(result.countermodel!.assignment).toEqual({ A: false, B: true });
+    });
+
+    test('relevant logic attaches the tableau', () => {
+      const result = FormulaUtils.validate([A, FormulaBuilder.implies(A, B)], B, 'relevant');
+
+      expect(result.isValid).toBe(true);
+      expect(result.tableau!.status).toBe('proved');
+    });
+
+    test('entailment rejects a contingent premise carried into an implication', () => {
+      const result = FormulaUtils.validate([A], FormulaBuilder.implies(B, A), 'entailment');
+
+      expect(result.isValid).toBe(false);
+      expect(result.violatedConstraints[0]).toContain('NOT A VALID ENTAILMENT');
+    });
+
+    test('first-degree entailment rejects excluded middle as a consequence', () => {
+      const result = FormulaUtils.validate([A], FormulaBuilder.or(B, FormulaBuilder.not(B)), 'first_degree_entailment');
+
+      expect(result.isValid).toBe(false);
+    });
+
+    test('first-degree entailment refuses implications', () => {
+      const result = FormulaUtils.validate([A, FormulaBuilder.implies(A, B)], B, 'first_degree_entailment');
+
+      expect(result.isValid).toBe(false);
+      expect(result.violatedConstraints[0]).toContain('UNSUPPORTED');
+    });
+
+    test('structural failures still carry a countermodel for the logic', () => {
+      const result = FormulaUtils.validate([A], B, 'classical');
+
+      expect(result.structurallyValid).toBe(false);
+      expect(result.violatedConstraints[0]).toContain('DISCONNECTED');
+      expect(result.countermodel!.logic).toBe('classical');
+    });
+
+    test('excluded middle discharges an antecedent classically but not intuitionistically', () => {
+      const premises = [FormulaBuilder.implies(excludedMiddle, B)];
+
+      expect(FormulaUtils.validate(premises, B, 'classical').isValid).toBe(true);
+      expect(FormulaUtils.validate(premises, B, 'intuitionistic').isValid).toBe(false);
+    });
+  });
+
+  describe('findInconsistentCore', () => {
+    const A = FormulaBuilder.atomic('A');
+    const B = FormulaBuilder.atomic('B');
+
+    test('returns null for consistent formulas', () => {
+      expect(FormulaUtils.findInconsistentCore([A, FormulaBuilder.implies(A, B)])).toBeNull();
+    });
+
+    test('returns only the formulas involved in the contradiction', () => {
+      const core = FormulaUtils.findInconsistentCore([
+        A,
+        B,
+        FormulaBuilder.implies(A, FormulaBuilder.atomic('C')),
+        FormulaBuilder.not(B)
+      ]);
+
+      expect(core).toEqual([1, 3]);
+    });
+
+    test('finds contradictions that take several steps', () => {
+      const core = FormulaUtils.findInconsistentCore([
+        A,
+        FormulaBuilder.implies(A, B),
+        FormulaBuilder.not(FormulaBuilder.and(A, B))
+      ]);
+
+      expect(core).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('findMinimalPremiseSets', () => {
+    const A = FormulaBuilder.atomic('A');
+    const B = FormulaBuilder.atomic('B');
+    const C = FormulaBuilder.atomic('C');
+
+    test('returns no sets when the conclusion does not follow', () => {
+      expect(FormulaUtils.findMinimalPremiseSets([FormulaBuilder.implies(A, B)], B)).toEqual({ sets: [], complete: true });
+    });
+
+    test('leaves out premises the conclusion does not need', () => {
+      const sets = FormulaUtils.findMinimalPremiseSets([A, C, FormulaBuilder.implies(A, B)], B);
+
+      expect(sets).toEqual({ sets: [[0, 2]], complete: true });
+    });
+
+    test('finds each alternative path, smallest first', () => {
+      const sets = FormulaUtils.findMinimalPremiseSets([
+        A,
+        FormulaBuilder.implies(A, B),
+        C,
+        FormulaBuilder.implies(C, A),
+        B
+      ], B);
+
+      expect(sets).toEqual({ sets: [[4], [0, 1], [1, 2, 3]], complete: true });
+    });
+
+    test('uses the selected logic', () => {
+      const premises = [FormulaBuilder.or(A, FormulaBuilder.not(A)), FormulaBuilder.implies(A, B), FormulaBuilder.implies(FormulaBuilder.not(A), B)];
+
+      expect(FormulaUtils.findMinimalPremiseSets(premises, B, 'classical')).toEqual({ sets: [[1, 2]], complete: true });
+      expect(FormulaUtils.findMinimalPremiseSets(premises, B, 'intuitionistic')).toEqual({ sets: [[0, 1, 2]], complete: true });
+    });
+
+    test('marks the sets incomplete once the work budget runs out', () => {
+      const premises = [A, C, FormulaBuilder.implies(A, FormulaBuilder.implies(C, B))];
+
+      expect(FormulaUtils.findMinimalPremiseSets(premises, B, 'relevant')).toEqual({ sets: [[0, 1, 2]], complete: true });
+      expect(FormulaUtils.findMinimalPremiseSets(premises, B, 'relevant', 10)).toEqual({ sets: [], complete: false });
+    });
+
+    test('finds the minimal set of a large relevant argument within the work budget', () => {
+      const atom = (i: number) => FormulaBuilder.atomic(`A${i}`);
+      const implies = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.implies(x, y);
+      const premises = [
+        atom(0),
+        atom(1),
+        implies(atom(0), implies(atom(1), atom(2))),
+        implies(atom(2), implies(atom(0), atom(3))),
+        implies(atom(3), implies(atom(1), atom(4))),
+        implies(atom(4), atom(5)),
+        implies(implies(atom(0), atom(5)), atom(6)),
+        implies(atom(6), atom(7))
+      ];
+
+      // A0 is only ever needed as the hypothesis of A0 → A5
+      expect(FormulaUtils.findMinimalPremiseSets(premises, atom(7), 'relevant')).toEqual({ sets: [[1, 2, 3, 4, 5, 6, 7]], complete: true });
+    });
+  });
+
   // Keep all the other non-atomic-sharing tests...
   describe('Step 4: Quantifier Scope Handling', () => {
     test('getQuantifierScope extracts forall scope correctly', () => {
@@ -0,0 +1,65 @@
+/**
+ * UNIT TESTS - Graph Export
+ * Tests drawing a stored argument in DOT and Mermaid
+ */
+
+import { GraphExport } from '../../src/export/graph-export';
+import { ArgumentFormulas } from '../../src/export/argument-formulas';
+import { EvidenceItem } from '../../src/types';
+import { argumentRecord } from '../helpers/records';
+
+describe('GraphExport', () => {
+  const atomGroupings = [
+    { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: [] },
+    { symbol: 'ROLE', concept_description: 'Roles are "assigned"', text_variants: [] },
+    { symbol: 'ACCESS', concept_description: 'Access control is working', text_variants: [] },
+    { symbol: 'DOCS', concept_description: 'Docs are published', text_variants: [] }
+  ];
+
+  const argument = (premises: string[], conclusion = 'ACCESS') => ArgumentFormulas.fromRecord(argumentRecord(atomGroupings, premises, conclusion));
+
+  const evidence: EvidenceItem[] = [
+    { target: '(AUTH ∧ ROLE) → ACCESS', summary: 'RBAC design', strength: 0.8, citation: 'doc' },
+    { target: '(AUTH ∧ ROLE) → ACCESS', summary: 'RBAC tests', strength: 0.6, citation: 'CI' },
+    { target: 'AUTH', summary: 'Login ships', strength: 0.9, citation: 'PR 12' }
+  ];
+
+  test('draws atoms, a conjunction join and the implication in DOT', () => {
+    const dot = GraphExport.toDot(argument(['AUTH', 'ROLE', 'AUTH ∧ ROLE → ACCESS']), evidence);
+
+    expect(dot).toMatch(/^digraph argument \{/);
+    expect(dot).toContain('n_AUTH [label="AUTH\\nAuthentication is implemented\\nevidence 0.9", penwidth=2];');
+    expect(dot).toContain('label="ROLE\\nRoles are \\"assigned\\""');
+    expect(dot).toMatch(/n_ACCESS \[label="ACCESS\\nAccess control is working", style="rounded,filled", fillcolor="#c6efce"/);
+    expect(dot).toMatch(/j\d+ \[label="∧", shape=circle\];/);
+    expect(dot).toMatch(/n_AUTH -> j\d+;/);
+    expect(dot).toMatch(/n_ROLE -> j\d+;/);
+    expect(dot).toMatch(/j\d+ -> n_ACCESS \[label="0.7"\];/);
+  });
+
+  test('colors premises that never reach the conclusion', () => {
+    const dot = GraphExport.toDot(argument(['AUTH', 'AUTH -> ACCESS', 'DOCS']));
+
+    expect(dot).toContain('n_DOCS [label="DOCS\\nDocs are published", penwidth=2, style="rounded,filled", fillcolor="#ffd8a8", color="#e8590c"];');
+    expect(dot).not.toMatch(/n_AUTH \[[^\]]*#ffd8a8/);
+  });
+
+  test('draws the same graph in Mermaid with classes for the conclusion and disconnected premises', () => {
+    const mermaid = GraphExport.toMermaid(argument(['AUTH', 'ROLE', 'AUTH ∧ ROLE → ACCESS', 'DOCS -> ROLE', 'AUTH <-> DOCS']), evidence);
+
+    expect(mermaid).toMatch(/^flowchart LR/);
+    expect(mermaid).toContain('n_ROLE["ROLE<br/>Roles are #quot;assigned#quot;"]');
+    expect(mermaid).toMatch(/j\d+\(\("∧"\)\)/);
+    expect(mermaid).toMatch(/j\d+ -->\|0.7\| n_ACCESS/);
+    expect(mermaid).toContain('n_AUTH <--> n_DOCS');
+    expect(mermaid).toContain('class n_ACCESS conclusion');
+    expect(mermaid).not.toContain('class n_DOCS disconnected');
+  });
+
+  test('marks disconnected edges and nodes in Mermaid', () => {
+    const mermaid = GraphExport.toMermaid(argument(['AUTH', 'AUTH -> ACCESS', 'DOCS -> ROLE']));
+
+    expect(mermaid).toContain('class n_DOCS,n_ROLE disconnected');
+    expect(mermaid).toContain('linkStyle 1 stroke:#e8590c');
+  });
+});
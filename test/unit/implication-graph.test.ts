@@ -0,0 +1,58 @@
+/**
+ * UNIT TESTS - Implication Graph
+ * Tests directed reachability from asserted atoms to the conclusion
+ */
+
+import { ImplicationGraph } from '../../src/logic/implication-graph';
+import { FormulaUtils, FormulaBuilder } from '../../src/logic/formula';
+
+describe('ImplicationGraph.analyze', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+  const D = FormulaBuilder.atomic('D');
+
+  test('follows implications from antecedent to consequent', () => {
+    const report = ImplicationGraph.analyze([A, FormulaBuilder.implies(A, B), FormulaBuilder.implies(B, C)], C);
+
+    expect(report.edges.map(e => `${e.from}>${e.to}`)).toEqual(['A>B', 'B>C']);
+    expect(report.asserted).toEqual(['A']);
+    expect(report.reachingConclusion).toEqual(['A']);
+    expect(report.conclusionReachable).toBe(true);
+    expect(report.wrongDirection).toHaveLength(0);
+    expect(report.deadEnds).toHaveLength(0);
+  });
+
+  test('flags an implication that points from the conclusion back to an asserted atom', () => {
+    const report = ImplicationGraph.analyze([A, FormulaBuilder.implies(C, A)], C);
+
+    expect(report.conclusionReachable).toBe(false);
+    expect(report.wrongDirection).toHaveLength(1);
+    expect(report.wrongDirection[0].premiseIndex).toBe(1);
+    expect(FormulaUtils.toString(report.wrongDirection[0].implication)).toBe('(C → A)');
+  });
+
+  test('reports atoms that lead away from the conclusion as dead ends', () => {
+    const report = ImplicationGraph.analyze([A, FormulaBuilder.implies(A, B), FormulaBuilder.implies(A, C)], C);
+
+    expect(report.conclusionReachable).toBe(true);
+    expect(report.deadEnds).toEqual(['B']);
+  });
+
+  test('a biconditional carries support both ways', () => {
+    const report = ImplicationGraph.analyze([A, FormulaBuilder.iff(C, A)], C);
+
+    expect(report.conclusionReachable).toBe(true);
+    expect(report.wrongDirection).toHaveLength(0);
+  });
+
+  test('conjuncts and disjuncts count as asserted, negated atoms do not', () => {
+    const report = ImplicationGraph.analyze([
+      FormulaBuilder.and(A, FormulaBuilder.or(B, C)),
+      FormulaBuilder.not(D)
+    ], D);
+
+    expect(report.asserted).toEqual(['A', 'B', 'C']);
+    expect(report.conclusionReachable).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * UNIT TESTS - Intuitionistic Prover
+ * Tests the G4ip decision procedure for intuitionistic propositional logic
+ */
+
+import { IntuitionisticProver } from '../../src/logic/intuitionistic';
+import { FormulaBuilder } from '../../src/logic/formula';
+
+describe('IntuitionisticProver.prove', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+
+  describe('proves', () => {
+    test('modus ponens', () => {
+      expect(IntuitionisticProver.prove([A, FormulaBuilder.implies(A, B)], B)).toBe(true);
+    });
+
+    test('proof by cases', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.or(A, B), FormulaBuilder.implies(A, C), FormulaBuilder.implies(B, C)], C)).toBe(true);
+    });
+
+    test('double negation introduction', () => {
+      expect(IntuitionisticProver.prove([A], FormulaBuilder.not(FormulaBuilder.not(A)))).toBe(true);
+    });
+
+    test('explosion', () => {
+      expect(IntuitionisticProver.prove([A, FormulaBuilder.not(A)], B)).toBe(true);
+    });
+
+    test('triple negation reduces to single negation', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.not(FormulaBuilder.not(FormulaBuilder.not(A)))], FormulaBuilder.not(A))).toBe(true);
+    });
+
+    test('double negation of excluded middle', () => {
+      expect(IntuitionisticProver.prove([], FormulaBuilder.not(FormulaBuilder.not(FormulaBuilder.or(A, FormulaBuilder.not(A)))))).toBe(true);
+    });
+
+    test('biconditional elimination', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.iff(A, B), B], A)).toBe(true);
+    });
+
+    test('units', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.zero()], C)).toBe(true);
+      expect(IntuitionisticProver.prove([], FormulaBuilder.top())).toBe(true);
+    });
+
+    test('currying', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.implies(FormulaBuilder.and(A, B), C)], FormulaBuilder.implies(A, FormulaBuilder.implies(B, C)))).toBe(true);
+    });
+  });
+
+  describe('rejects', () => {
+    test('excluded middle', () => {
+      expect(IntuitionisticProver.prove([], FormulaBuilder.or(A, FormulaBuilder.not(A)))).toBe(false);
+    });
+
+    test('double negation elimination', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.not(FormulaBuilder.not(A))], A)).toBe(false);
+    });
+
+    test('Peirce\'s law', () => {
+      expect(IntuitionisticProver.prove([], FormulaBuilder.implies(FormulaBuilder.implies(FormulaBuilder.implies(A, B), A), A))).toBe(false);
+    });
+
+    test('De Morgan for negated conjunction', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.not(FormulaBuilder.and(A, B))], FormulaBuilder.or(FormulaBuilder.not(A), FormulaBuilder.not(B)))).toBe(false);
+    });
+
+    test('affirming the consequent', () => {
+      expect(IntuitionisticProver.prove([FormulaBuilder.implies(A, B), B], A)).toBe(false);
+    });
+  });
+});
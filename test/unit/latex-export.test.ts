@@ -0,0 +1,76 @@
+/**
+ * UNIT TESTS - LaTeX Export
+ * Tests typesetting the derivation and glossary of a stored argument
+ */
+
+import { LatexExport } from '../../src/export/latex-export';
+import { ArgumentFormulas } from '../../src/export/argument-formulas';
+import { FormulaBuilder } from '../../src/logic/formula';
+import { ArgumentRecord } from '../../src/types';
+
+describe('LatexExport', () => {
+  const atomGroupings = [
+    { symbol: 'AUTH', concept_description: 'Authentication is implemented', text_variants: [] },
+    { symbol: 'ROLE', concept_description: 'Roles & permissions are 100% assigned', text_variants: [] },
+    { symbol: 'ACCESS_OK', concept_description: 'Access control is working', text_variants: [] }
+  ];
+
+  const argument = (premises: string[], conclusion: string) => ArgumentFormulas.fromRecord({
+    atomGroupings,
+    premises,
+    conclusion,
+    lemmas: []
+  } as unknown as ArgumentRecord);
+
+  test('typesets a Fitch-style derivation with premise and rule justifications', () => {
+    const latex = LatexExport.toLatex(argument(['AUTH', 'ROLE', 'AUTH ∧ ROLE → ACCESS_OK'], 'ACCESS_OK'))!;
+
+    expect(latex).toContain('\\begin{nd}');
+    expect(latex).toContain('\\hypo{1}{\\mathrm{AUTH}} \\by{P1}{}');
+    expect(latex).toContain('\\hypo{3}{(\\mathrm{AUTH} \\land \\mathrm{ROLE}) \\to \\mathrm{ACCESS\\_OK}} \\by{P3}{}');
+    expect(latex).toContain('\\have{4}{\\mathrm{AUTH} \\land \\mathrm{ROLE}} \\by{\\ensuremath{\\land}I}{1, 2}');
+    expect(latex).toContain('\\have{5}{\\mathrm{ACCESS\\_OK}} \\by{\\ensuremath{\\to}E}{3, 4}');
+    expect(latex).toContain('\\end{nd}');
+  });
+
+  test('opens and closes a subproof for conditional proof', () => {
+    const latex = LatexExport.toLatex(argument(['AUTH → ROLE', 'ROLE → ACCESS_OK'], 'AUTH → ACCESS_OK'))!;
+    const lines = latex.split('\n');
+
+    const open = lines.findIndex(line => line.trim() === '\\open');
+    expect(lines[open + 1].trim()).toBe('\\hypo{3}{\\mathrm{AUTH}}');
+    expect(lines.findIndex(line => line.trim() === '\\close')).toBeGreaterThan(open);
+    expect(latex).toContain('\\have{6}{\\mathrm{AUTH} \\to \\mathrm{ACCESS\\_OK}} \\by{\\ensuremath{\\to}I}{3--5}');
+  });
+
+  test('typesets a bussproofs tree with discharged hypotheses', () => {
+    const latex = LatexExport.toLatex(argument(['AUTH → ROLE', 'ROLE → ACCESS_OK'], 'AUTH → ACCESS_OK'), 'bussproofs')!;
+
+    expect(latex).toContain('\\begin{prooftree}');
+    expect(latex).toContain('\\AxiomC{$[\\mathrm{AUTH}]^{1}$}');
+    expect(latex).toContain('\\RightLabel{\\scriptsize \\ensuremath{\\to}I$^{1}$}');
+    expect(latex).toMatch(/\\UnaryInfC\{\$\\mathrm\{AUTH\} \\to \\mathrm\{ACCESS\\_OK\}\$\}\n\\end\{prooftree\}$/);
+    expect(latex.match(/\\BinaryInfC/g)).toHaveLength(2);
+  });
+
+  test('includes an escaped glossary and can produce a standalone document', () => {
+    const latex = LatexExport.toLatex(argument(['AUTH', 'AUTH → ACCESS_OK'], 'ACCESS_OK'), 'bussproofs', true)!;
+
+    expect(latex).toMatch(/^\\documentclass\{article\}\n\\usepackage\{bussproofs\}/);
+    expect(latex).toContain('$\\mathrm{ROLE}$ & Roles \\& permissions are 100\\% assigned \\\\');
+    expect(latex).toMatch(/\\end\{document\}$/);
+  });
+
+  test('returns undefined when the conclusion cannot be derived', () => {
+    expect(LatexExport.toLatex(argument(['AUTH → ACCESS_OK'], 'ACCESS_OK'))).toBeUndefined();
+  });
+
+  test('renders quantifiers, predicates and terms', () => {
+    const formula = FormulaBuilder.forall('x', FormulaBuilder.compound('implies', [
+      FormulaBuilder.atomic('human', [{ type: 'variable', name: 'x' }]),
+      FormulaBuilder.atomic('mortal', [{ type: 'variable', name: 'x' }])
+    ]));
+
+    expect(LatexExport.formula(formula)).toBe('\\forall x\\,(\\mathrm{human}(x) \\to \\mathrm{mortal}(x))');
+  });
+});
@@ -28,6 +28,28 @@ describe('NaturalLanguageParser - Unit Tests', () => {
       expect(result.formula.operator).toBe('implies');
     });
 
+    test('parses formal biconditional P(x) ↔ Q(x)', () => {
+      const result = parser.parse('P(x) ↔ Q(x)');
+
+      expect(result.formula.operator).toBe('biconditional');
+      expect(result.formula.subformulas).toHaveLength(2);
+    });
+
+    test('parses "P if and only if Q" as a biconditional, not a conjunction', () => {
+      const result = parser.parse('the light is on if and only if the switch is up');
+
+      expect(result.formula.operator).toBe('biconditional');
+      expect(result.formula.subformulas![0].naturalLanguage).toContain('the light is on');
+      expect(result.formula.subformulas![1].naturalLanguage).toContain('the switch is up');
+    });
+
+    test('parses units inside formal expressions', () => {
+      const result = parser.parse('P(x) → ⊥');
+
+      expect(result.formula.operator).toBe('implies');
+      expect(result.formula.subformulas![1].operator).toBe('zero');
+    });
+
     test('parses atomic predicate P(a)', () => {
       const result = parser.parse('P(a)');
 
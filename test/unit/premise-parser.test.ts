@@ -0,0 +1,161 @@
+/**
+ * UNIT TESTS - Premise Parser
+ * Tests the symbolic premise grammar: precedence, associativity, parentheses, operator spellings and parse errors
+ */
+
+import { PremiseParser } from '../../src/logic/premise-parser';
+import { FormulaUtils, FormulaBuilder } from '../../src/logic/formula';
+import { LogicFormula } from '../../src/types';
+
+describe('PremiseParser.parse', () => {
+  const symbols = new Map<string, LogicFormula>(
+    ['A', 'B', 'C', 'D'].map(symbol => [symbol, FormulaBuilder.atomic(symbol)])
+  );
+  const parse = (premise: string) => {
+    const { formula } = PremiseParser.parse(premise, symbols);
+    return formula ? FormulaUtils.toString(formula) : null;
+  };
+  const errorFor = (premise: string) => PremiseParser.parse(premise, symbols).error!;
+
+  describe('precedence and grouping', () => {
+    test('conjunction binds tighter than implication', () => {
+      expect(parse('A && B -> C')).toBe('((A ∧ B) → C)');
+    });
+
+    test('parentheses override precedence', () => {
+      expect(parse('(A || B) && C')).toBe('((A ∨ B) ∧ C)');
+    });
+
+    test('implication chains group to the right', () => {
+      expect(parse('A -> B -> C')).toBe('(A → (B → C))');
+    });
+
+    test('conjunction chains group to the left', () => {
+      expect(parse('A && B && C')).toBe('((A ∧ B) ∧ C)');
+    });
+
+    test('disjunction binds looser than conjunction', () => {
+      expect(parse('A || B && C')).toBe('(A ∨ (B ∧ C))');
+    });
+
+    test('biconditional binds loosest', () => {
+      expect(parse('A -> B <-> C')).toBe('((A → B) ↔ C)');
+    });
+
+    test('negation binds tightest', () => {
+      expect(parse('!A && B')).toBe('(¬A ∧ B)');
+      expect(parse('!(A && B)')).toBe('¬(A ∧ B)');
+    });
+
+    test('nested parentheses', () => {
+      expect(parse('((A -> B) -> C) -> D')).toBe('(((A → B) → C) → D)');
+    });
+  });
+
+  describe('spellings', () => {
+    test('Unicode operators', () => {
+      expect(parse('¬A ∧ B → C ∨ D')).toBe('((¬A ∧ B) → (C ∨ D))');
+      expect(parse('A ↔ B')).toBe('(A ↔ B)');
+    });
+
+    test('not keyword', () => {
+      expect(parse('not A -> B')).toBe('(¬A → B)');
+    });
+
+    test('double negation', () => {
+      expect(parse('!!A')).toBe('¬¬A');
+    });
+
+    test('whitespace is optional', () => {
+      expect(parse('A&&B->C')).toBe('((A ∧ B) → C)');
+    });
+
+    test('units', () => {
+      expect(parse('A && ⊥ -> ⊤')).toBe('((A ∧ ⊥) → ⊤)');
+      expect(parse('true <-> !false')).toBe('(⊤ ↔ ¬⊥)');
+    });
+
+    test('semi-natural implication words', () => {
+      expect(parse('A enables B')).toBe('(A → B)');
+      expect(parse('A && B implies C')).toBe('((A ∧ B) → C)');
+      expect(parse('A is necessary for B')).toBe('(A → B)');
+    });
+  });
+
+  describe('rejects', () => {
+    test('undefined symbols', () => {
+      expect(parse('A -> E')).toBeNull();
+    });
+
+    test('unbalanced parentheses', () => {
+      expect(parse('(A && B')).toBeNull();
+      expect(parse('A && B)')).toBeNull();
+    });
+
+    test('dangling operators', () => {
+      expect(parse('A &&')).toBeNull();
+      expect(parse('-> B')).toBeNull();
+    });
+
+    test('unknown characters', () => {
+      expect(parse('A + B')).toBeNull();
+    });
+  });
+
+  describe('errors', () => {
+    test('undefined symbol with its offset and the defined symbols', () => {
+      const error = errorFor('A && MISSING -> C');
+
+      expect(error.code).toBe('UNDEFINED_SYMBOL');
+      expect(error.offset).toBe(5);
+      expect(error.token).toBe('MISSING');
+      expect(error.expected).toEqual(['A', 'B', 'C', 'D']);
+    });
+
+    test('dangling operator expects an operand at the end', () => {
+      const error = errorFor('A &&');
+
+      expect(error.code).toBe('UNEXPECTED_TOKEN');
+      expect(error.offset).toBe(4);
+      expect(error.token).toBe('');
+      expect(error.expected).toEqual(['symbol', '!', '(']);
+      expect(error.message).toContain('found end of premise');
+    });
+
+    test('two symbols in a row expect an operator', () => {
+      const error = errorFor('A B');
+
+      expect(error.code).toBe('UNEXPECTED_TOKEN');
+      expect(error.token).toBe('B');
+      expect(error.expected).toContain('&&');
+    });
+
+    test('unclosed parenthesis points at the opening parenthesis', () => {
+      const error = errorFor('A && (B || C');
+
+      expect(error.code).toBe('UNBALANCED_PAREN');
+      expect(error.offset).toBe(5);
+      expect(error.expected).toEqual([')']);
+    });
+
+    test('stray closing parenthesis', () => {
+      const error = errorFor('A && B) -> C');
+
+      expect(error.code).toBe('UNBALANCED_PAREN');
+      expect(error.offset).toBe(6);
+      expect(error.token).toBe(')');
+    });
+
+    test('unknown character', () => {
+      const error = errorFor('A + B');
+
+      expect(error.code).toBe('UNEXPECTED_TOKEN');
+      expect(error.token).toBe('+');
+      expect(error.offset).toBe(2);
+    });
+
+    test('snippet puts a caret under the offending token', () => {
+      expect(errorFor('A && && B').snippet).toBe('A && && B\n     ^');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * UNIT TESTS - Problem Export
+ * Tests writing arguments as TPTP and SMT-LIB problems
+ */
+
+import { ProblemExport } from '../../src/export/problem-export';
+import { ArgumentFormulas } from '../../src/export/argument-formulas';
+import { NaturalLanguageParser } from '../../src/parser/nlp-parser';
+import { FormulaBuilder } from '../../src/logic/formula';
+import { ArgumentRecord, Term } from '../../src/types';
+
+describe('ProblemExport', () => {
+  const parsed = new NaturalLanguageParser().parseArgument(
+    'Premise 1: All humans are mortal\nPremise 2: Socrates is human\nConclusion: Socrates is mortal'
+  );
+  const premises = parsed.premises.map(p => p.formula);
+  const conclusion = parsed.conclusion.formula;
+
+  const symbolic = ArgumentFormulas.fromRecord({
+    atomGroupings: ['AUTH', 'ROLE', 'ACCESS'].map(symbol => ({ symbol, concept_description: `${symbol} holds`, text_variants: [] })),
+    premises: ['AUTH', 'AUTH ∧ ROLE → ACCESS', 'AUTH <-> ROLE'],
+    conclusion: 'ACCESS',
+    lemmas: []
+  } as unknown as ArgumentRecord);
+
+  const variable = (name: string): Term => ({ type: 'variable', name });
+
+  describe('TPTP FOF', () => {
+    test('keeps quantifiers, variables, predicates and constants of a parsed argument', () => {
+      const tptp = ProblemExport.toTptpFof(premises, conclusion);
+
+      expect(tptp).toMatch(/fof\(premise_1, axiom, \( ! \[(\w+)\] : \( humans?\(\1\) => mortal\(\1\) \) \)\)\./);
+      expect(tptp).toContain('fof(premise_2, axiom, human(socrates)).');
+      expect(tptp).toContain('fof(conclusion, conjecture, mortal(socrates)).');
+      expect(tptp).toContain('% P1: All humans are mortal');
+    });
+
+    test('quotes symbols that are not TPTP lower words', () => {
+      const tptp = ProblemExport.toTptpFof(symbolic.premises.map(p => p.formula), symbolic.conclusion!.formula);
+
+      expect(tptp).toContain("fof(premise_2, axiom, ( ( 'AUTH' & 'ROLE' ) => 'ACCESS' )).");
+      expect(tptp).toContain("fof(premise_3, axiom, ( 'AUTH' <=> 'ROLE' )).");
+      expect(tptp).toContain("fof(conclusion, conjecture, 'ACCESS').");
+    });
+
+    test('binds nested quantifiers to different variables and closes free ones', () => {
+      const loves = FormulaBuilder.atomic('loves', [variable('x'), variable('y')]);
+      const everyoneLoves = FormulaBuilder.forall('x', FormulaBuilder.exists('y', loves));
+      const free = FormulaBuilder.atomic('happy', [variable('z')]);
+
+      const tptp = ProblemExport.toTptpFof([everyoneLoves], free);
+
+      expect(tptp).toContain('fof(premise_1, axiom, ( ! [X] : ( ? [Y] : loves(X, Y) ) )).');
+      expect(tptp).toContain('fof(conclusion, conjecture, ( ! [Z] : happy(Z) )).');
+    });
+  });
+
+  describe('TPTP CNF', () => {
+    test('clausifies premises and the negated conclusion', () => {
+      const cnf = ProblemExport.toTptpCnf(symbolic.premises.map(p => p.formula), symbolic.conclusion!.formula);
+
+      expect(cnf).toContain("cnf(premise_1_1, axiom, ( 'AUTH' )).");
+      expect(cnf).toContain("cnf(premise_2_1, axiom, ( ~ 'AUTH' | ~ 'ROLE' | 'ACCESS' )).");
+      expect(cnf).toContain("cnf(premise_3_1, axiom, ( ~ 'AUTH' | 'ROLE' )).");
+      expect(cnf).toContain("cnf(premise_3_2, axiom, ( 'AUTH' | ~ 'ROLE' )).");
+      expect(cnf).toContain("cnf(negated_conclusion_1, negated_conjecture, ( ~ 'ACCESS' )).");
+    });
+
+    test('Skolemizes existentials over the universals they sit under', () => {
+      const loves = FormulaBuilder.atomic('loves', [variable('x'), variable('y')]);
+      const someoneLoved = FormulaBuilder.exists('y', FormulaBuilder.atomic('loves', [{ type: 'constant', name: 'ann' }, variable('y')]));
+
+      const cnf = ProblemExport.toTptpCnf([FormulaBuilder.forall('x', FormulaBuilder.exists('y', loves))], someoneLoved);
+
+      expect(cnf).toContain('cnf(premise_1_1, axiom, ( loves(X1, sk1(X1)) )).');
+      expect(cnf).toContain('cnf(negated_conclusion_1, negated_conjecture, ( ~ loves(ann, X2) )).');
+    });
+
+    test('drops tautologies and keeps the empty clause', () => {
+      const a = FormulaBuilder.atomic('a');
+      const cnf = ProblemExport.toTptpCnf(
+        [FormulaBuilder.compound('or', [a, FormulaBuilder.compound('not', [a])]), FormulaBuilder.zero()],
+        a
+      );
+
+      expect(cnf).not.toContain('premise_1_1');
+      expect(cnf).toContain('cnf(premise_2_1, axiom, ( $false )).');
+    });
+
+    test('names the conjunctions of a disjunction that would multiply out to too many clauses', () => {
+      const atom = (name: string) => FormulaBuilder.atomic(name, [variable('x')]);
+      const cases = Array.from({ length: 12 }, (_, i) => FormulaBuilder.and(atom(`a${i}`), atom(`b${i}`)))
+        .reduce((left, right) => FormulaBuilder.or(left, right));
+
+      const cnf = ProblemExport.toTptpCnf([cases], FormulaBuilder.atomic('c'));
+      const premiseClauses = cnf.split('\n').filter(line => line.startsWith('cnf(premise_1_'));
+
+      expect(premiseClauses).toHaveLength(25);
+      expect(premiseClauses).toContain('cnf(premise_1_2, axiom, ( ~ def1(X1) | a0(X1) )).');
+      expect(premiseClauses).toContain('cnf(premise_1_3, axiom, ( ~ def1(X1) | b0(X1) )).');
+      expect(premiseClauses[0]).toBe(`cnf(premise_1_1, axiom, ( ${Array.from({ length: 12 }, (_, i) => `def${i + 1}(X1)`).join(' | ')} )).`);
+    });
+  });
+
+  describe('SMT-LIB 2', () => {
+    test('declares an uninterpreted sort, constants and predicates for a first-order argument', () => {
+      const smt = ProblemExport.toSmtLib(premises, conclusion);
+
+      expect(smt).toContain('(set-logic UF)');
+      expect(smt).toContain('(declare-sort U 0)');
+      expect(smt).toContain('(declare-const socrates U)');
+      expect(smt).toContain('(declare-fun mortal (U) Bool)');
+      expect(smt).toMatch(/\(assert \(! \(forall \(\((\w+) U\)\) \(=> \(humans? \1\) \(mortal \1\)\)\) :named premise_1\)\)/);
+      expect(smt).toContain('(assert (! (not (mortal socrates)) :named negated_conclusion))');
+      expect(smt).toMatch(/\(check-sat\)$/);
+    });
+
+    test('uses Boolean constants for a propositional argument', () => {
+      const smt = ProblemExport.toSmtLib(symbolic.premises.map(p => p.formula), symbolic.conclusion!.formula);
+
+      expect(smt).toContain('(set-logic QF_UF)');
+      expect(smt).not.toContain('declare-sort');
+      expect(smt).toContain('(declare-const AUTH Bool)');
+      expect(smt).toContain('(assert (! (=> (and AUTH ROLE) ACCESS) :named premise_2))');
+      expect(smt).toContain('(assert (! (= AUTH ROLE) :named premise_3))');
+    });
+
+    test('renames built-in symbols and quotes symbols SMT-LIB cannot take bare', () => {
+      const smt = ProblemExport.toSmtLib([FormulaBuilder.atomic('not')], FormulaBuilder.atomic('has space'));
+
+      expect(smt).toContain('(declare-const not_2 Bool)');
+      expect(smt).toContain('(assert (! not_2 :named premise_1))');
+      expect(smt).toContain('(assert (! (not |has space|) :named negated_conclusion))');
+    });
+
+    test('gives names that would share a symbol symbols of their own', () => {
+      const constant = (name: string): Term => ({ type: 'constant', name });
+      const smt = ProblemExport.toSmtLib(
+        [FormulaBuilder.atomic('a|b'), FormulaBuilder.atomic('a_b'), FormulaBuilder.atomic('premise_1'), FormulaBuilder.atomic('p', [constant('p')])],
+        FormulaBuilder.atomic('a\\b')
+      );
+
+      expect(smt).toContain('(declare-const p U)');
+      expect(smt).toContain('(declare-const a_b Bool)');
+      expect(smt).toContain('(declare-const a_b_2 Bool)');
+      expect(smt).toContain('(declare-const premise_1_2 Bool)');
+      expect(smt).toContain('(declare-fun p_2 (U) Bool)');
+      expect(smt).toContain('(declare-const a_b_3 Bool)');
+      expect(smt).toContain('(assert (! (p_2 p) :named premise_4))');
+      expect(smt).toContain('(assert (! (not a_b_3) :named negated_conclusion))');
+    });
+  });
+});
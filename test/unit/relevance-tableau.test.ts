@@ -0,0 +1,310 @@
+/**
+ * UNIT TESTS - Relevance Tableau
+ * Tests relevant consequence in R and E through FormulaUtils.proveRelevant and proveEntailment
+ */
+
+import { FormulaUtils, FormulaBuilder } from '../../src/logic/formula';
+import { LogicFormula } from '../../src/types';
+
+describe('FormulaUtils.proveRelevant - Tableaux for R', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+
+  describe('proved', () => {
+    test('modus ponens', () => {
+      const result = FormulaUtils.proveRelevant([A, FormulaBuilder.implies(A, B)], B);
+
+      expect(result.status).toBe('proved');
+      expect(result.openBranch).toBeUndefined();
+    });
+
+    test('biconditional in either direction', () => {
+      expect(FormulaUtils.proveRelevant([FormulaBuilder.iff(A, B), B], A).status).toBe('proved');
+      expect(FormulaUtils.proveRelevant([FormulaBuilder.implies(A, B), FormulaBuilder.implies(B, A)], FormulaBuilder.iff(A, B)).status).toBe('proved');
+    });
+
+    test('additive units', () => {
+      expect(FormulaUtils.proveRelevant([FormulaBuilder.zero()], C).status).toBe('proved');
+      expect(FormulaUtils.proveRelevant([A], FormulaBuilder.top()).status).toBe('proved');
+    });
+
+    test('proof by cases', () => {
+      const result = FormulaUtils.proveRelevant([
+        FormulaBuilder.or(A, B),
+        FormulaBuilder.implies(A, C),
+        FormulaBuilder.implies(B, C)
+      ], C);
+
+      expect(result.status).toBe('proved');
+    });
+
+    test('contraposition', () => {
+      const result = FormulaUtils.proveRelevant(
+        [FormulaBuilder.implies(A, B)],
+        FormulaBuilder.implies(FormulaBuilder.not(B), FormulaBuilder.not(A))
+      );
+
+      expect(result.status).toBe('proved');
+    });
+
+    test('assertion axiom A → ((A → B) → B)', () => {
+      const result = FormulaUtils.proveRelevant([], FormulaBuilder.implies(
+        A,
+        FormulaBuilder.implies(FormulaBuilder.implies(A, B), B)
+      ));
+
+      expect(result.status).toBe('proved');
+    });
+
+    test('contraction', () => {
+      const result = FormulaUtils.proveRelevant(
+        [FormulaBuilder.implies(A, FormulaBuilder.implies(A, B))],
+        FormulaBuilder.implies(A, B)
+      );
+
+      expect(result.status).toBe('proved');
+    });
+
+    test('excluded middle', () => {
+      const result = FormulaUtils.proveRelevant([], FormulaBuilder.or(A, FormulaBuilder.not(A)));
+
+      expect(result.status).toBe('proved');
+    });
+
+    describe('axioms of R', () => {
+      const imp = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.implies(x, y);
+
+      test('self-implication A → A', () => {
+        expect(FormulaUtils.proveRelevant([], imp(A, A)).status).toBe('proved');
+      });
+
+      test('prefixing (A → B) → ((C → A) → (C → B))', () => {
+        expect(FormulaUtils.proveRelevant([], imp(imp(A, B), imp(imp(C, A), imp(C, B)))).status).toBe('proved');
+      });
+
+      test('suffixing (A → B) → ((B → C) → (A → C))', () => {
+        expect(FormulaUtils.proveRelevant([], imp(imp(A, B), imp(imp(B, C), imp(A, C)))).status).toBe('proved');
+      });
+
+      test('contraction (A → (A → B)) → (A → B)', () => {
+        expect(FormulaUtils.proveRelevant([], imp(imp(A, imp(A, B)), imp(A, B))).status).toBe('proved');
+      });
+
+      test('assertion A → ((A → B) → B)', () => {
+        expect(FormulaUtils.proveRelevant([], imp(A, imp(imp(A, B), B))).status).toBe('proved');
+      });
+
+      test('permutation (A → (B → C)) → (B → (A → C))', () => {
+        expect(FormulaUtils.proveRelevant([], imp(imp(A, imp(B, C)), imp(B, imp(A, C)))).status).toBe('proved');
+      });
+
+      test('self-distribution (A → (B → C)) → ((A → B) → (A → C))', () => {
+        const result = FormulaUtils.proveRelevant([], imp(imp(A, imp(B, C)), imp(imp(A, B), imp(A, C))));
+
+        expect(result.status).toBe('proved');
+        expect(result.naturalDeduction).toBeDefined();
+      });
+
+      test('permuted self-distribution (A → B) → ((A → (B → C)) → (A → C))', () => {
+        expect(FormulaUtils.proveRelevant([], imp(imp(A, B), imp(imp(A, imp(B, C)), imp(A, C)))).status).toBe('proved');
+      });
+    });
+
+    test('closed tableau records the contradiction on every branch', () => {
+      const result = FormulaUtils.proveRelevant([A, FormulaBuilder.implies(A, B)], B);
+
+      const leaves: any[] = [];
+      const collect = (node: any) => node.children.length === 0 ? leaves.push(node) : node.children.forEach(collect);
+      collect(result.tableau);
+
+      expect(result.tableau.entries).toContain('A, +0');
+      expect(result.tableau.entries).toContain('B, -0');
+      expect(leaves.every(leaf => leaf.closedBy)).toBe(true);
+    });
+  });
+
+  describe('refuted', () => {
+    test('REJECTS explosion', () => {
+      const result = FormulaUtils.proveRelevant([A, FormulaBuilder.not(A)], B);
+
+      expect(result.status).toBe('refuted');
+      expect(result.openBranch!.formulas).toContain('B, -0');
+    });
+
+    test('REJECTS disjunctive syllogism', () => {
+      const result = FormulaUtils.proveRelevant([A, FormulaBuilder.or(FormulaBuilder.not(A), B)], B);
+
+      expect(result.status).toBe('refuted');
+    });
+
+    test('REJECTS positive paradox A → (B → A)', () => {
+      const result = FormulaUtils.proveRelevant([], FormulaBuilder.implies(A, FormulaBuilder.implies(B, A)));
+
+      expect(result.status).toBe('refuted');
+      expect(result.openBranch!.relations.length).toBeGreaterThan(0);
+    });
+
+    test('REJECTS mingle A → (A → A)', () => {
+      const result = FormulaUtils.proveRelevant([], FormulaBuilder.implies(A, FormulaBuilder.implies(A, A)));
+
+      expect(result.status).toBe('refuted');
+    });
+
+    test('REJECTS implication whose antecedent is never asserted', () => {
+      const result = FormulaUtils.proveRelevant([FormulaBuilder.implies(A, B)], B);
+
+      expect(result.status).toBe('refuted');
+    });
+
+    test('REJECTS the consequent of an implication whose antecedent is an implication', () => {
+      const result = FormulaUtils.proveRelevant([FormulaBuilder.implies(FormulaBuilder.implies(A, B), C)], C);
+
+      expect(result.status).toBe('refuted');
+    });
+
+    describe('within seconds', () => {
+      const refuteInTime = (premises: LogicFormula[], conclusion: LogicFormula) => {
+        const start = Date.now();
+        const result = FormulaUtils.proveRelevant(premises, conclusion);
+
+        expect(result.status).toBe('refuted');
+        expect(result.countermodel!.logic).toBe('relevant');
+        expect(Date.now() - start).toBeLessThan(3000);
+      };
+
+      test('REJECTS ex falso (A ∧ ¬A) → B', () => {
+        refuteInTime([], FormulaBuilder.implies(FormulaBuilder.and(A, FormulaBuilder.not(A)), B));
+      });
+
+      test('REJECTS verum ex quodlibet A → (B ∨ ¬B)', () => {
+        refuteInTime([], FormulaBuilder.implies(A, FormulaBuilder.or(B, FormulaBuilder.not(B))));
+      });
+
+      test('REJECTS the material conditional ¬A ∨ B ⊢ A → B', () => {
+        refuteInTime([FormulaBuilder.or(FormulaBuilder.not(A), B)], FormulaBuilder.implies(A, B));
+      });
+    });
+
+    test('REJECTS a biconditional from one direction only', () => {
+      const result = FormulaUtils.proveRelevant([FormulaBuilder.implies(A, B)], FormulaBuilder.iff(A, B));
+
+      expect(result.status).toBe('refuted');
+    });
+  });
+});
+
+describe('FormulaUtils.proveEntailment - Tableaux for E', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+
+  test('modus ponens', () => {
+    expect(FormulaUtils.proveEntailment([A, FormulaBuilder.implies(A, B)], B).status).toBe('proved');
+  });
+
+  test('suffixing', () => {
+    const result = FormulaUtils.proveEntailment(
+      [FormulaBuilder.implies(A, B)],
+      FormulaBuilder.implies(FormulaBuilder.implies(B, C), FormulaBuilder.implies(A, C))
+    );
+
+    expect(result.status).toBe('proved');
+  });
+
+  test('contraction', () => {
+    const result = FormulaUtils.proveEntailment(
+      [FormulaBuilder.implies(A, FormulaBuilder.implies(A, B))],
+      FormulaBuilder.implies(A, B)
+    );
+
+    expect(result.status).toBe('proved');
+  });
+
+  test('axioms of E shared with R', () => {
+    const imp = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.implies(x, y);
+
+    expect(FormulaUtils.proveEntailment([], imp(A, A)).status).toBe('proved');
+    expect(FormulaUtils.proveEntailment([], imp(imp(A, B), imp(imp(C, A), imp(C, B)))).status).toBe('proved');
+    expect(FormulaUtils.proveEntailment([], imp(imp(A, B), imp(imp(B, C), imp(A, C)))).status).toBe('proved');
+    expect(FormulaUtils.proveEntailment([], imp(imp(A, imp(A, B)), imp(A, B))).status).toBe('proved');
+  });
+
+  describe('axioms of E', () => {
+    const imp = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.implies(x, y);
+    const not = (x: LogicFormula) => FormulaBuilder.not(x);
+    const and = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.and(x, y);
+    const or = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.or(x, y);
+
+    test('self-distribution (A → (B → C)) → ((A → B) → (A → C)), in both orders', () => {
+      expect(FormulaUtils.proveEntailment([], imp(imp(A, imp(B, C)), imp(imp(A, B), imp(A, C)))).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(imp(A, B), imp(imp(A, imp(B, C)), imp(A, C)))).status).toBe('proved');
+    });
+
+    test('restricted assertion (A → B) → (((A → B) → C) → C)', () => {
+      const result = FormulaUtils.proveEntailment([], imp(imp(A, B), imp(imp(imp(A, B), C), C)));
+
+      expect(result.status).toBe('proved');
+    });
+
+    test('reductio, contraposition and double negation', () => {
+      expect(FormulaUtils.proveEntailment([], imp(imp(A, not(A)), not(A))).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(imp(A, not(B)), imp(B, not(A)))).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(not(not(A)), A)).status).toBe('proved');
+    });
+
+    test('conjunction, disjunction and distribution', () => {
+      expect(FormulaUtils.proveEntailment([], imp(and(A, B), A)).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(and(imp(A, B), imp(A, C)), imp(A, and(B, C)))).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(A, or(A, B))).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(and(imp(A, C), imp(B, C)), imp(or(A, B), C))).status).toBe('proved');
+      expect(FormulaUtils.proveEntailment([], imp(and(A, or(B, C)), or(and(A, B), C))).status).toBe('proved');
+    });
+
+    test('necessity distributes over conjunction, with □A read as (A → A) → A', () => {
+      const necessary = (x: LogicFormula) => imp(imp(x, x), x);
+
+      expect(FormulaUtils.proveEntailment([], imp(and(necessary(A), necessary(B)), necessary(and(A, B)))).status).toBe('proved');
+    });
+  });
+
+  test('restricted assertion ((A → A) → B) → B', () => {
+    const result = FormulaUtils.proveEntailment([], FormulaBuilder.implies(
+      FormulaBuilder.implies(FormulaBuilder.implies(A, A), B),
+      B
+    ));
+
+    expect(result.status).toBe('proved');
+  });
+
+  test('REJECTS positive paradox with an entailment countermodel', () => {
+    const result = FormulaUtils.proveEntailment([A], FormulaBuilder.implies(B, A));
+
+    expect(result.status).toBe('refuted');
+    expect(result.countermodel!.logic).toBe('entailment');
+  });
+
+  test('REJECTS assertion, which holds in R', () => {
+    const assertion = FormulaBuilder.implies(A, FormulaBuilder.implies(FormulaBuilder.implies(A, B), B));
+
+    expect(FormulaUtils.proveRelevant([], assertion).status).toBe('proved');
+    expect(FormulaUtils.proveEntailment([], assertion).status).toBe('refuted');
+  });
+
+  test('REJECTS a contingent premise carried into a nested implication, which R allows', () => {
+    const premise = [A];
+    const conclusion = FormulaBuilder.implies(FormulaBuilder.implies(A, B), B);
+
+    expect(FormulaUtils.proveRelevant(premise, conclusion).status).toBe('proved');
+    expect(FormulaUtils.proveEntailment(premise, conclusion).status).toBe('refuted');
+  });
+
+  test('REJECTS permutation, which holds in R', () => {
+    const premise = FormulaBuilder.implies(A, FormulaBuilder.implies(B, C));
+    const permuted = FormulaBuilder.implies(B, FormulaBuilder.implies(A, C));
+
+    expect(FormulaUtils.proveRelevant([premise], permuted).status).toBe('proved');
+    expect(FormulaUtils.proveEntailment([premise], permuted).status).toBe('refuted');
+    expect(FormulaUtils.proveEntailment([], FormulaBuilder.implies(premise, permuted)).status).toBe('refuted');
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * UNIT TESTS - Relevant Deduction
+ * Tests natural deduction for R and E, where every line rests on the hypotheses it uses
+ */
+
+import { RelevantDeduction } from '../../src/logic/relevant-deduction';
+import { FormulaBuilder } from '../../src/logic/formula';
+import { LogicFormula, SearchBudget } from '../../src/types';
+
+describe('RelevantDeduction.prove', () => {
+  const A = FormulaBuilder.atomic('A');
+  const B = FormulaBuilder.atomic('B');
+  const C = FormulaBuilder.atomic('C');
+  const imp = (x: LogicFormula, y: LogicFormula) => FormulaBuilder.implies(x, y);
+  const budget = (): SearchBudget => ({ spent: 0, limit: 100000, deadline: Date.now() + 5000 });
+
+  test('self-distribution, with the hypotheses each line rests on', () => {
+    const proof = RelevantDeduction.prove([], imp(imp(A, imp(B, C)), imp(imp(A, B), imp(A, C))), budget());
+
+    expect(proof).not.toBeNull();
+    expect(proof).toContain('      6. C {1, 2, 3} →E 4, 5');
+    expect(proof![proof!.length - 1]).toBe('9. ((A → (B → C)) → ((A → B) → (A → C))) {} →I 8, 1');
+  });
+
+  test('premises rest on no hypothesis', () => {
+    const proof = RelevantDeduction.prove([A], imp(imp(A, B), B), budget());
+
+    expect(proof).toContain('2. A {} premise');
+  });
+
+  test('proof by cases', () => {
+    const proof = RelevantDeduction.prove([FormulaBuilder.or(A, B), imp(A, C), imp(B, C)], C, budget());
+
+    expect(proof![proof!.length - 1]).toMatch(/C \{\} ∨E/);
+  });
+
+  test('REJECTS positive paradox, whose hypothesis B goes unused', () => {
+    expect(RelevantDeduction.prove([], imp(A, imp(B, A)), budget())).toBeNull();
+  });
+
+  test('REJECTS mingle, as no line rests on both hypotheses A', () => {
+    expect(RelevantDeduction.prove([], imp(A, imp(A, A)), budget())).toBeNull();
+  });
+
+  describe('E', () => {
+    test('carries an entailment into a subproof', () => {
+      expect(RelevantDeduction.prove([], imp(imp(A, B), imp(imp(imp(A, B), C), C)), budget(), 'E')).not.toBeNull();
+    });
+
+    test('REJECTS assertion, as A is contingent and cannot be used under the hypothesis A → B', () => {
+      const assertion = imp(A, imp(imp(A, B), B));
+
+      expect(RelevantDeduction.prove([], assertion, budget(), 'R')).not.toBeNull();
+      expect(RelevantDeduction.prove([], assertion, budget(), 'E')).toBeNull();
+    });
+  });
+
+  test('gives up once the budget is spent', () => {
+    const spent: SearchBudget = { spent: 0, limit: 0, deadline: Date.now() + 5000 };
+
+    expect(RelevantDeduction.prove([], imp(A, A), spent)).toBeNull();
+  });
+});